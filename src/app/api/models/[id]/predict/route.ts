@@ -0,0 +1,51 @@
+import {
+  InvalidRequestError,
+  parseInstances,
+  predictRecords,
+} from "@/lib/inference";
+import { restorePipeline } from "@/lib/model-bundle";
+import { loadModel } from "@/lib/model-registry";
+
+interface PredictRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Scores `{ "instance": {...} }` or `{ "instances": [...] }`. Each instance
+ * is keyed by feature column or lists values in the model's column order.
+ */
+export async function POST(request: Request, { params }: PredictRouteContext) {
+  const { id } = await params;
+  const model = await loadModel(id);
+  if (!model) {
+    return Response.json({ error: `Model "${id}" not found.` }, { status: 404 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json(
+      { error: "Request body is not valid JSON." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const { batch, records } = parseInstances(body, model.bundle.featureColumns);
+    const predictions = predictRecords(
+      model.bundle,
+      restorePipeline(model.bundle),
+      records,
+      batch,
+    );
+    return Response.json(
+      batch ? { predictions } : { prediction: predictions[0] },
+    );
+  } catch (error) {
+    if (error instanceof InvalidRequestError) {
+      return Response.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
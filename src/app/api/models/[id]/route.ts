@@ -0,0 +1,29 @@
+import { describeSchema } from "@/lib/inference";
+import { deleteModel, loadModel } from "@/lib/model-registry";
+
+interface ModelRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: ModelRouteContext) {
+  const { id } = await params;
+  const model = await loadModel(id);
+  if (!model) {
+    return Response.json({ error: `Model "${id}" not found.` }, { status: 404 });
+  }
+  return Response.json({
+    id: model.id,
+    registeredAt: model.registeredAt,
+    featureColumns: model.bundle.featureColumns,
+    schema: describeSchema(model.bundle),
+    evaluation: model.bundle.evaluation,
+  });
+}
+
+export async function DELETE(_request: Request, { params }: ModelRouteContext) {
+  const { id } = await params;
+  if (!(await deleteModel(id))) {
+    return Response.json({ error: `Model "${id}" not found.` }, { status: 404 });
+  }
+  return new Response(null, { status: 204 });
+}
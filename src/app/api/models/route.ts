@@ -0,0 +1,27 @@
+import { describeSchema } from "@/lib/inference";
+import { parseModelBundle, restorePipeline } from "@/lib/model-bundle";
+import { listModels, registerModel } from "@/lib/model-registry";
+
+export async function GET() {
+  return Response.json({ models: await listModels() });
+}
+
+/** Registers an exported model bundle (the JSON from "Export Model"). */
+export async function POST(request: Request) {
+  let bundle;
+  try {
+    bundle = parseModelBundle(await request.text());
+    // Fail at registration, not on every prediction, if the models cannot load.
+    restorePipeline(bundle);
+  } catch (error) {
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Invalid model bundle." },
+      { status: 400 },
+    );
+  }
+  const model = await registerModel(bundle);
+  return Response.json(
+    { ...model, schema: describeSchema(bundle) },
+    { status: 201 },
+  );
+}
@@ -1,83 +1,278 @@
 "use client";
 
-import Papa from "papaparse";
-import { ChangeEvent, useMemo, useState } from "react";
-import SVM from "ml-svm";
+import {
+  ChangeEvent,
+  useEffect,
+  useEffectEvent,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import BatchPredictionPanel, {
+  type BatchFile,
+  type BatchRun,
+} from "@/components/BatchPredictionPanel";
+import ClassBalanceControls from "@/components/ClassBalanceControls";
+import ClassificationReportPanel from "@/components/ClassificationReportPanel";
+import DatasetProfilePanel from "@/components/DatasetProfilePanel";
+import DecisionBoundaryPanel from "@/components/DecisionBoundaryPanel";
+import DatasetGallery from "@/components/DatasetGallery";
+import DiagnosticsPanel from "@/components/DiagnosticsPanel";
+import ExperimentHistoryPanel from "@/components/ExperimentHistoryPanel";
+import FeatureImportancePanel from "@/components/FeatureImportancePanel";
+import FeatureSelectionPanel, {
+  type SelectionSettings,
+} from "@/components/FeatureSelectionPanel";
+import ProbabilityBars from "@/components/ProbabilityBars";
+import RegressionReportPanel from "@/components/RegressionReportPanel";
+import ReliabilityDiagramPanel from "@/components/ReliabilityDiagramPanel";
+import SignedBars from "@/components/SignedBars";
+import WorkspaceSwitcher from "@/components/WorkspaceSwitcher";
+import HyperparameterSearchPanel, {
+  type SearchRun,
+} from "@/components/HyperparameterSearchPanel";
+import {
+  buildReliabilityDiagram,
+  classProbabilities,
+} from "@/lib/calibration";
+import {
+  convergenceWarning,
+  type CurveResult,
+  type CurveSettings,
+} from "@/lib/diagnostics";
+import { downloadFile } from "@/lib/download";
+import {
+  MISSING_LABELS,
+  encodeDataset,
+  encodeRecord,
+  featureImputation,
+  featureSources,
+  fitFeatureEncoder,
+  isMissing,
+  isRequired,
+  type CategoricalEncoding,
+  type ColumnType,
+  type EncodingOptions,
+  type FeatureEncoder,
+  type MissingStrategy,
+} from "@/lib/encoding";
+import {
+  createSeededRandom,
+  stratifiedSample,
+  type EvaluationMode,
+  type EvaluationResult,
+  type EvaluationSettings,
+} from "@/lib/evaluation";
+import {
+  createExperiment,
+  datasetFingerprint,
+  type ExperimentRun,
+} from "@/lib/experiments";
+import {
+  DEFAULT_IMBALANCE,
+  type ImbalanceSettings,
+} from "@/lib/imbalance";
+import {
+  explainPrediction,
+  featureGroups,
+  IMPORTANCE_REPEATS,
+  linearWeights,
+  type LocalContribution,
+} from "@/lib/importance";
+import {
+  ACCEPTED_EXTENSIONS,
+  FORMAT_LABELS,
+  importDataset,
+  type DatasetFormat,
+} from "@/lib/importers";
+import {
+  DEFAULT_PARSE_SETTINGS,
+  DELIMITER_LABELS,
+  ENCODING_LABELS,
+  LARGE_DATASET_ROWS,
+  errorReportCsv,
+  type ParseSettings,
+  type ParsedRow,
+  type RowError,
+} from "@/lib/ingestion";
+import {
+  KERNELS,
+  parseGramMatrix,
+  precomputedFeatures,
+} from "@/lib/kernels";
+import { buildClassificationReport } from "@/lib/metrics";
+import {
+  createModelBundle,
+  parseModelBundle,
+  restorePipeline,
+} from "@/lib/model-bundle";
+import { correlationMatrix, profileDataset } from "@/lib/profiling";
+import {
+  SCALING_LABELS,
+  type ScalingMethod,
+} from "@/lib/preprocessing";
+import {
+  TASK_LABELS,
+  detectTask,
+  isRegressionEvaluation,
+  parseTargets,
+  predictValue,
+  type RegressionEvaluation,
+  type TaskSelection,
+} from "@/lib/regression";
+import {
+  generateScoringModule,
+  pickTestVectors,
+  type ScoringLanguage,
+} from "@/lib/scoring-code";
+import {
+  generateCandidates,
+  type SearchResult,
+  type SearchSpace,
+} from "@/lib/search";
+import type { SelectionResult } from "@/lib/selection";
+import {
+  DEFAULT_SOLVER,
+  deserializePipeline,
+  MULTICLASS_LABELS,
+  marginsByModel,
+  modelClasses,
+  scorePipeline,
+  serializePipeline,
+  type KernelKey,
+  type MulticlassStrategy,
+  type SolverSettings,
+  type TrainedPipeline,
+} from "@/lib/svm";
+import {
+  createWorkspace,
+  deleteWorkspace,
+  duplicateWorkspace,
+  getLastWorkspaceId,
+  listWorkspaces,
+  loadWorkspace,
+  renameWorkspace,
+  saveWorkspace,
+  setLastWorkspaceId,
+  type WorkspaceSettings,
+  type WorkspaceSnapshot,
+  type WorkspaceSummary,
+} from "@/lib/workspaces";
+import { JobCancelledError, startWorkerJob, type WorkerJob } from "@/workers/client";
+import { describeProgress, type WorkerRequest } from "@/workers/protocol";
 
-type ParsedRow = Record<string, string>;
-type KernelKey = "LINEAR" | "POLY" | "RBF" | "SIGMOID";
-type SVMKernel = "linear" | "polynomial" | "rbf" | "sigmoid";
-
-interface TrainedModel {
-  label: string;
-  svm: InstanceType<typeof SVM>;
+interface GramMatrix {
+  fileName: string;
+  matrix: number[][];
 }
 
-const SAMPLE_DATA = `sepal_length,sepal_width,petal_length,petal_width,species
-5.1,3.5,1.4,0.2,setosa
-4.9,3.0,1.4,0.2,setosa
-5.8,4.0,1.2,0.2,setosa
-7.0,3.2,4.7,1.4,versicolor
-6.4,3.2,4.5,1.5,versicolor
-6.9,3.1,4.9,1.5,versicolor
-6.3,3.3,6.0,2.5,virginica
-5.8,2.7,5.1,1.9,virginica
-7.1,3.0,5.9,2.1,virginica`;
-
 const numberFormatter = new Intl.NumberFormat("en-US", {
   maximumFractionDigits: 4,
 });
 
-const KERNEL_MAP: Record<KernelKey, SVMKernel> = {
-  LINEAR: "linear",
-  POLY: "polynomial",
-  RBF: "rbf",
-  SIGMOID: "sigmoid",
+const AUTOSAVE_DELAY_MS = 800;
+
+/** Wider correlation matrices become unreadable in the profile panel. */
+const MAX_CORRELATION_COLUMNS = 12;
+
+const EVALUATION_LABELS: Record<EvaluationMode, string> = {
+  TRAINING: "Training Accuracy",
+  HOLDOUT: "Hold-out Accuracy",
+  KFOLD: "CV Accuracy",
 };
 
-function parseFeatureValue(value: string) {
-  const parsed = Number(value);
-  return Number.isFinite(parsed) ? parsed : NaN;
-}
+const REGRESSION_LABELS: Record<EvaluationMode, string> = {
+  TRAINING: "Training R²",
+  HOLDOUT: "Hold-out R²",
+  KFOLD: "CV R²",
+};
 
-function resolveKernelOptions(
-  kernel: KernelKey,
-  gammaValue: number | null,
-  dimension: number,
-) {
-  if (kernel === "RBF") {
-    const effectiveGamma = gammaValue ?? 1 / Math.max(1, dimension);
-    const sigma = Math.sqrt(1 / (2 * effectiveGamma));
-    return { sigma };
-  }
-
-  if (kernel === "POLY") {
-    return { degree: 3, constant: 1, multiplier: 1 };
-  }
-
-  if (kernel === "SIGMOID") {
-    return { constant: 1, multiplier: 1 };
-  }
-
-  return undefined;
-}
+const EVALUATION_SOURCES: Record<EvaluationMode, string> = {
+  TRAINING: "Scored on the training data",
+  HOLDOUT: "Scored on the held-out test split",
+  KFOLD: "Scored on pooled out-of-fold predictions",
+};
 
 export default function Home() {
+  // Every parsed row; `parsedRows` is this or a stratified sample of it.
+  const [sourceRows, setSourceRows] = useState<ParsedRow[]>([]);
   const [parsedRows, setParsedRows] = useState<ParsedRow[]>([]);
+  const [declaredTypes, setDeclaredTypes] = useState<Record<string, ColumnType>>(
+    {},
+  );
+  const [importFormat, setImportFormat] = useState<DatasetFormat>("AUTO");
+  const [pastedTable, setPastedTable] = useState<string>("");
+  const [parseSettings, setParseSettings] =
+    useState<ParseSettings>(DEFAULT_PARSE_SETTINGS);
+  const [loadProgress, setLoadProgress] = useState<number | null>(null);
+  const [parseErrors, setParseErrors] = useState<RowError[]>([]);
+  const [sampling, setSampling] = useState({ size: 2000, seed: 42 });
   const [columns, setColumns] = useState<string[]>([]);
   const [labelColumn, setLabelColumn] = useState<string>("");
   const [featureColumns, setFeatureColumns] = useState<string[]>([]);
   const [status, setStatus] = useState<string>("Ready for dataset");
-  const [trainingAccuracy, setTrainingAccuracy] = useState<number | null>(null);
-  const [models, setModels] = useState<TrainedModel[] | null>(null);
+  const [evaluation, setEvaluation] = useState<
+    EvaluationResult | RegressionEvaluation | null
+  >(null);
+  const [pipeline, setPipeline] = useState<TrainedPipeline | null>(null);
+  const [encoder, setEncoder] = useState<FeatureEncoder | null>(null);
   const [predictionInput, setPredictionInput] = useState<Record<string, string>>(
     {},
   );
   const [prediction, setPrediction] = useState<string>("");
+  const [predictionProbabilities, setPredictionProbabilities] = useState<
+    Record<string, number> | null
+  >(null);
+  const [explanation, setExplanation] = useState<{
+    outputs: string[];
+    contributions: LocalContribution[];
+  } | null>(null);
+  const [explainedOutput, setExplainedOutput] = useState<string>("");
   const [trainingError, setTrainingError] = useState<string | null>(null);
   const [gamma, setGamma] = useState<number | null>(null);
   const [cost, setCost] = useState<number>(1);
   const [kernel, setKernel] = useState<KernelKey>("RBF");
+  const [degree, setDegree] = useState<number>(3);
+  const [coef0, setCoef0] = useState<number>(1);
+  const [solver, setSolver] = useState<SolverSettings>(DEFAULT_SOLVER);
+  const [gram, setGram] = useState<GramMatrix | null>(null);
+  const [multiclass, setMulticlass] = useState<MulticlassStrategy>("OVR");
+  const [taskSelection, setTaskSelection] = useState<TaskSelection>("AUTO");
+  const [epsilon, setEpsilon] = useState<number>(0.1);
+  const [scaling, setScaling] = useState<ScalingMethod>("MINMAX");
+  const [columnScaling, setColumnScaling] = useState<
+    Record<string, ScalingMethod>
+  >({});
+  const [encodingOptions, setEncodingOptions] = useState<EncodingOptions>({
+    encoding: "ONE_HOT",
+    missing: "MEAN",
+    constant: "0",
+  });
+  const [imbalance, setImbalance] =
+    useState<ImbalanceSettings>(DEFAULT_IMBALANCE);
+  const [searchRun, setSearchRun] = useState<SearchRun | null>(null);
+  const [selectionRun, setSelectionRun] = useState<SelectionResult | null>(null);
+  const [curveRun, setCurveRun] = useState<CurveResult | null>(null);
+  const [batchRun, setBatchRun] = useState<BatchRun | null>(null);
+  const [activeJob, setActiveJob] = useState<WorkerRequest["type"] | null>(
+    null,
+  );
+  const [jobProgress, setJobProgress] = useState<string>("");
+  const activeJobRef = useRef<WorkerJob<unknown> | null>(null);
+  // Read by jobs on completion, after their own render's settings went stale.
+  const settingsRef = useRef<WorkspaceSettings | null>(null);
+  const [evaluationSettings, setEvaluationSettings] =
+    useState<EvaluationSettings>({
+      mode: "HOLDOUT",
+      testRatio: 0.25,
+      folds: 5,
+      seed: 42,
+    });
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [workspace, setWorkspace] = useState<WorkspaceSummary | null>(null);
+  const [workspaceStatus, setWorkspaceStatus] = useState<string>("");
+  const [workspaceError, setWorkspaceError] = useState<string | null>(null);
+  const [experiments, setExperiments] = useState<ExperimentRun[]>([]);
 
   const datasetSummary = useMemo(() => {
     if (!parsedRows.length) return null;
@@ -87,24 +282,219 @@ export default function Home() {
     };
   }, [parsedRows, columns]);
 
-  const handleCSVContent = (csv: string) => {
-    const result = Papa.parse<ParsedRow>(csv, {
-      header: true,
-      skipEmptyLines: true,
-      dynamicTyping: false,
+  const fingerprint = useMemo(
+    () => datasetFingerprint(parsedRows, columns),
+    [parsedRows, columns],
+  );
+
+  const profiles = useMemo(
+    () => profileDataset(parsedRows, columns, declaredTypes),
+    [parsedRows, columns, declaredTypes],
+  );
+
+  // Feature selection ranks every usable column, not only the selected ones.
+  const selectionCandidates = useMemo(() => {
+    const flagged = new Set(
+      profiles.filter(({ flags }) => flags.length).map(({ column }) => column),
+    );
+    return columns.filter(
+      (column) => column !== labelColumn && !flagged.has(column),
+    );
+  }, [profiles, columns, labelColumn]);
+
+  const columnTypes = useMemo(
+    () => Object.fromEntries(profiles.map(({ column, type }) => [column, type])),
+    [profiles],
+  );
+
+  const correlation = useMemo(() => {
+    const numeric = profiles
+      .filter(
+        (profile) =>
+          profile.type === "numeric" &&
+          profile.column !== labelColumn &&
+          !profile.flags.length,
+      )
+      .slice(0, MAX_CORRELATION_COLUMNS)
+      .map(({ column }) => column);
+    return numeric.length >= 2 ? correlationMatrix(parsedRows, numeric) : null;
+  }, [profiles, parsedRows, labelColumn]);
+
+  const preparation = useMemo(() => {
+    if (!parsedRows.length || !featureColumns.length || !labelColumn) {
+      return null;
+    }
+    try {
+      const fitted = fitFeatureEncoder(
+        parsedRows,
+        featureColumns,
+        encodingOptions,
+        declaredTypes,
+      );
+      return {
+        encoder: fitted,
+        dataset: encodeDataset(fitted, parsedRows, labelColumn),
+        error: null,
+      };
+    } catch (error) {
+      return {
+        encoder: null,
+        dataset: null,
+        error:
+          error instanceof Error ? error.message : "Could not encode the dataset.",
+      };
+    }
+  }, [parsedRows, featureColumns, labelColumn, encodingOptions, declaredTypes]);
+
+  // Occlusion baseline for local explanations: each encoded feature's mean
+  // over its present values (imputed cells are NaN until a pipeline fills them).
+  const featureMeans = useMemo(() => {
+    const features = preparation?.dataset?.features;
+    if (!features?.length) return null;
+    return features[0].map((_, column) => {
+      const present = features
+        .map((row) => row[column])
+        .filter((value) => !Number.isNaN(value));
+      return present.reduce((sum, value) => sum + value, 0) / Math.max(1, present.length);
     });
+  }, [preparation]);
 
-    if (result.errors.length) {
+  // One scaler per encoded feature; one-hot columns share their source's method.
+  const scalingMethods = useMemo(
+    () =>
+      (preparation?.encoder
+        ? featureSources(preparation.encoder)
+        : featureColumns
+      ).map((column) => columnScaling[column] ?? scaling),
+    [preparation, featureColumns, columnScaling, scaling],
+  );
+
+  // Mean, median and mode fills are fitted by each pipeline on its training rows.
+  const imputation = useMemo(
+    () => (preparation?.encoder ? featureImputation(preparation.encoder) : []),
+    [preparation],
+  );
+
+  const settings = useMemo<WorkspaceSettings>(
+    () => ({
+      parameters: { kernel, cost, gamma, degree, multiclass, coef0, solver },
+      task: taskSelection,
+      epsilon,
+      scaling,
+      columnScaling,
+      encoding: encodingOptions,
+      imbalance,
+      evaluation: evaluationSettings,
+    }),
+    [
+      kernel,
+      cost,
+      gamma,
+      degree,
+      multiclass,
+      coef0,
+      solver,
+      taskSelection,
+      epsilon,
+      scaling,
+      columnScaling,
+      encodingOptions,
+      imbalance,
+      evaluationSettings,
+    ],
+  );
+
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  /**
+   * Drops the trained model after a settings change. A training job still
+   * running was started with the old settings, so it is cancelled rather than
+   * left to install a model that no longer matches them. Other jobs run to
+   * completion and report their result as stale.
+   */
+  const discardPipeline = () => {
+    if (activeJob === "train" || activeJob === "regress") {
+      activeJobRef.current?.cancel();
+    }
+    setPipeline(null);
+  };
+
+  const completionStatus = (status: string, startedWith: WorkspaceSettings) =>
+    settingsRef.current === startedWith
+      ? status
+      : `${status} (stale: settings changed while it ran)`;
+
+  const detectedTask = preparation?.dataset
+    ? detectTask(preparation.dataset.labels)
+    : "CLASSIFICATION";
+  const task = taskSelection === "AUTO" ? detectedTask : taskSelection;
+
+  const classifierEvaluation =
+    evaluation && !isRegressionEvaluation(evaluation) ? evaluation : null;
+  const regressionEvaluation =
+    evaluation && isRegressionEvaluation(evaluation) ? evaluation : null;
+
+  // Prediction inputs follow the trained model's encoder when there is one.
+  const formEncoder = (pipeline && encoder) || preparation?.encoder || null;
+
+  const classificationReport = useMemo(
+    () =>
+      classifierEvaluation
+        ? buildClassificationReport(
+            classifierEvaluation.actual,
+            classifierEvaluation.predicted,
+          )
+        : null,
+    [classifierEvaluation],
+  );
+
+  const linearModel = useMemo(() => {
+    const weights = pipeline && encoder ? linearWeights(pipeline) : null;
+    return weights && encoder
+      ? { featureNames: encoder.featureNames, weights }
+      : null;
+  }, [pipeline, encoder]);
+
+  const solverWarning = useMemo(
+    () => (pipeline ? convergenceWarning(pipeline) : null),
+    [pipeline],
+  );
+
+  const reliabilityDiagram = useMemo(
+    () =>
+      classifierEvaluation?.probabilities?.length
+        ? buildReliabilityDiagram(
+            classifierEvaluation.probabilities,
+            classifierEvaluation.actual,
+          )
+        : null,
+    [classifierEvaluation],
+  );
+
+  const loadDataset = async (
+    input: File | string,
+    options: ParseSettings = parseSettings,
+    format: DatasetFormat = importFormat,
+  ) => {
+    let table;
+    try {
+      setStatus("Reading dataset…");
+      setLoadProgress(0);
+      table = await importDataset(input, format, options, setLoadProgress);
+    } catch (error) {
+      setStatus("Dataset could not be read");
       setTrainingError(
-        `CSV parsing error: ${result.errors[0]?.message ?? "Unknown issue"}`,
+        `Parsing error: ${error instanceof Error ? error.message : "Unknown issue"}`,
       );
       return;
+    } finally {
+      setLoadProgress(null);
     }
 
-    const rows = result.data.filter(
-      (row) => Object.values(row).some((value) => value !== ""),
-    );
-    const detectedColumns = result.meta.fields ?? [];
+    const { rows, columns: detectedColumns, declaredTypes: types, errors } = table;
+    setParseErrors(errors);
     if (!rows.length || !detectedColumns.length) {
       setTrainingError("No rows or columns detected in dataset.");
       return;
@@ -115,37 +505,102 @@ export default function Home() {
       (column) => column !== defaultLabel,
     );
 
+    setSourceRows(rows);
     setParsedRows(rows);
     setColumns(detectedColumns);
+    setDeclaredTypes(types);
+    setGram(null);
     setLabelColumn(defaultLabel);
     setFeatureColumns(initialFeatures);
     setTrainingError(null);
     setPredictionInput(
       Object.fromEntries(initialFeatures.map((column) => [column, ""])),
     );
-    setStatus("Dataset loaded");
-    setTrainingAccuracy(null);
-    setModels(null);
+    setStatus(
+      errors.length
+        ? `Dataset loaded; ${errors.length} malformed rows skipped`
+        : "Dataset loaded",
+    );
+    setSearchRun(null);
+    setSelectionRun(null);
+    setCurveRun(null);
+    setEvaluation(null);
+    discardPipeline();
     setPrediction("");
   };
 
   const handleFileUpload = (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    // Allow re-reading the same file with other delimiter or encoding choices.
+    event.target.value = "";
     if (!file) return;
+    void loadDataset(file);
+  };
 
-    const reader = new FileReader();
-    reader.onload = ({ target }) => {
-      const csvContent = target?.result;
-      if (typeof csvContent === "string") {
-        handleCSVContent(csvContent);
-      } else {
-        setTrainingError("Unsupported file encoding.");
+  const applySample = (size: number | null) => {
+    if (size === null) {
+      setParsedRows(sourceRows);
+    } else {
+      try {
+        const indices = stratifiedSample(
+          sourceRows.map((row) => row[labelColumn] ?? ""),
+          size,
+          createSeededRandom(sampling.seed),
+        );
+        setParsedRows(indices.map((index) => sourceRows[index]));
+      } catch (error) {
+        setTrainingError(
+          error instanceof Error ? error.message : "Could not sample the dataset.",
+        );
+        return;
       }
-    };
-    reader.readAsText(file);
+    }
+    // Gram matrices are indexed by row, so they no longer line up.
+    setGram(null);
+    setTrainingError(null);
+    setEvaluation(null);
+    discardPipeline();
+    setPrediction("");
+    setSearchRun(null);
+    setSelectionRun(null);
+    setCurveRun(null);
+    setStatus(
+      size === null
+        ? "Using all rows"
+        : `Sampled ${Math.min(size, sourceRows.length)} rows by ${labelColumn}`,
+    );
+  };
+
+  const handleGramUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const matrix = parseGramMatrix(await file.text(), parsedRows.length);
+      setGram({ fileName: file.name, matrix });
+      setTrainingError(null);
+      setStatus("Gram matrix loaded");
+    } catch (error) {
+      setGram(null);
+      setTrainingError(
+        error instanceof Error ? error.message : "Could not read the Gram matrix.",
+      );
+    }
+    setEvaluation(null);
+    discardPipeline();
+    setPrediction("");
+  };
+
+  const updateSolver = (patch: Partial<SolverSettings>) => {
+    setSolver((previous) => ({ ...previous, ...patch }));
+    setEvaluation(null);
+    discardPipeline();
+    setPrediction("");
   };
 
   const handleFeatureToggle = (column: string) => {
+    activeJobRef.current?.cancel();
     setFeatureColumns((current) => {
       const isSelected = current.includes(column);
       const updated = isSelected
@@ -161,9 +616,10 @@ export default function Home() {
         return { ...previous, [column]: "" };
       });
 
-      setModels(null);
-      setTrainingAccuracy(null);
+      setPipeline(null);
+      setEvaluation(null);
       setPrediction("");
+      setSearchRun(null);
 
       return updated;
     });
@@ -174,133 +630,539 @@ export default function Home() {
       throw new Error("Dataset, features, or label configuration missing.");
     }
 
-    const features: number[][] = [];
-    const labels: string[] = [];
+    if (!preparation?.encoder || !preparation.dataset) {
+      throw new Error(preparation?.error ?? "Could not encode the dataset.");
+    }
 
-    for (const row of parsedRows) {
-      const featureVector = featureColumns.map((column) => {
-        const value = parseFeatureValue(row[column]);
-        if (!Number.isFinite(value)) {
-          throw new Error(`Column "${column}" contains non-numeric values.`);
-        }
-        return value;
-      });
-      features.push(featureVector);
-      labels.push(String(row[labelColumn]));
+    const { features, labels } = preparation.dataset;
+    return { features, labels, encoder: preparation.encoder };
+  };
+
+  /**
+   * Training rows for the precomputed kernel: Gram-matrix rows for every row
+   * with a label. There is no encoder, since feature values are never used.
+   */
+  const computeGramFeaturesAndLabels = () => {
+    if (!gram) {
+      throw new Error("Upload a Gram matrix CSV to use the precomputed kernel.");
+    }
+    if (gram.matrix.length !== parsedRows.length) {
+      throw new Error(
+        `The Gram matrix has ${gram.matrix.length} rows but the dataset has ${parsedRows.length}.`,
+      );
     }
+    const rows = parsedRows.flatMap((row, index) =>
+      isMissing(row[labelColumn]) ? [] : [index],
+    );
+    return {
+      features: precomputedFeatures(gram.matrix, rows),
+      labels: rows.map((row) => parsedRows[row][labelColumn]),
+      encoder: null,
+    };
+  };
+
+  const startJob = <R extends WorkerRequest>(request: R) => {
+    activeJobRef.current?.cancel();
+    const job = startWorkerJob(request, (progress) => {
+      setJobProgress(describeProgress(progress));
+      if (progress.result) {
+        const result = progress.result;
+        setSearchRun((previous) =>
+          previous
+            ? { ...previous, results: [...previous.results, result] }
+            : previous,
+        );
+      }
+    });
+    activeJobRef.current = job;
+    setActiveJob(request.type);
+    setJobProgress("");
+    return job.result.finally(() => {
+      if (activeJobRef.current === job) {
+        activeJobRef.current = null;
+        setActiveJob(null);
+        setJobProgress("");
+      }
+    });
+  };
 
-    return { features, labels };
+  const cancelJob = () => {
+    activeJobRef.current?.cancel();
   };
 
   const trainModel = async () => {
     try {
-      const { features, labels } = computeFeaturesAndLabels();
+      const prepared =
+        kernel === "PRECOMPUTED"
+          ? computeGramFeaturesAndLabels()
+          : computeFeaturesAndLabels();
+      const { features, labels } = prepared;
       if (!features.length) {
         throw new Error("No training data available.");
       }
+      // Kernel values must reach the SVM unscaled.
+      const scaling: ScalingMethod[] =
+        kernel === "PRECOMPUTED"
+          ? features[0].map(() => "NONE")
+          : scalingMethods;
+      const featureImputations = prepared.encoder ? imputation : [];
+
+      // Measured on the evaluation rows; meaningless without feature values.
+      const importance = prepared.encoder
+        ? {
+            groups: featureGroups(featureSources(prepared.encoder)),
+            repeats: IMPORTANCE_REPEATS,
+            seed: evaluationSettings.seed,
+          }
+        : undefined;
+
+      setStatus("Training…");
+
+      const { parameters } = settings;
+      const startedAt = performance.now();
+      const result =
+        task === "REGRESSION"
+          ? await startJob({
+              type: "regress",
+              features,
+              targets: parseTargets(labels, labelColumn),
+              parameters,
+              epsilon,
+              scaling,
+              imputation: featureImputations,
+              settings: evaluationSettings,
+              importance,
+            })
+          : await startJob({
+              type: "train",
+              features,
+              labels,
+              parameters,
+              scaling,
+              imputation: featureImputations,
+              imbalance,
+              settings: evaluationSettings,
+              importance,
+            });
 
-      const uniqueLabels = Array.from(new Set(labels));
-      if (uniqueLabels.length < 2) {
-        throw new Error("At least two unique labels are required.");
+      if (settingsRef.current !== settings) {
+        setStatus("Settings changed during training; result discarded");
+        return;
       }
 
-      const dimension = features[0]?.length ?? 0;
-      if (dimension === 0) {
-        throw new Error("Select at least one feature column.");
+      setPipeline(deserializePipeline(result.pipeline));
+      setEncoder(prepared.encoder);
+      setEvaluation(result.evaluation);
+      setExperiments((previous) => [
+        createExperiment(
+          {
+            fingerprint,
+            rows: features.length,
+            labelColumn,
+            featureColumns,
+            settings,
+            durationMs: performance.now() - startedAt,
+          },
+          result.evaluation,
+        ),
+        ...previous,
+      ]);
+      setStatus("Model trained");
+      setPrediction("");
+      setTrainingError(null);
+    } catch (error) {
+      if (error instanceof JobCancelledError) {
+        setStatus("Training cancelled");
+        return;
       }
+      setStatus("Training failed");
+      setTrainingError(
+        error instanceof Error ? error.message : "Training failed unexpectedly.",
+      );
+      setPipeline(null);
+      setEvaluation(null);
+    }
+  };
 
-      const kernelType = KERNEL_MAP[kernel];
-      const kernelOptions = resolveKernelOptions(kernel, gamma, dimension);
+  const runSearch = async (space: SearchSpace) => {
+    try {
+      const { features, labels } = computeFeaturesAndLabels();
+      const total = generateCandidates(space).length;
 
-      const trainedModels: TrainedModel[] = [];
-      setStatus("Training…");
+      setStatus("Searching…");
+      setSearchRun({ space, total, results: [] });
 
-      await new Promise<void>((resolve) => {
-        setTimeout(() => {
-          for (const targetLabel of uniqueLabels) {
-            const binaryLabels = labels.map((value) =>
-              value === targetLabel ? 1 : -1,
-            );
-            const svm = new SVM({
-              C: cost,
-              tol: 1e-4,
-              maxPasses: 10,
-              maxIterations: 10000,
-              kernel: kernelType,
-              ...(kernelOptions ? { kernelOptions } : {}),
-            });
-            svm.train(features, binaryLabels);
-            trainedModels.push({ label: targetLabel, svm });
-          }
-          resolve();
-        }, 0);
+      const { results } = await startJob({
+        type: "search",
+        features,
+        labels,
+        space,
+        scaling: scalingMethods,
+        imputation,
+        fixed: { multiclass, coef0, solver },
+        imbalance,
       });
 
-      const predictions = features.map((vector) => {
-        let bestLabel = "";
-        let bestScore = -Infinity;
-        for (const model of trainedModels) {
-          const margin = model.svm.marginOne(vector);
-          const score = Number.isFinite(margin)
-            ? margin
-            : model.svm.predictOne(vector);
-          if (score > bestScore) {
-            bestScore = score;
-            bestLabel = model.label;
-          }
-        }
-        return bestLabel;
+      setSearchRun({ space, total, results });
+      setStatus(completionStatus("Search complete", settings));
+      setTrainingError(null);
+    } catch (error) {
+      if (error instanceof JobCancelledError) {
+        setStatus("Search cancelled");
+        return;
+      }
+      setStatus("Search failed");
+      setTrainingError(
+        error instanceof Error ? error.message : "Search failed unexpectedly.",
+      );
+    }
+  };
+
+  const runSelection = async ({ folds, step, seed }: SelectionSettings) => {
+    try {
+      const fitted = fitFeatureEncoder(
+        parsedRows,
+        selectionCandidates,
+        encodingOptions,
+        declaredTypes,
+      );
+      const { features, labels } = encodeDataset(fitted, parsedRows, labelColumn);
+      const sources = featureSources(fitted);
+
+      setStatus("Ranking features…");
+      setSelectionRun(null);
+
+      const result = await startJob({
+        type: "select",
+        features,
+        labels,
+        groups: featureGroups(sources),
+        options: {
+          cost,
+          multiclass,
+          scaling: sources.map((column) => columnScaling[column] ?? scaling),
+          imputation: featureImputation(fitted),
+          imbalance,
+          folds,
+          step,
+          seed,
+        },
       });
 
-      const correct = predictions.reduce(
-        (count, value, index) => count + (value === labels[index] ? 1 : 0),
-        0,
+      setSelectionRun(result);
+      setStatus(completionStatus("Feature ranking complete", settings));
+      setTrainingError(null);
+    } catch (error) {
+      if (error instanceof JobCancelledError) {
+        setStatus("Feature ranking cancelled");
+        return;
+      }
+      setStatus("Feature ranking failed");
+      setTrainingError(
+        error instanceof Error ? error.message : "Feature ranking failed unexpectedly.",
       );
+    }
+  };
 
-      setModels(trainedModels);
-      setTrainingAccuracy(correct / predictions.length);
-      setStatus("Model trained");
+  const runCurve = async (curveSettings: CurveSettings) => {
+    try {
+      const { features, labels } = computeFeaturesAndLabels();
+
+      setStatus("Plotting curve…");
+      setCurveRun(null);
+
+      const result = await startJob({
+        type: "curve",
+        features,
+        labels,
+        parameters: settings.parameters,
+        scaling: scalingMethods,
+        imputation,
+        imbalance,
+        settings: curveSettings,
+      });
+
+      setCurveRun(result);
+      setStatus(completionStatus("Curve complete", settings));
+      setTrainingError(null);
+    } catch (error) {
+      if (error instanceof JobCancelledError) {
+        setStatus("Curve cancelled");
+        return;
+      }
+      setStatus("Curve failed");
+      setTrainingError(
+        error instanceof Error ? error.message : "Curve failed unexpectedly.",
+      );
+    }
+  };
+
+  const applyFeatureSelection = (selected: string[]) => {
+    const nextFeatures = columns.filter((column) => selected.includes(column));
+    setFeatureColumns(nextFeatures);
+    setPredictionInput((previous) =>
+      Object.fromEntries(
+        nextFeatures.map((column) => [column, previous[column] ?? ""]),
+      ),
+    );
+    setEvaluation(null);
+    discardPipeline();
+    setPrediction("");
+    setSearchRun(null);
+    setStatus(`Selected ${nextFeatures.length} feature columns`);
+  };
+
+  const runBatch = async (file: BatchFile, mapping: Record<string, string>) => {
+    if (!pipeline || !encoder) return;
+    try {
+      setStatus("Scoring batch…");
+      setBatchRun(null);
+
+      const result = await startJob({
+        type: "predict",
+        pipeline: serializePipeline(pipeline),
+        encoder,
+        rows: file.rows,
+        mapping,
+      });
+
+      setBatchRun({ file, result });
+      setStatus(completionStatus("Batch scored", settings));
+    } catch (error) {
+      if (error instanceof JobCancelledError) {
+        setStatus("Batch scoring cancelled");
+        return;
+      }
+      setStatus("Batch scoring failed");
+      setTrainingError(
+        error instanceof Error ? error.message : "Batch scoring failed.",
+      );
+    }
+  };
+
+  const applySearchResult = (result: SearchResult) => {
+    setKernel(result.kernel);
+    setCost(result.cost);
+    if (result.gamma !== null) {
+      setGamma(result.gamma);
+    }
+    if (result.degree !== null) {
+      setDegree(result.degree);
+    }
+    setEvaluation(null);
+    discardPipeline();
+    setPrediction("");
+    setStatus("Search configuration applied");
+  };
+
+  const applySettings = (settings: WorkspaceSettings) => {
+    setKernel(settings.parameters.kernel);
+    setCost(settings.parameters.cost);
+    setGamma(settings.parameters.gamma);
+    setDegree(settings.parameters.degree);
+    setMulticlass(settings.parameters.multiclass);
+    setCoef0(settings.parameters.coef0 ?? 1);
+    setSolver(settings.parameters.solver ?? DEFAULT_SOLVER);
+    setTaskSelection(settings.task);
+    setEpsilon(settings.epsilon);
+    setScaling(settings.scaling);
+    setColumnScaling(settings.columnScaling);
+    setEncodingOptions(settings.encoding);
+    setImbalance(settings.imbalance);
+    setEvaluationSettings(settings.evaluation);
+  };
+
+  const updateExperiment = (
+    id: string,
+    patch: Partial<Pick<ExperimentRun, "pinned" | "note">>,
+  ) => {
+    setExperiments((previous) =>
+      previous.map((run) => (run.id === id ? { ...run, ...patch } : run)),
+    );
+  };
+
+  const restoreExperiment = (run: ExperimentRun) => {
+    applySettings(run.settings);
+    // Column choices only carry over when the loaded file still has them.
+    const available = [run.labelColumn, ...run.featureColumns].every((column) =>
+      columns.includes(column),
+    );
+    if (available) {
+      setLabelColumn(run.labelColumn);
+      setFeatureColumns(run.featureColumns);
+      setPredictionInput(
+        Object.fromEntries(run.featureColumns.map((column) => [column, ""])),
+      );
+    }
+    setEvaluation(null);
+    discardPipeline();
+    setPrediction("");
+    setSearchRun(null);
+    setStatus(
+      available
+        ? "Run configuration restored"
+        : "Run settings restored; its columns are not in this dataset",
+    );
+  };
+
+  const updateEncodingOptions = (patch: Partial<EncodingOptions>) => {
+    setEncodingOptions((previous) => ({ ...previous, ...patch }));
+    setEvaluation(null);
+    discardPipeline();
+    setPrediction("");
+    setSearchRun(null);
+  };
+
+  const updateImbalance = (patch: Partial<ImbalanceSettings>) => {
+    setImbalance((previous) => ({ ...previous, ...patch }));
+    setEvaluation(null);
+    discardPipeline();
+    setPrediction("");
+    setSearchRun(null);
+  };
+
+  const updateEvaluationSettings = (patch: Partial<EvaluationSettings>) => {
+    setEvaluationSettings((previous) => ({ ...previous, ...patch }));
+    setEvaluation(null);
+    discardPipeline();
+    setPrediction("");
+  };
+
+  const handleExportModel = () => {
+    if (!pipeline || !encoder) return;
+    const bundle = createModelBundle({
+      pipeline,
+      encoder,
+      featureColumns,
+      labelColumn,
+      evaluation,
+    });
+    downloadFile(
+      `svm-model-${labelColumn || "label"}.json`,
+      JSON.stringify(bundle, null, 2),
+      "application/json",
+    );
+  };
+
+  const handleExportScoringCode = (language: ScoringLanguage) => {
+    if (!pipeline || !encoder) return;
+    try {
+      const source = generateScoringModule({
+        pipeline,
+        encoder,
+        featureColumns,
+        labelColumn,
+        evaluation,
+        samples: pickTestVectors(preparation?.dataset?.features ?? []),
+        language,
+      });
+      downloadFile(
+        `svm-model-${labelColumn || "label"}.${language === "typescript" ? "ts" : "js"}`,
+        source,
+        "text/plain",
+      );
+    } catch (error) {
+      setTrainingError(
+        error instanceof Error ? error.message : "Could not generate scoring code.",
+      );
+    }
+  };
+
+  const handleImportModel = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const bundle = parseModelBundle(await file.text(), columns);
+      const restored = restorePipeline(bundle);
+
+      activeJobRef.current?.cancel();
+      setKernel(bundle.parameters.kernel);
+      setCost(bundle.parameters.cost);
+      setGamma(bundle.parameters.gamma);
+      setDegree(bundle.parameters.degree);
+      setMulticlass(bundle.parameters.multiclass);
+      setCoef0(bundle.parameters.coef0 ?? 1);
+      setSolver(bundle.parameters.solver ?? DEFAULT_SOLVER);
+      setTaskSelection(bundle.task);
+      if (bundle.regressor) {
+        setEpsilon(bundle.regressor.epsilon);
+      }
+      if (!columns.length || columns.includes(bundle.labelColumn)) {
+        setLabelColumn(bundle.labelColumn);
+      }
+      setFeatureColumns(bundle.featureColumns);
+      if (bundle.version > 1) {
+        setColumnScaling(
+          Object.fromEntries(
+            featureSources(bundle.encoder).map((column, index) => [
+              column,
+              bundle.preprocessing[index].method,
+            ]),
+          ),
+        );
+      }
+      setPredictionInput(
+        Object.fromEntries(bundle.featureColumns.map((column) => [column, ""])),
+      );
+      setPipeline(restored);
+      setEncoder(bundle.encoder);
+      setEvaluation(bundle.evaluation);
       setPrediction("");
       setTrainingError(null);
+      setStatus("Model imported");
     } catch (error) {
-      setStatus("Training failed");
       setTrainingError(
-        error instanceof Error ? error.message : "Training failed unexpectedly.",
+        error instanceof Error ? error.message : "Model import failed.",
       );
-      setModels(null);
     }
   };
 
   const handlePredict = () => {
-    if (!models || !models.length || !featureColumns.length) {
+    setPredictionProbabilities(null);
+    setExplanation(null);
+    if (!pipeline || !encoder) {
       setPrediction("Train a model before predicting.");
       return;
     }
 
     try {
-      const vector = featureColumns.map((column) => {
-        const rawValue = predictionInput[column];
-        const parsed = parseFeatureValue(rawValue);
-        if (!Number.isFinite(parsed)) {
-          throw new Error(`Prediction input "${column}" must be numeric.`);
-        }
-        return parsed;
-      });
+      const vector = encodeRecord(encoder, predictionInput, "Prediction input");
+      if (!vector) {
+        const required = encoder.columns.find(
+          (column) => isRequired(column) && isMissing(predictionInput[column.column]),
+        );
+        throw new Error(`Prediction input "${required?.column}" is required.`);
+      }
 
-      let bestLabel = "";
-      let bestScore = -Infinity;
-      for (const model of models) {
-        const margin = model.svm.marginOne(vector);
-        const score = Number.isFinite(margin)
-          ? margin
-          : model.svm.predictOne(vector);
-        if (score > bestScore) {
-          bestScore = score;
-          bestLabel = model.label;
-        }
+      if (featureMeans?.length === vector.length) {
+        setExplanation({
+          outputs: pipeline.regressor ? ["value"] : modelClasses(pipeline.models),
+          contributions: explainPrediction(
+            vector,
+            featureMeans,
+            featureGroups(featureSources(encoder)),
+            (input) =>
+              pipeline.regressor
+                ? [predictValue(pipeline, input)]
+                : scorePipeline(pipeline, input).scores,
+          ),
+        });
+      }
+
+      if (pipeline.regressor) {
+        setPrediction(numberFormatter.format(predictValue(pipeline, vector)));
+        setExplainedOutput("value");
+        return;
       }
 
-      setPrediction(bestLabel);
+      const { label, margins } = scorePipeline(pipeline, vector);
+      setPrediction(label);
+      setExplainedOutput(label);
+      setPredictionProbabilities(
+        classProbabilities(pipeline.models, marginsByModel(pipeline.models, margins)),
+      );
     } catch (error) {
       setPrediction(
         error instanceof Error ? error.message : "Prediction failed.",
@@ -308,6 +1170,187 @@ export default function Home() {
     }
   };
 
+  const snapshot = useMemo<WorkspaceSnapshot>(
+    () => ({
+      rows: parsedRows,
+      columns,
+      declaredTypes,
+      labelColumn,
+      featureColumns,
+      settings,
+      // Bundles refuse Gram-matrix models, and this runs during render.
+      model:
+        pipeline && encoder && pipeline.parameters.kernel !== "PRECOMPUTED"
+          ? createModelBundle({
+              pipeline,
+              encoder,
+              featureColumns,
+              labelColumn,
+              evaluation,
+            })
+          : null,
+      experiments,
+    }),
+    [
+      parsedRows,
+      columns,
+      declaredTypes,
+      labelColumn,
+      featureColumns,
+      settings,
+      pipeline,
+      encoder,
+      evaluation,
+      experiments,
+    ],
+  );
+
+  const applySnapshot = (summary: WorkspaceSummary, saved: WorkspaceSnapshot) => {
+    // Round-trip through the bundle parser so older saved models are upgraded.
+    const bundle = saved.model
+      ? parseModelBundle(JSON.stringify(saved.model))
+      : null;
+
+    activeJobRef.current?.cancel();
+    setSourceRows(saved.rows);
+    setParsedRows(saved.rows);
+    setParseErrors([]);
+    setColumns(saved.columns);
+    setDeclaredTypes(saved.declaredTypes ?? {});
+    setGram(null);
+    setLabelColumn(saved.labelColumn);
+    setFeatureColumns(saved.featureColumns);
+    setPredictionInput(
+      Object.fromEntries(saved.featureColumns.map((column) => [column, ""])),
+    );
+    applySettings(saved.settings);
+    setPipeline(bundle ? restorePipeline(bundle) : null);
+    setEncoder(bundle?.encoder ?? null);
+    setEvaluation(bundle?.evaluation ?? null);
+    setExperiments(saved.experiments ?? []);
+    setSearchRun(null);
+    setSelectionRun(null);
+    setCurveRun(null);
+    setBatchRun(null);
+    setPrediction("");
+    setPredictionProbabilities(null);
+    setTrainingError(null);
+    setWorkspace(summary);
+    setWorkspaceError(null);
+    setLastWorkspaceId(summary.id);
+    setStatus(`Workspace "${summary.name}" opened`);
+  };
+
+  const refreshWorkspaces = async () => {
+    setWorkspaces(await listWorkspaces());
+  };
+
+  const runWorkspaceAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setWorkspaceError(null);
+    } catch (error) {
+      setWorkspaceError(
+        error instanceof Error ? error.message : "Workspace storage failed.",
+      );
+    }
+  };
+
+  const handleOpenWorkspace = (id: string | null) =>
+    runWorkspaceAction(async () => {
+      if (!id) {
+        setWorkspace(null);
+        setLastWorkspaceId(null);
+        return;
+      }
+      const { summary, snapshot: saved } = await loadWorkspace(id);
+      applySnapshot(summary, saved);
+    });
+
+  const handleCreateWorkspace = (name: string) =>
+    runWorkspaceAction(async () => {
+      const summary = await createWorkspace(name, snapshot);
+      setWorkspace(summary);
+      setLastWorkspaceId(summary.id);
+      await refreshWorkspaces();
+    });
+
+  const handleRenameWorkspace = (name: string) =>
+    runWorkspaceAction(async () => {
+      if (!workspace) return;
+      setWorkspace(await renameWorkspace(workspace.id, name));
+      await refreshWorkspaces();
+    });
+
+  const handleDuplicateWorkspace = () =>
+    runWorkspaceAction(async () => {
+      if (!workspace) return;
+      const summary = await duplicateWorkspace(
+        workspace.id,
+        `${workspace.name} (copy)`,
+      );
+      setWorkspace(summary);
+      setLastWorkspaceId(summary.id);
+      await refreshWorkspaces();
+    });
+
+  const handleDeleteWorkspace = () =>
+    runWorkspaceAction(async () => {
+      if (!workspace) return;
+      await deleteWorkspace(workspace.id);
+      setWorkspace(null);
+      setLastWorkspaceId(null);
+      await refreshWorkspaces();
+    });
+
+  const restoreLastWorkspace = useEffectEvent(() =>
+    runWorkspaceAction(async () => {
+      const list = await listWorkspaces();
+      setWorkspaces(list);
+      const lastId = getLastWorkspaceId();
+      if (lastId && list.some((item) => item.id === lastId)) {
+        const { summary, snapshot: saved } = await loadWorkspace(lastId);
+        applySnapshot(summary, saved);
+      }
+    }),
+  );
+
+  useEffect(() => {
+    restoreLastWorkspace();
+  }, []);
+
+  // Autosave the open workspace once edits settle.
+  const workspaceId = workspace?.id ?? null;
+  useEffect(() => {
+    if (!workspaceId) return;
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      setWorkspaceStatus("Saving…");
+      saveWorkspace(workspaceId, snapshot)
+        .then((summary) => {
+          if (cancelled) return;
+          setWorkspace(summary);
+          setWorkspaces((previous) => [
+            summary,
+            ...previous.filter((item) => item.id !== summary.id),
+          ]);
+          setWorkspaceStatus("All changes saved");
+          setWorkspaceError(null);
+        })
+        .catch((error: unknown) => {
+          if (cancelled) return;
+          setWorkspaceStatus("");
+          setWorkspaceError(
+            error instanceof Error ? error.message : "Autosave failed.",
+          );
+        });
+    }, AUTOSAVE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [workspaceId, snapshot]);
+
   return (
     <main className="min-h-screen bg-slate-950">
       <div className="mx-auto flex w-full max-w-5xl flex-col gap-10 px-6 py-14">
@@ -328,39 +1371,235 @@ export default function Home() {
                 Rows: {datasetSummary.rows} — Columns: {datasetSummary.columns}
               </span>
             )}
-            {trainingAccuracy !== null && (
+            {classifierEvaluation && (
+              <span className="rounded-full border border-emerald-700/80 bg-emerald-500/10 px-3 py-1 uppercase tracking-[0.12em] text-emerald-300">
+                {EVALUATION_LABELS[classifierEvaluation.mode]}:{" "}
+                {numberFormatter.format(classifierEvaluation.meanAccuracy * 100)}%
+                {classifierEvaluation.mode === "KFOLD" &&
+                  ` ± ${numberFormatter.format(classifierEvaluation.stdAccuracy * 100)}%`}
+              </span>
+            )}
+            {regressionEvaluation && (
               <span className="rounded-full border border-emerald-700/80 bg-emerald-500/10 px-3 py-1 uppercase tracking-[0.12em] text-emerald-300">
-                Training Accuracy: {numberFormatter.format(trainingAccuracy * 100)}%
+                {REGRESSION_LABELS[regressionEvaluation.mode]}:{" "}
+                {numberFormatter.format(regressionEvaluation.r2)} — RMSE:{" "}
+                {numberFormatter.format(regressionEvaluation.rmse)}
               </span>
             )}
           </div>
+          <WorkspaceSwitcher
+            workspaces={workspaces}
+            current={workspace}
+            status={workspaceStatus}
+            error={workspaceError}
+            onOpen={handleOpenWorkspace}
+            onCreate={handleCreateWorkspace}
+            onRename={handleRenameWorkspace}
+            onDuplicate={handleDuplicateWorkspace}
+            onDelete={handleDeleteWorkspace}
+          />
         </section>
 
         <section className="grid gap-6 md:grid-cols-[1fr_minmax(0,380px)]">
           <article className="rounded-3xl border border-slate-800 bg-slate-900/80 p-6">
             <h2 className="text-lg font-semibold text-white">1. Load Dataset</h2>
             <p className="mt-2 text-sm text-slate-300">
-              Provide a CSV file with column headers. The last column becomes the label
-              by default, and all preceding columns are treated as features.
+              Provide a CSV, TSV, JSON, NDJSON or ARFF file with named columns. The
+              last column becomes the label by default, and all preceding columns are
+              treated as features. Large files are parsed in chunks, and rows that do
+              not match the header are skipped and reported.
             </p>
             <div className="mt-5 flex flex-col gap-3">
+              <div className="grid gap-3 sm:grid-cols-3">
+                <label className="block text-sm text-slate-300">
+                  <span className="font-medium text-slate-200">Format</span>
+                  <select
+                    value={importFormat}
+                    onChange={(event) =>
+                      setImportFormat(event.target.value as DatasetFormat)
+                    }
+                    className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                  >
+                    {(Object.keys(FORMAT_LABELS) as DatasetFormat[]).map((format) => (
+                      <option key={format} value={format}>
+                        {FORMAT_LABELS[format]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block text-sm text-slate-300">
+                  <span className="font-medium text-slate-200">Delimiter</span>
+                  <select
+                    value={parseSettings.delimiter}
+                    onChange={(event) =>
+                      setParseSettings((previous) => ({
+                        ...previous,
+                        delimiter: event.target.value,
+                      }))
+                    }
+                    className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                  >
+                    {Object.entries(DELIMITER_LABELS).map(([delimiter, label]) => (
+                      <option key={label} value={delimiter}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block text-sm text-slate-300">
+                  <span className="font-medium text-slate-200">File encoding</span>
+                  <select
+                    value={parseSettings.encoding}
+                    onChange={(event) =>
+                      setParseSettings((previous) => ({
+                        ...previous,
+                        encoding: event.target.value,
+                      }))
+                    }
+                    className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                  >
+                    {Object.entries(ENCODING_LABELS).map(([encoding, label]) => (
+                      <option key={encoding} value={encoding}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
               <label className="flex flex-col gap-2 text-sm text-slate-200">
-                <span className="font-medium">Upload CSV</span>
+                <span className="font-medium">Upload file</span>
                 <input
                   type="file"
-                  accept=".csv,text/csv"
+                  accept={ACCEPTED_EXTENSIONS}
                   onChange={handleFileUpload}
+                  disabled={loadProgress !== null}
                   className="block w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 file:mr-4 file:rounded-lg file:border-0 file:bg-indigo-500 file:px-4 file:py-2 file:text-indigo-50 hover:file:bg-indigo-400 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
                 />
               </label>
+              <label className="flex flex-col gap-2 text-sm text-slate-200">
+                <span className="font-medium">Or paste a table</span>
+                <textarea
+                  value={pastedTable}
+                  onChange={(event) => setPastedTable(event.target.value)}
+                  rows={4}
+                  placeholder="Copy cells from a spreadsheet, or paste CSV, JSON or ARFF text"
+                  className="w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 font-mono text-xs text-slate-100 placeholder:text-slate-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                />
+              </label>
               <button
-                onClick={() => handleCSVContent(SAMPLE_DATA)}
-                className="inline-flex w-fit items-center justify-center rounded-xl bg-indigo-500 px-4 py-2 text-sm font-medium text-indigo-50 transition hover:bg-indigo-400 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-300"
+                onClick={() => void loadDataset(pastedTable)}
+                disabled={!pastedTable.trim() || loadProgress !== null}
+                className="inline-flex w-fit items-center justify-center rounded-xl bg-indigo-500 px-4 py-2 text-sm font-medium text-indigo-50 transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-300"
               >
-                Load Iris Sample
+                Load Pasted Table
               </button>
+              <DatasetGallery
+                disabled={loadProgress !== null}
+                onLoad={(dataset) =>
+                  void loadDataset(dataset.csv, DEFAULT_PARSE_SETTINGS, "CSV")
+                }
+              />
+              {loadProgress !== null && (
+                <div>
+                  <div className="h-2 overflow-hidden rounded-full bg-slate-800">
+                    <div
+                      className="h-full rounded-full bg-indigo-400 transition-all"
+                      style={{ width: `${Math.round(loadProgress * 100)}%` }}
+                    />
+                  </div>
+                  <p className="mt-1 text-xs text-slate-400">
+                    Parsing… {Math.round(loadProgress * 100)}%
+                  </p>
+                </div>
+              )}
             </div>
 
+            {parseErrors.length > 0 && (
+              <div className="mt-4 flex flex-wrap items-center justify-between gap-3 rounded-xl border border-amber-500/60 bg-amber-500/10 px-4 py-3 text-sm text-amber-100">
+                <span>
+                  Skipped {parseErrors.length} malformed{" "}
+                  {parseErrors.length === 1 ? "row" : "rows"}, first at row{" "}
+                  {parseErrors[0].row}: {parseErrors[0].message}
+                </span>
+                <button
+                  onClick={() =>
+                    downloadFile(
+                      "parse-errors.csv",
+                      errorReportCsv(parseErrors),
+                      "text/csv",
+                    )
+                  }
+                  className="rounded-lg border border-amber-400/60 px-3 py-1 text-xs font-medium text-amber-100 transition hover:bg-amber-500/20"
+                >
+                  Download error report
+                </button>
+              </div>
+            )}
+
+            {sourceRows.length > 0 && labelColumn && (
+              <div className="mt-6">
+                <h3 className="text-sm font-semibold uppercase tracking-[0.24em] text-slate-400">
+                  Row Sampling
+                </h3>
+                <p className="mt-2 text-xs text-slate-400">
+                  Using {parsedRows.length} of {sourceRows.length} rows. A
+                  stratified sample keeps each {labelColumn} value&apos;s share.
+                  {sourceRows.length > LARGE_DATASET_ROWS &&
+                    parsedRows.length === sourceRows.length &&
+                    " Training time grows quickly with row count, so sampling is recommended for a dataset this size."}
+                </p>
+                <div className="mt-3 flex flex-wrap items-end gap-3">
+                  <label className="block w-28 text-sm text-slate-300">
+                    <span className="font-medium text-slate-200">Rows</span>
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={sampling.size}
+                      onChange={(event) => {
+                        const size = Math.floor(Number(event.target.value));
+                        if (Number.isFinite(size) && size >= 1) {
+                          setSampling((previous) => ({ ...previous, size }));
+                        }
+                      }}
+                      className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                    />
+                  </label>
+                  <label className="block w-24 text-sm text-slate-300">
+                    <span className="font-medium text-slate-200">Seed</span>
+                    <input
+                      type="number"
+                      step="1"
+                      value={sampling.seed}
+                      onChange={(event) => {
+                        const seed = Math.floor(Number(event.target.value));
+                        if (Number.isFinite(seed)) {
+                          setSampling((previous) => ({ ...previous, seed }));
+                        }
+                      }}
+                      className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                    />
+                  </label>
+                  <button
+                    onClick={() => applySample(sampling.size)}
+                    disabled={activeJob !== null}
+                    className="rounded-xl bg-indigo-500 px-4 py-2 text-sm font-medium text-indigo-50 transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400"
+                  >
+                    Sample rows
+                  </button>
+                  {parsedRows.length < sourceRows.length && (
+                    <button
+                      onClick={() => applySample(null)}
+                      disabled={activeJob !== null}
+                      className="rounded-xl border border-slate-700 px-4 py-2 text-sm text-slate-200 transition hover:border-slate-500 disabled:cursor-not-allowed disabled:text-slate-500"
+                    >
+                      Use all rows
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
             {columns.length > 0 && (
               <div className="mt-8 space-y-6">
                 <div>
@@ -372,6 +1611,9 @@ export default function Home() {
                     onChange={(event) => {
                       const nextLabel = event.target.value;
                       setLabelColumn(nextLabel);
+                      setSearchRun(null);
+                      setSelectionRun(null);
+                      setCurveRun(null);
                       const nextFeatures = columns.filter(
                         (column) => column !== nextLabel,
                       );
@@ -381,8 +1623,8 @@ export default function Home() {
                           nextFeatures.map((column) => [column, ""]),
                         ),
                       );
-                      setTrainingAccuracy(null);
-                      setModels(null);
+                      setEvaluation(null);
+                      discardPipeline();
                       setPrediction("");
                     }}
                     className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
@@ -414,7 +1656,19 @@ export default function Home() {
                                 : "border-slate-700 bg-slate-800/60 text-slate-200 hover:border-indigo-400/60 hover:text-indigo-100"
                             }`}
                           >
-                            <span>{column}</span>
+                            <span className="flex flex-col">
+                              <span>{column}</span>
+                              <span className="text-[10px] uppercase tracking-[0.2em] text-slate-500">
+                                {columnTypes[column]}
+                                {profiles
+                                  .find((profile) => profile.column === column)
+                                  ?.flags.map((flag) => ` · ${flag}`)}
+                                {selected &&
+                                  preparation?.dataset &&
+                                  preparation.dataset.imputed[column] > 0 &&
+                                  ` · ${preparation.dataset.imputed[column]} imputed`}
+                              </span>
+                            </span>
                             <span
                               className={`rounded-full px-2 py-0.5 text-[10px] uppercase tracking-[0.2em] ${
                                 selected
@@ -429,6 +1683,86 @@ export default function Home() {
                       })}
                   </div>
                 </div>
+
+                <div>
+                  <h3 className="text-sm font-semibold uppercase tracking-[0.24em] text-slate-400">
+                    Data Preparation
+                  </h3>
+                  <div className="mt-3 grid gap-3 sm:grid-cols-2">
+                    <label className="block text-sm text-slate-300">
+                      <span className="font-medium text-slate-200">
+                        Categorical encoding
+                      </span>
+                      <select
+                        value={encodingOptions.encoding}
+                        onChange={(event) =>
+                          updateEncodingOptions({
+                            encoding: event.target.value as CategoricalEncoding,
+                          })
+                        }
+                        className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                      >
+                        <option value="ONE_HOT">One-hot</option>
+                        <option value="ORDINAL">Ordinal</option>
+                      </select>
+                    </label>
+                    <label className="block text-sm text-slate-300">
+                      <span className="font-medium text-slate-200">
+                        Missing values
+                      </span>
+                      <select
+                        value={encodingOptions.missing}
+                        onChange={(event) =>
+                          updateEncodingOptions({
+                            missing: event.target.value as MissingStrategy,
+                          })
+                        }
+                        className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                      >
+                        {(Object.keys(MISSING_LABELS) as MissingStrategy[]).map(
+                          (strategy) => (
+                            <option key={strategy} value={strategy}>
+                              {MISSING_LABELS[strategy]}
+                            </option>
+                          ),
+                        )}
+                      </select>
+                    </label>
+                    {encodingOptions.missing === "CONSTANT" && (
+                      <label className="block text-sm text-slate-300">
+                        <span className="font-medium text-slate-200">
+                          Constant
+                        </span>
+                        <input
+                          value={encodingOptions.constant}
+                          onChange={(event) =>
+                            updateEncodingOptions({ constant: event.target.value })
+                          }
+                          className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                        />
+                      </label>
+                    )}
+                  </div>
+                  {preparation?.error && (
+                    <p className="mt-3 text-xs text-rose-300">{preparation.error}</p>
+                  )}
+                  {preparation?.dataset && (
+                    <p className="mt-3 text-xs text-slate-400">
+                      {preparation.dataset.features.length} rows ready ·{" "}
+                      {preparation.encoder.featureNames.length} encoded features
+                      {preparation.dataset.dropped > 0 &&
+                        ` · ${preparation.dataset.dropped} rows dropped for missing values`}
+                    </p>
+                  )}
+                </div>
+
+                {task === "CLASSIFICATION" && preparation?.dataset && (
+                  <ClassBalanceControls
+                    labels={preparation.dataset.labels}
+                    settings={imbalance}
+                    onChange={updateImbalance}
+                  />
+                )}
               </div>
             )}
           </article>
@@ -438,25 +1772,120 @@ export default function Home() {
               2. Configure & Train
             </h2>
             <div className="mt-5 space-y-4">
+              <label className="block text-sm text-slate-300">
+                <span className="font-medium text-slate-200">Task</span>
+                <select
+                  value={taskSelection}
+                  onChange={(event) => {
+                    setTaskSelection(event.target.value as TaskSelection);
+                    setEvaluation(null);
+                    discardPipeline();
+                    setPrediction("");
+                    setSearchRun(null);
+                  }}
+                  className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                >
+                  {(Object.keys(TASK_LABELS) as TaskSelection[]).map((option) => (
+                    <option key={option} value={option}>
+                      {option === "AUTO"
+                        ? `${TASK_LABELS.AUTO} (${TASK_LABELS[detectedTask].toLowerCase()})`
+                        : TASK_LABELS[option]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
               <label className="block text-sm text-slate-300">
                 <span className="font-medium text-slate-200">Kernel</span>
                 <select
                   value={kernel}
                   onChange={(event) => {
                     setKernel(event.target.value as KernelKey);
-                    setTrainingAccuracy(null);
-                    setModels(null);
+                    setEvaluation(null);
+                    discardPipeline();
                     setPrediction("");
                   }}
                   className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
                 >
-                  <option value="LINEAR">Linear</option>
-                  <option value="POLY">Polynomial</option>
-                  <option value="RBF">Radial Basis (RBF)</option>
-                  <option value="SIGMOID">Sigmoid</option>
+                  {(Object.keys(KERNELS) as KernelKey[]).map((option) => (
+                    <option key={option} value={option}>
+                      {KERNELS[option].label}
+                    </option>
+                  ))}
                 </select>
               </label>
 
+              {kernel === "PRECOMPUTED" && (
+                <div className="space-y-2 rounded-xl border border-slate-800 bg-slate-950/40 px-3 py-2 text-xs text-slate-300">
+                  <label className="inline-flex cursor-pointer items-center justify-center rounded-lg border border-slate-700 px-3 py-1.5 font-medium text-slate-200 transition hover:border-indigo-400 hover:text-indigo-100">
+                    Upload Gram matrix (.csv)
+                    <input
+                      type="file"
+                      accept=".csv,text/csv"
+                      onChange={handleGramUpload}
+                      disabled={!parsedRows.length}
+                      className="sr-only"
+                    />
+                  </label>
+                  <p className="text-slate-400">
+                    {gram
+                      ? `${gram.fileName}: ${gram.matrix.length} × ${gram.matrix.length} kernel values.`
+                      : `A square, symmetric matrix of kernel values with one row and column per dataset row (${parsedRows.length}), in dataset order.`}
+                  </p>
+                  <p className="text-slate-500">
+                    Feature columns and scaling are ignored. The model is evaluated on the
+                    matrix only; predicting new rows and exporting need a feature kernel.
+                  </p>
+                </div>
+              )}
+
+              {task === "REGRESSION" ? (
+                <label className="block text-sm text-slate-300">
+                  <span className="font-medium text-slate-200">
+                    Epsilon (tube width, in target standard deviations)
+                  </span>
+                  <input
+                    type="number"
+                    step="0.05"
+                    min="0"
+                    value={epsilon}
+                    onChange={(event) => {
+                      const value = Number(event.target.value);
+                      setEpsilon(Number.isFinite(value) && value >= 0 ? value : 0.1);
+                      setEvaluation(null);
+                      discardPipeline();
+                      setPrediction("");
+                    }}
+                    className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                  />
+                </label>
+              ) : (
+                <label className="block text-sm text-slate-300">
+                  <span className="font-medium text-slate-200">
+                    Multi-class strategy
+                  </span>
+                  <select
+                    value={multiclass}
+                    onChange={(event) => {
+                      setMulticlass(event.target.value as MulticlassStrategy);
+                      setEvaluation(null);
+                      discardPipeline();
+                      setPrediction("");
+                      setSearchRun(null);
+                    }}
+                    className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                  >
+                    {(Object.keys(MULTICLASS_LABELS) as MulticlassStrategy[]).map(
+                      (strategy) => (
+                        <option key={strategy} value={strategy}>
+                          {MULTICLASS_LABELS[strategy]}
+                        </option>
+                      ),
+                    )}
+                  </select>
+                </label>
+              )}
+
               <label className="block text-sm text-slate-300">
                 <span className="font-medium text-slate-200">Cost (C)</span>
                 <input
@@ -467,55 +1896,420 @@ export default function Home() {
                   onChange={(event) => {
                     const value = Number(event.target.value);
                     setCost(Number.isFinite(value) && value > 0 ? value : 1);
-                    setTrainingAccuracy(null);
-                    setModels(null);
+                    setEvaluation(null);
+                    discardPipeline();
                     setPrediction("");
                   }}
                   className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
                 />
               </label>
 
+              {KERNELS[kernel].gamma && (
+                <label className="block text-sm text-slate-300">
+                  <span className="font-medium text-slate-200">
+                    Gamma ({KERNELS[kernel].gamma?.role})
+                  </span>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={gamma ?? ""}
+                    onChange={(event) => {
+                      const raw = event.target.value;
+                      if (!raw.length) {
+                        setGamma(null);
+                        setEvaluation(null);
+                        discardPipeline();
+                        setPrediction("");
+                        return;
+                      }
+                      const value = Number(raw);
+                      setGamma(Number.isFinite(value) && value > 0 ? value : null);
+                      setEvaluation(null);
+                      discardPipeline();
+                      setPrediction("");
+                    }}
+                    placeholder={`Auto (${KERNELS[kernel].gamma?.auto})`}
+                    className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                  />
+                </label>
+              )}
+
+              {KERNELS[kernel].degree && (
+                <label className="block text-sm text-slate-300">
+                  <span className="font-medium text-slate-200">Degree</span>
+                  <input
+                    type="number"
+                    step="1"
+                    min="1"
+                    value={degree}
+                    onChange={(event) => {
+                      const value = Math.floor(Number(event.target.value));
+                      setDegree(Number.isFinite(value) && value >= 1 ? value : 3);
+                      setEvaluation(null);
+                      discardPipeline();
+                      setPrediction("");
+                    }}
+                    className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                  />
+                </label>
+              )}
+
+              {KERNELS[kernel].coef0 && (
+                <label className="block text-sm text-slate-300">
+                  <span className="font-medium text-slate-200">
+                    coef0 (constant term)
+                  </span>
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={coef0}
+                    onChange={(event) => {
+                      const value = Number(event.target.value);
+                      setCoef0(Number.isFinite(value) ? value : 1);
+                      setEvaluation(null);
+                      discardPipeline();
+                      setPrediction("");
+                    }}
+                    className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                  />
+                </label>
+              )}
+
+              {task === "CLASSIFICATION" && (
+                <details className="rounded-xl border border-slate-800 bg-slate-950/40 px-3 py-2 text-xs text-slate-300">
+                  <summary className="cursor-pointer text-slate-400">
+                    Solver (SMO) stopping criteria
+                  </summary>
+                  <div className="mt-2 grid gap-2 sm:grid-cols-3">
+                    <label className="block">
+                      Tolerance
+                      <input
+                        type="number"
+                        step="0.0001"
+                        min="0"
+                        value={solver.tol}
+                        onChange={(event) => {
+                          const value = Number(event.target.value);
+                          updateSolver({
+                            tol: Number.isFinite(value) && value > 0 ? value : DEFAULT_SOLVER.tol,
+                          });
+                        }}
+                        className="mt-1 w-full rounded-lg border border-slate-700 bg-slate-800/60 px-2 py-1 text-xs text-slate-100"
+                      />
+                    </label>
+                    <label className="block">
+                      Max passes
+                      <input
+                        type="number"
+                        step="1"
+                        min="1"
+                        value={solver.maxPasses}
+                        onChange={(event) => {
+                          const value = Math.floor(Number(event.target.value));
+                          updateSolver({
+                            maxPasses:
+                              Number.isFinite(value) && value >= 1
+                                ? value
+                                : DEFAULT_SOLVER.maxPasses,
+                          });
+                        }}
+                        className="mt-1 w-full rounded-lg border border-slate-700 bg-slate-800/60 px-2 py-1 text-xs text-slate-100"
+                      />
+                    </label>
+                    <label className="block">
+                      Max iterations
+                      <input
+                        type="number"
+                        step="1000"
+                        min="1"
+                        value={solver.maxIterations}
+                        onChange={(event) => {
+                          const value = Math.floor(Number(event.target.value));
+                          updateSolver({
+                            maxIterations:
+                              Number.isFinite(value) && value >= 1
+                                ? value
+                                : DEFAULT_SOLVER.maxIterations,
+                          });
+                        }}
+                        className="mt-1 w-full rounded-lg border border-slate-700 bg-slate-800/60 px-2 py-1 text-xs text-slate-100"
+                      />
+                    </label>
+                  </div>
+                  <p className="mt-2 text-slate-500">
+                    SMO stops after max passes without an update or at max iterations,
+                    whichever comes first. A model that hits max iterations is refitted
+                    with a looser tolerance under the same limit and flagged as not
+                    converged.
+                  </p>
+                </details>
+              )}
+
               <label className="block text-sm text-slate-300">
-                <span className="font-medium text-slate-200">
-                  Gamma (auto if blank)
-                </span>
-                <input
-                  type="number"
-                  step="0.01"
-                  value={gamma ?? ""}
+                <span className="font-medium text-slate-200">Feature scaling</span>
+                <select
+                  value={scaling}
                   onChange={(event) => {
-                    const raw = event.target.value;
-                    if (!raw.length) {
-                      setGamma(null);
-                      setTrainingAccuracy(null);
-                      setModels(null);
-                      setPrediction("");
-                      return;
-                    }
-                    const value = Number(raw);
-                    setGamma(Number.isFinite(value) && value > 0 ? value : null);
-                    setTrainingAccuracy(null);
-                    setModels(null);
+                    setScaling(event.target.value as ScalingMethod);
+                    setEvaluation(null);
+                    discardPipeline();
                     setPrediction("");
                   }}
-                  placeholder="Auto"
                   className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
-                />
+                >
+                  {(Object.keys(SCALING_LABELS) as ScalingMethod[]).map(
+                    (method) => (
+                      <option key={method} value={method}>
+                        {SCALING_LABELS[method]}
+                      </option>
+                    ),
+                  )}
+                </select>
               </label>
 
-              <button
-                onClick={trainModel}
-                disabled={!featureColumns.length || !labelColumn}
-                className="mt-4 inline-flex w-full items-center justify-center rounded-xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-emerald-50 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-300"
-              >
-                Train SVM Model
-              </button>
+              {featureColumns.length > 0 && (
+                <details className="rounded-xl border border-slate-800 bg-slate-950/40 px-3 py-2 text-xs text-slate-300">
+                  <summary className="cursor-pointer text-slate-400">
+                    Per-column scaling overrides
+                  </summary>
+                  <div className="mt-2 space-y-2">
+                    {featureColumns.map((column) => (
+                      <label
+                        key={column}
+                        className="flex items-center justify-between gap-3"
+                      >
+                        <span className="truncate">{column}</span>
+                        <select
+                          value={columnScaling[column] ?? ""}
+                          onChange={(event) => {
+                            const value = event.target.value;
+                            setColumnScaling((previous) => {
+                              const next = { ...previous };
+                              if (value) {
+                                next[column] = value as ScalingMethod;
+                              } else {
+                                delete next[column];
+                              }
+                              return next;
+                            });
+                            setEvaluation(null);
+                            discardPipeline();
+                            setPrediction("");
+                          }}
+                          className="rounded-lg border border-slate-700 bg-slate-800/60 px-2 py-1 text-xs text-slate-100"
+                        >
+                          <option value="">Default</option>
+                          {(Object.keys(SCALING_LABELS) as ScalingMethod[]).map(
+                            (method) => (
+                              <option key={method} value={method}>
+                                {SCALING_LABELS[method]}
+                              </option>
+                            ),
+                          )}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                </details>
+              )}
+
+              <label className="block text-sm text-slate-300">
+                <span className="font-medium text-slate-200">Evaluation</span>
+                <select
+                  value={evaluationSettings.mode}
+                  onChange={(event) =>
+                    updateEvaluationSettings({
+                      mode: event.target.value as EvaluationMode,
+                    })
+                  }
+                  className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                >
+                  <option value="TRAINING">Training data (optimistic)</option>
+                  <option value="HOLDOUT">Stratified train/test split</option>
+                  <option value="KFOLD">Stratified k-fold CV</option>
+                </select>
+              </label>
+
+              <div className="grid grid-cols-2 gap-3">
+                {evaluationSettings.mode === "HOLDOUT" && (
+                  <label className="block text-sm text-slate-300">
+                    <span className="font-medium text-slate-200">Test size (%)</span>
+                    <input
+                      type="number"
+                      step="5"
+                      min="5"
+                      max="95"
+                      value={Math.round(evaluationSettings.testRatio * 100)}
+                      onChange={(event) => {
+                        const value = Number(event.target.value);
+                        updateEvaluationSettings({
+                          testRatio:
+                            Number.isFinite(value) && value > 0 && value < 100
+                              ? value / 100
+                              : 0.25,
+                        });
+                      }}
+                      className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                    />
+                  </label>
+                )}
+                {evaluationSettings.mode === "KFOLD" && (
+                  <label className="block text-sm text-slate-300">
+                    <span className="font-medium text-slate-200">Folds (k)</span>
+                    <input
+                      type="number"
+                      step="1"
+                      min="2"
+                      value={evaluationSettings.folds}
+                      onChange={(event) => {
+                        const value = Math.floor(Number(event.target.value));
+                        updateEvaluationSettings({
+                          folds: Number.isFinite(value) && value >= 2 ? value : 5,
+                        });
+                      }}
+                      className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                    />
+                  </label>
+                )}
+                <label className="block text-sm text-slate-300">
+                  <span className="font-medium text-slate-200">Seed</span>
+                  <input
+                    type="number"
+                    step="1"
+                    value={evaluationSettings.seed}
+                    onChange={(event) => {
+                      const value = Math.floor(Number(event.target.value));
+                      updateEvaluationSettings({
+                        seed: Number.isFinite(value) ? value : 42,
+                      });
+                    }}
+                    className="mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                  />
+                </label>
+              </div>
+
+              {activeJob === "train" || activeJob === "regress" ? (
+                <div className="mt-4 flex flex-col gap-2">
+                  <button
+                    onClick={cancelJob}
+                    className="inline-flex w-full items-center justify-center rounded-xl bg-rose-500 px-4 py-2 text-sm font-semibold text-rose-50 transition hover:bg-rose-400 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-rose-300"
+                  >
+                    Cancel Training
+                  </button>
+                  <p className="text-center text-xs text-slate-400">
+                    {jobProgress ? `Training ${jobProgress}` : "Starting worker…"}
+                  </p>
+                </div>
+              ) : (
+                <button
+                  onClick={trainModel}
+                  disabled={!featureColumns.length || !labelColumn || activeJob !== null}
+                  className="mt-4 inline-flex w-full items-center justify-center rounded-xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-emerald-50 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-300"
+                >
+                  {task === "REGRESSION" ? "Train SVR Model" : "Train SVM Model"}
+                </button>
+              )}
 
               {trainingError && (
                 <p className="rounded-xl border border-rose-500/60 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
                   {trainingError}
                 </p>
               )}
+
+              {solverWarning && (
+                <p className="rounded-xl border border-amber-500/60 bg-amber-500/10 px-4 py-3 text-sm text-amber-200">
+                  {solverWarning}
+                </p>
+              )}
+
+              {classifierEvaluation && classifierEvaluation.mode !== "TRAINING" && (
+                <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-3 text-xs text-slate-300">
+                  <table className="w-full text-left">
+                    <thead className="text-[10px] uppercase tracking-[0.2em] text-slate-500">
+                      <tr>
+                        <th className="py-1 font-medium">Fold</th>
+                        <th className="py-1 font-medium">Train</th>
+                        <th className="py-1 font-medium">Test</th>
+                        <th className="py-1 text-right font-medium">Accuracy</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {classifierEvaluation.folds.map((fold) => (
+                        <tr key={fold.fold} className="border-t border-slate-800/80">
+                          <td className="py-1">{fold.fold}</td>
+                          <td className="py-1">{fold.trainSize}</td>
+                          <td className="py-1">{fold.testSize}</td>
+                          <td className="py-1 text-right text-emerald-300">
+                            {numberFormatter.format(fold.accuracy * 100)}%
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {regressionEvaluation && regressionEvaluation.mode !== "TRAINING" && (
+                <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-3 text-xs text-slate-300">
+                  <table className="w-full text-left">
+                    <thead className="text-[10px] uppercase tracking-[0.2em] text-slate-500">
+                      <tr>
+                        <th className="py-1 font-medium">Fold</th>
+                        <th className="py-1 font-medium">Test</th>
+                        <th className="py-1 text-right font-medium">RMSE</th>
+                        <th className="py-1 text-right font-medium">R²</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {regressionEvaluation.folds.map((fold) => (
+                        <tr key={fold.fold} className="border-t border-slate-800/80">
+                          <td className="py-1">{fold.fold}</td>
+                          <td className="py-1">{fold.testSize}</td>
+                          <td className="py-1 text-right">
+                            {numberFormatter.format(fold.rmse)}
+                          </td>
+                          <td className="py-1 text-right text-emerald-300">
+                            {numberFormatter.format(fold.r2)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-center gap-3 border-t border-slate-800 pt-4">
+                <button
+                  onClick={handleExportModel}
+                  disabled={!pipeline || !encoder}
+                  className="inline-flex items-center justify-center rounded-xl border border-slate-700 px-3 py-2 text-xs font-medium text-slate-200 transition hover:border-indigo-400 hover:text-indigo-100 disabled:cursor-not-allowed disabled:text-slate-500 disabled:hover:border-slate-700"
+                >
+                  Export Model (.json)
+                </button>
+                <button
+                  onClick={() => handleExportScoringCode("typescript")}
+                  disabled={!pipeline || !encoder}
+                  className="inline-flex items-center justify-center rounded-xl border border-slate-700 px-3 py-2 text-xs font-medium text-slate-200 transition hover:border-indigo-400 hover:text-indigo-100 disabled:cursor-not-allowed disabled:text-slate-500 disabled:hover:border-slate-700"
+                >
+                  Export Code (.ts)
+                </button>
+                <button
+                  onClick={() => handleExportScoringCode("javascript")}
+                  disabled={!pipeline || !encoder}
+                  className="inline-flex items-center justify-center rounded-xl border border-slate-700 px-3 py-2 text-xs font-medium text-slate-200 transition hover:border-indigo-400 hover:text-indigo-100 disabled:cursor-not-allowed disabled:text-slate-500 disabled:hover:border-slate-700"
+                >
+                  Export Code (.js)
+                </button>
+                <label className="inline-flex cursor-pointer items-center justify-center rounded-xl border border-slate-700 px-3 py-2 text-xs font-medium text-slate-200 transition hover:border-indigo-400 hover:text-indigo-100">
+                  Import Model
+                  <input
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={handleImportModel}
+                    className="sr-only"
+                  />
+                </label>
+              </div>
             </div>
 
             <div className="mt-8 rounded-2xl border border-slate-800 bg-slate-900/80 p-4 text-sm text-slate-300">
@@ -524,54 +2318,225 @@ export default function Home() {
               </h3>
               <ul className="mt-3 space-y-2 text-xs leading-relaxed text-slate-400">
                 <li>
-                  All SVM training runs locally in your browser using pure JavaScript.
+                  All SVM training runs locally in your browser, in a background worker
+                  that can be cancelled without losing the current model.
+                </li>
+                <li>
+                  Text columns are one-hot or ordinal encoded and yes/no columns become
+                  0 / 1; blank, NA and ? cells are dropped or imputed as configured.
+                </li>
+                <li>
+                  Gamma defaults to 1 / number of features when left blank (RBF and
+                  Laplacian kernels); it scales the dot product for polynomial and
+                  sigmoid kernels.
+                </li>
+                <li>
+                  Scalers are fitted on the training rows only and reused for every
+                  prediction made with the model.
                 </li>
                 <li>
-                  Ensure the selected feature columns contain numeric values only.
+                  One-vs-one trains a classifier per pair of classes and predicts by
+                  majority vote, breaking ties with the summed margins.
                 </li>
                 <li>
-                  Gamma defaults to 1 / number of features when left blank (RBF kernel).
+                  Hold-out and k-fold runs calibrate class probabilities with Platt
+                  scaling on the out-of-sample margins.
+                </li>
+                <li>
+                  K-fold CV reports the mean ± standard deviation across folds, then
+                  refits the final model on every row.
+                </li>
+                <li>
+                  Workspaces are kept in this browser&apos;s IndexedDB; the last one
+                  opened is restored on reload.
+                </li>
+                <li>
+                  Class weights scale C per label; resampling only touches the
+                  training rows, so evaluation keeps the true class balance.
+                </li>
+                <li>
+                  Every training run is added to the experiment history, which is
+                  saved with the open workspace.
+                </li>
+                <li>
+                  Numeric labels with more than ten distinct values train an
+                  epsilon-SVR; errors inside the epsilon tube are not penalized.
                 </li>
               </ul>
             </div>
           </article>
         </section>
 
+        {profiles.length > 0 && (
+          <DatasetProfilePanel
+            profiles={profiles}
+            labelColumn={labelColumn}
+            correlation={correlation}
+          />
+        )}
+
+        {task === "CLASSIFICATION" && (
+          <HyperparameterSearchPanel
+            disabled={!featureColumns.length || !labelColumn || activeJob === "train"}
+            running={activeJob === "search"}
+            progress={activeJob === "search" ? jobProgress : ""}
+            onCancel={cancelJob}
+            run={searchRun}
+            onRun={runSearch}
+            onApply={applySearchResult}
+          />
+        )}
+
+        {task === "CLASSIFICATION" && kernel !== "PRECOMPUTED" && labelColumn && (
+          <FeatureSelectionPanel
+            candidates={selectionCandidates.length}
+            disabled={activeJob !== null}
+            running={activeJob === "select"}
+            progress={activeJob === "select" ? jobProgress : ""}
+            result={selectionRun}
+            onRun={runSelection}
+            onCancel={cancelJob}
+            onApply={applyFeatureSelection}
+          />
+        )}
+
+        {labelColumn && (
+          <DiagnosticsPanel
+            pipeline={pipeline}
+            parameters={settings.parameters}
+            curvesAvailable={task === "CLASSIFICATION" && kernel !== "PRECOMPUTED"}
+            disabled={!featureColumns.length || activeJob !== null}
+            running={activeJob === "curve"}
+            progress={activeJob === "curve" ? jobProgress : ""}
+            result={curveRun}
+            onRun={runCurve}
+            onCancel={cancelJob}
+          />
+        )}
+
+        {task === "CLASSIFICATION" &&
+          kernel !== "PRECOMPUTED" &&
+          preparation?.encoder &&
+          preparation.dataset &&
+          preparation.encoder.featureNames.length >= 2 && (
+            <DecisionBoundaryPanel
+              featureNames={preparation.encoder.featureNames}
+              features={preparation.dataset.features}
+              labels={preparation.dataset.labels}
+              parameters={settings.parameters}
+              scaling={scalingMethods}
+              imbalance={imbalance}
+              seed={evaluationSettings.seed}
+            />
+          )}
+
+        {classifierEvaluation && classificationReport && (
+          <ClassificationReportPanel
+            report={classificationReport}
+            sourceDescription={EVALUATION_SOURCES[classifierEvaluation.mode]}
+          />
+        )}
+
+        {classifierEvaluation && reliabilityDiagram && (
+          <ReliabilityDiagramPanel
+            diagram={reliabilityDiagram}
+            sourceDescription={EVALUATION_SOURCES[classifierEvaluation.mode]}
+          />
+        )}
+
+        {regressionEvaluation && (
+          <RegressionReportPanel
+            evaluation={regressionEvaluation}
+            sourceDescription={EVALUATION_SOURCES[regressionEvaluation.mode]}
+          />
+        )}
+
+        {evaluation && pipeline && encoder && (
+          <FeatureImportancePanel
+            importance={evaluation.importance ?? null}
+            metric={regressionEvaluation ? "R²" : "accuracy"}
+            sourceDescription={EVALUATION_SOURCES[evaluation.mode]}
+            linear={linearModel}
+          />
+        )}
+
+        {experiments.length > 0 && (
+          <ExperimentHistoryPanel
+            experiments={experiments}
+            fingerprint={fingerprint}
+            onUpdate={updateExperiment}
+            onDelete={(id) =>
+              setExperiments((previous) => previous.filter((run) => run.id !== id))
+            }
+            onClear={() =>
+              setExperiments((previous) => previous.filter((run) => run.pinned))
+            }
+            onRestore={restoreExperiment}
+          />
+        )}
+
         <section className="rounded-3xl border border-slate-800 bg-slate-900/90 p-6">
           <h2 className="text-lg font-semibold text-white">
             3. Forecast Future Outcomes
           </h2>
           <p className="mt-2 text-sm text-slate-300">
             Provide feature values to generate a prediction with the trained model.
+            Blank fields take the training fill value when imputation is enabled.
           </p>
 
           <div className="mt-6 grid gap-4 md:grid-cols-2">
-            {featureColumns.map((column) => (
-              <label
-                key={column}
-                className="flex flex-col gap-2 text-sm text-slate-200"
-              >
-                <span className="font-medium">{column}</span>
-                <input
-                  type="number"
-                  value={predictionInput[column] ?? ""}
-                  onChange={(event) =>
-                    setPredictionInput((previous) => ({
-                      ...previous,
-                      [column]: event.target.value,
-                    }))
-                  }
-                  className="rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
-                  placeholder="Enter value"
-                />
-              </label>
-            ))}
+            {featureColumns.map((column) => {
+              const columnEncoder = formEncoder?.columns.find(
+                (item) => item.column === column,
+              );
+              const options =
+                columnEncoder?.type === "boolean"
+                  ? ["true", "false"]
+                  : columnEncoder?.type === "categorical"
+                    ? columnEncoder.categories
+                    : null;
+              const updateInput = (value: string) =>
+                setPredictionInput((previous) => ({
+                  ...previous,
+                  [column]: value,
+                }));
+              return (
+                <label
+                  key={column}
+                  className="flex flex-col gap-2 text-sm text-slate-200"
+                >
+                  <span className="font-medium">{column}</span>
+                  {options ? (
+                    <select
+                      value={predictionInput[column] ?? ""}
+                      onChange={(event) => updateInput(event.target.value)}
+                      className="rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                    >
+                      <option value="">Select value</option>
+                      {options.map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type="number"
+                      value={predictionInput[column] ?? ""}
+                      onChange={(event) => updateInput(event.target.value)}
+                      className="rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+                      placeholder="Enter value"
+                    />
+                  )}
+                </label>
+              );
+            })}
           </div>
 
           <div className="mt-6 flex flex-col gap-3 md:flex-row md:items-center">
             <button
               onClick={handlePredict}
-              disabled={!models}
+              disabled={!pipeline || !encoder}
               className="inline-flex items-center justify-center rounded-xl bg-indigo-500 px-4 py-2 text-sm font-semibold text-indigo-50 transition hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-300"
             >
               Predict
@@ -583,7 +2548,72 @@ export default function Home() {
               </span>
             )}
           </div>
+          {prediction && predictionProbabilities && (
+            <div className="mt-4">
+              <ProbabilityBars
+                probabilities={predictionProbabilities}
+                predicted={prediction}
+              />
+            </div>
+          )}
+          {prediction && pipeline && !pipeline.regressor && !predictionProbabilities && (
+            <p className="mt-3 text-xs text-slate-500">
+              Train with hold-out or k-fold evaluation to calibrate class
+              probabilities.
+            </p>
+          )}
+          {prediction && explanation && (
+            <div className="mt-4 border-t border-slate-800 pt-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <h3 className="text-sm font-semibold text-slate-200">
+                  Why this prediction
+                </h3>
+                {explanation.outputs.length > 1 && (
+                  <select
+                    value={explainedOutput}
+                    onChange={(event) => setExplainedOutput(event.target.value)}
+                    className="rounded-lg border border-slate-700 bg-slate-800/60 px-2 py-1 text-xs text-slate-100"
+                  >
+                    {explanation.outputs.map((output) => (
+                      <option key={output} value={output}>
+                        {output}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              <p className="mt-1 text-xs text-slate-400">
+                How much the{" "}
+                {explainedOutput === "value"
+                  ? "predicted value"
+                  : `"${explainedOutput}" score`}{" "}
+                changes when each input is replaced by its training mean. Positive
+                bars are inputs that raised it.
+              </p>
+              <div className="mt-3 max-w-2xl">
+                <SignedBars
+                  bars={explanation.contributions
+                    .map(({ feature, deltas }) => ({
+                      label: feature,
+                      value:
+                        deltas[Math.max(0, explanation.outputs.indexOf(explainedOutput))],
+                    }))
+                    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value))}
+                />
+              </div>
+            </div>
+          )}
         </section>
+
+        <BatchPredictionPanel
+          encoder={pipeline ? encoder : null}
+          disabled={activeJob !== null}
+          running={activeJob === "predict"}
+          progress={activeJob === "predict" ? jobProgress : ""}
+          run={batchRun}
+          onRun={runBatch}
+          onCancel={cancelJob}
+        />
       </div>
     </main>
   );
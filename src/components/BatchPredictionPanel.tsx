@@ -0,0 +1,280 @@
+import Papa from "papaparse";
+import { ChangeEvent, useMemo, useState } from "react";
+import { batchResultsToCsv, mapColumns, type BatchResult } from "@/lib/batch";
+import { downloadFile } from "@/lib/download";
+import { isRequired, type FeatureEncoder } from "@/lib/encoding";
+
+export interface BatchFile {
+  name: string;
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface BatchRun {
+  file: BatchFile;
+  result: BatchResult;
+}
+
+const PREVIEW_ROWS = 25;
+
+const marginFormatter = new Intl.NumberFormat("en-US", {
+  maximumFractionDigits: 3,
+});
+
+const probabilityFormatter = new Intl.NumberFormat("en-US", {
+  style: "percent",
+  maximumFractionDigits: 1,
+});
+
+interface BatchPredictionPanelProps {
+  /** Encoder of the current model, or null when no model is trained. */
+  encoder: FeatureEncoder | null;
+  disabled: boolean;
+  running: boolean;
+  progress: string;
+  run: BatchRun | null;
+  onRun: (file: BatchFile, mapping: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+export default function BatchPredictionPanel({
+  encoder,
+  disabled,
+  running,
+  progress,
+  run,
+  onRun,
+  onCancel,
+}: BatchPredictionPanelProps) {
+  const [file, setFile] = useState<BatchFile | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const columnMapping = useMemo(
+    () =>
+      file && encoder
+        ? mapColumns(
+            file.headers,
+            encoder.columns.map(({ column }) => column),
+          )
+        : null,
+    [file, encoder],
+  );
+
+  // A column absent from the file is only fatal when it cannot be imputed.
+  const unmappable = useMemo(
+    () =>
+      columnMapping && encoder
+        ? columnMapping.missing.filter(
+            (column) => {
+              const item = encoder.columns.find(({ column: name }) => name === column);
+              return item ? isRequired(item) : false;
+            },
+          )
+        : [],
+    [columnMapping, encoder],
+  );
+
+  const failedRows = run
+    ? run.result.predictions.filter((prediction) => prediction.error).length
+    : 0;
+
+  const handleFileUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const upload = event.target.files?.[0];
+    event.target.value = "";
+    if (!upload) return;
+
+    const parsed = Papa.parse<Record<string, string>>(await upload.text(), {
+      header: true,
+      skipEmptyLines: true,
+      dynamicTyping: false,
+    });
+    const headers = parsed.meta.fields ?? [];
+    if (!parsed.data.length || !headers.length) {
+      setFile(null);
+      setFileError("No rows or columns detected in the file.");
+      return;
+    }
+    setFile({ name: upload.name, headers, rows: parsed.data });
+    setFileError(
+      parsed.errors.length
+        ? `${parsed.errors.length} malformed lines: ${parsed.errors[0].message}`
+        : null,
+    );
+  };
+
+  const handleDownload = () => {
+    if (!run) return;
+    downloadFile(
+      run.file.name.replace(/\.[^.]+$/, "") + "-predictions.csv",
+      batchResultsToCsv(run.file.headers, run.file.rows, run.result),
+      "text/csv",
+    );
+  };
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-900/80 p-6">
+      <h2 className="text-lg font-semibold text-white">Batch Prediction</h2>
+      <p className="mt-2 text-sm text-slate-300">
+        Score a whole CSV with the trained model. Columns are matched to the
+        model&apos;s features by name; rows that cannot be encoded are reported
+        individually.
+      </p>
+
+      <div className="mt-5 flex flex-wrap items-end gap-4">
+        <label className="flex flex-col gap-2 text-sm text-slate-200">
+          <span className="font-medium">Upload CSV to score</span>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleFileUpload}
+            disabled={!encoder}
+            className="block w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 file:mr-4 file:rounded-lg file:border-0 file:bg-indigo-500 file:px-4 file:py-2 file:text-indigo-50 hover:file:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-60"
+          />
+        </label>
+
+        {running ? (
+          <button
+            onClick={onCancel}
+            className="inline-flex items-center justify-center rounded-xl bg-rose-500 px-4 py-2 text-sm font-semibold text-rose-50 transition hover:bg-rose-400 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-rose-300"
+          >
+            Cancel Scoring
+          </button>
+        ) : (
+          <button
+            onClick={() => file && columnMapping && onRun(file, columnMapping.mapping)}
+            disabled={disabled || !file || !encoder || unmappable.length > 0}
+            className="inline-flex items-center justify-center rounded-xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-emerald-50 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-300"
+          >
+            {file ? `Score ${file.rows.length} rows` : "Score rows"}
+          </button>
+        )}
+
+        {running && progress && (
+          <span className="text-xs text-slate-400">Scoring {progress}</span>
+        )}
+      </div>
+
+      {!encoder && (
+        <p className="mt-3 text-xs text-slate-500">
+          Train or import a model to enable batch scoring.
+        </p>
+      )}
+      {fileError && <p className="mt-3 text-xs text-amber-300">{fileError}</p>}
+
+      {file && columnMapping && (
+        <div className="mt-4 rounded-xl border border-slate-800 bg-slate-950/40 p-3 text-xs text-slate-300">
+          <p className="text-slate-400">
+            {file.name}: {file.rows.length} rows, {file.headers.length} columns
+          </p>
+          <ul className="mt-2 grid gap-1 sm:grid-cols-2 lg:grid-cols-3">
+            {encoder?.columns.map((item) => {
+              const { column } = item;
+              const header = columnMapping.mapping[column];
+              return (
+                <li key={column} className="flex justify-between gap-3">
+                  <span className="truncate">{column}</span>
+                  <span
+                    className={
+                      header !== undefined
+                        ? "text-emerald-300"
+                        : isRequired(item)
+                          ? "text-rose-300"
+                          : "text-amber-300"
+                    }
+                  >
+                    {header !== undefined
+                      ? `← ${header}`
+                      : isRequired(item)
+                        ? "missing"
+                        : "missing (imputed)"}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+          {unmappable.length > 0 && (
+            <p className="mt-2 text-rose-300">
+              The file is missing required columns: {unmappable.join(", ")}.
+            </p>
+          )}
+        </div>
+      )}
+
+      {run && (
+        <div className="mt-6 space-y-3">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <span className="text-slate-300">
+              Scored {run.result.predictions.length - failedRows} of{" "}
+              {run.result.predictions.length} rows
+            </span>
+            {failedRows > 0 && (
+              <span className="rounded-full border border-rose-500/60 bg-rose-500/10 px-3 py-0.5 text-xs text-rose-200">
+                {failedRows} rows with errors
+              </span>
+            )}
+            <button
+              onClick={handleDownload}
+              className="inline-flex items-center justify-center rounded-xl border border-slate-700 px-3 py-2 text-xs font-medium text-slate-200 transition hover:border-indigo-400 hover:text-indigo-100"
+            >
+              Download results (.csv)
+            </button>
+          </div>
+
+          <div className="max-h-96 overflow-auto">
+            <table className="w-full text-left text-xs text-slate-300">
+              <thead className="sticky top-0 bg-slate-900 text-[10px] uppercase tracking-[0.2em] text-slate-500">
+                <tr>
+                  <th className="py-1 font-medium">Row</th>
+                  <th className="py-1 font-medium">Prediction</th>
+                  {run.result.classes.map((label) => (
+                    <th key={label} className="py-1 text-right font-medium">
+                      {label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {run.result.predictions.slice(0, PREVIEW_ROWS).map((prediction) => (
+                  <tr key={prediction.row} className="border-t border-slate-800/80">
+                    <td className="py-1">{prediction.row}</td>
+                    {prediction.error ? (
+                      <td
+                        colSpan={run.result.classes.length + 1}
+                        className="py-1 text-rose-300"
+                      >
+                        {prediction.error}
+                      </td>
+                    ) : (
+                      <>
+                        <td className="py-1 text-indigo-300">
+                          {run.result.task === "REGRESSION"
+                            ? marginFormatter.format(Number(prediction.label))
+                            : prediction.label}
+                          {prediction.probabilities &&
+                            ` (${probabilityFormatter.format(
+                              Math.max(...prediction.probabilities),
+                            )})`}
+                        </td>
+                        {prediction.margins.map((margin, index) => (
+                          <td key={index} className="py-1 text-right">
+                            {marginFormatter.format(margin)}
+                          </td>
+                        ))}
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {run.result.predictions.length > PREVIEW_ROWS && (
+            <p className="text-xs text-slate-500">
+              Showing the first {PREVIEW_ROWS} rows; download the CSV for all
+              results.
+            </p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
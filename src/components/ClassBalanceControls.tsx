@@ -0,0 +1,190 @@
+import { useMemo } from "react";
+import {
+  RESAMPLING_LABELS,
+  WEIGHTING_LABELS,
+  effectiveWeights,
+  labelCounts,
+  resampledCounts,
+  weightsForCounts,
+  type ClassWeighting,
+  type ImbalanceSettings,
+  type ResamplingStrategy,
+} from "@/lib/imbalance";
+
+const weightFormatter = new Intl.NumberFormat("en-US", {
+  maximumFractionDigits: 2,
+});
+
+const percentFormatter = new Intl.NumberFormat("en-US", {
+  style: "percent",
+  maximumFractionDigits: 1,
+});
+
+const selectClassName =
+  "mt-2 w-full rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500";
+
+interface ClassBalanceControlsProps {
+  /** Labels of the rows that will be used for training. */
+  labels: string[];
+  settings: ImbalanceSettings;
+  onChange: (patch: Partial<ImbalanceSettings>) => void;
+}
+
+export default function ClassBalanceControls({
+  labels,
+  settings,
+  onChange,
+}: ClassBalanceControlsProps) {
+  const distribution = useMemo(() => {
+    const before = labelCounts(labels);
+    const after = resampledCounts(before, settings.resampling);
+    let weights: Record<string, number> | null = null;
+    let effective: Record<string, number> | null = null;
+    let error: string | null = null;
+    try {
+      weights = weightsForCounts(after, settings);
+      effective = weights && effectiveWeights(after, weights);
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : "Invalid class weights.";
+    }
+    const total = (counts: Record<string, number>) =>
+      Object.values(counts).reduce((sum, count) => sum + count, 0);
+    return {
+      before,
+      after,
+      weights,
+      effective,
+      error,
+      totalBefore: total(before),
+      totalAfter: total(after),
+    };
+  }, [labels, settings]);
+
+  // Training repeats rows, so weights are rounded, capped and bounded.
+  const approximated =
+    distribution.weights !== null &&
+    distribution.effective !== null &&
+    Object.keys(distribution.weights).some(
+      (label) =>
+        Math.abs(
+          (distribution.effective?.[label] ?? 0) - (distribution.weights?.[label] ?? 0),
+        ) > 1e-9,
+    );
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold uppercase tracking-[0.24em] text-slate-400">
+        Class Balance
+      </h3>
+      <div className="mt-3 grid gap-3 sm:grid-cols-2">
+        <label className="block text-sm text-slate-300">
+          <span className="font-medium text-slate-200">Class weights</span>
+          <select
+            value={settings.weighting}
+            onChange={(event) =>
+              onChange({ weighting: event.target.value as ClassWeighting })
+            }
+            className={selectClassName}
+          >
+            {(Object.keys(WEIGHTING_LABELS) as ClassWeighting[]).map((option) => (
+              <option key={option} value={option}>
+                {WEIGHTING_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm text-slate-300">
+          <span className="font-medium text-slate-200">Resampling</span>
+          <select
+            value={settings.resampling}
+            onChange={(event) =>
+              onChange({ resampling: event.target.value as ResamplingStrategy })
+            }
+            className={selectClassName}
+          >
+            {(Object.keys(RESAMPLING_LABELS) as ResamplingStrategy[]).map(
+              (option) => (
+                <option key={option} value={option}>
+                  {RESAMPLING_LABELS[option]}
+                </option>
+              ),
+            )}
+          </select>
+        </label>
+      </div>
+
+      <table className="mt-4 w-full text-left text-xs text-slate-300">
+        <thead className="text-[10px] uppercase tracking-[0.2em] text-slate-500">
+          <tr>
+            <th className="py-1 font-medium">Label</th>
+            <th className="py-1 text-right font-medium">Rows</th>
+            <th className="py-1 text-right font-medium">After resampling</th>
+            <th className="py-1 text-right font-medium">Weight</th>
+            {approximated && (
+              <th className="py-1 text-right font-medium">Effective</th>
+            )}
+          </tr>
+        </thead>
+        <tbody>
+          {Object.entries(distribution.before).map(([label, count]) => (
+            <tr key={label} className="border-t border-slate-800/80">
+              <td className="py-1">{label}</td>
+              <td className="py-1 text-right">
+                {count}{" "}
+                <span className="text-slate-500">
+                  ({percentFormatter.format(count / distribution.totalBefore)})
+                </span>
+              </td>
+              <td className="py-1 text-right">
+                {distribution.after[label]}{" "}
+                <span className="text-slate-500">
+                  (
+                  {percentFormatter.format(
+                    distribution.after[label] / distribution.totalAfter,
+                  )}
+                  )
+                </span>
+              </td>
+              <td className="py-1 text-right">
+                {settings.weighting === "MANUAL" ? (
+                  <input
+                    type="number"
+                    step="0.5"
+                    min="0"
+                    value={settings.manualWeights[label] ?? 1}
+                    onChange={(event) =>
+                      onChange({
+                        manualWeights: {
+                          ...settings.manualWeights,
+                          [label]: Number(event.target.value),
+                        },
+                      })
+                    }
+                    className="w-20 rounded-lg border border-slate-700 bg-slate-800/60 px-2 py-1 text-right text-xs text-slate-100"
+                  />
+                ) : (
+                  weightFormatter.format(distribution.weights?.[label] ?? 1)
+                )}
+              </td>
+              {approximated && (
+                <td className="py-1 text-right text-amber-300">
+                  {weightFormatter.format(distribution.effective?.[label] ?? 1)}
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {distribution.error && (
+        <p className="mt-3 text-xs text-rose-300">{distribution.error}</p>
+      )}
+      <p className="mt-3 text-xs text-slate-500">
+        Resampling applies to each training split only; evaluation rows keep
+        the original distribution. Counts shown are for the full dataset.
+        {approximated &&
+          " Weights are applied by repeating rows, so training uses the effective weights: rounded, capped and limited in how far they may grow the data."}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import type { ClassificationReport } from "@/lib/metrics";
+
+const metricFormatter = new Intl.NumberFormat("en-US", {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+interface ClassificationReportPanelProps {
+  report: ClassificationReport;
+  sourceDescription: string;
+}
+
+export default function ClassificationReportPanel({
+  report,
+  sourceDescription,
+}: ClassificationReportPanelProps) {
+  const rowTotals = report.matrix.map((row) =>
+    row.reduce((sum, count) => sum + count, 0),
+  );
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-900/80 p-6">
+      <h2 className="text-lg font-semibold text-white">Evaluation Report</h2>
+      <p className="mt-2 text-sm text-slate-300">
+        {sourceDescription} — {report.total} predictions, accuracy{" "}
+        {metricFormatter.format(report.accuracy)}, balanced accuracy{" "}
+        {metricFormatter.format(report.balancedAccuracy)}.
+      </p>
+
+      <div className="mt-6 grid gap-6 lg:grid-cols-2">
+        <div className="overflow-x-auto">
+          <h3 className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">
+            Confusion Matrix
+          </h3>
+          <table className="mt-3 text-xs text-slate-200">
+            <thead>
+              <tr>
+                <th className="px-2 py-1 text-left text-[10px] font-medium uppercase tracking-[0.2em] text-slate-500">
+                  Actual ↓ / Predicted →
+                </th>
+                {report.labels.map((label) => (
+                  <th
+                    key={label}
+                    className="px-2 py-1 text-center font-medium text-slate-300"
+                  >
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {report.matrix.map((row, rowIndex) => (
+                <tr key={report.labels[rowIndex]}>
+                  <th className="px-2 py-1 text-left font-medium text-slate-300">
+                    {report.labels[rowIndex]}
+                  </th>
+                  {row.map((count, columnIndex) => {
+                    const share = rowTotals[rowIndex]
+                      ? count / rowTotals[rowIndex]
+                      : 0;
+                    const diagonal = rowIndex === columnIndex;
+                    return (
+                      <td
+                        key={report.labels[columnIndex]}
+                        className="h-10 min-w-12 rounded-md border border-slate-800 px-2 text-center font-semibold"
+                        style={{
+                          backgroundColor: diagonal
+                            ? `rgba(16, 185, 129, ${0.1 + share * 0.6})`
+                            : `rgba(244, 63, 94, ${count ? 0.1 + share * 0.6 : 0})`,
+                        }}
+                      >
+                        {count}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="overflow-x-auto">
+          <h3 className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">
+            Per-class Metrics
+          </h3>
+          <table className="mt-3 w-full text-left text-xs text-slate-300">
+            <thead className="text-[10px] uppercase tracking-[0.2em] text-slate-500">
+              <tr>
+                <th className="py-1 font-medium">Class</th>
+                <th className="py-1 text-right font-medium">Precision</th>
+                <th className="py-1 text-right font-medium">Recall</th>
+                <th className="py-1 text-right font-medium">F1</th>
+                <th className="py-1 text-right font-medium">Support</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.classes.map((metrics) => (
+                <tr key={metrics.label} className="border-t border-slate-800/80">
+                  <td className="py-1 text-slate-200">{metrics.label}</td>
+                  <td className="py-1 text-right">
+                    {metricFormatter.format(metrics.precision)}
+                  </td>
+                  <td className="py-1 text-right">
+                    {metricFormatter.format(metrics.recall)}
+                  </td>
+                  <td className="py-1 text-right">
+                    {metricFormatter.format(metrics.f1)}
+                  </td>
+                  <td className="py-1 text-right">{metrics.support}</td>
+                </tr>
+              ))}
+              {(
+                [
+                  ["Macro avg", report.macro],
+                  ["Weighted avg", report.weighted],
+                ] as const
+              ).map(([name, metrics]) => (
+                <tr
+                  key={name}
+                  className="border-t border-slate-700 font-medium text-slate-200"
+                >
+                  <td className="py-1">{name}</td>
+                  <td className="py-1 text-right">
+                    {metricFormatter.format(metrics.precision)}
+                  </td>
+                  <td className="py-1 text-right">
+                    {metricFormatter.format(metrics.recall)}
+                  </td>
+                  <td className="py-1 text-right">
+                    {metricFormatter.format(metrics.f1)}
+                  </td>
+                  <td className="py-1 text-right">{report.total}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+  );
+}
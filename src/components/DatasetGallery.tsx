@@ -0,0 +1,34 @@
+import { SAMPLE_DATASETS, type SampleDataset } from "@/lib/sample-data";
+
+interface DatasetGalleryProps {
+  disabled: boolean;
+  onLoad: (dataset: SampleDataset) => void;
+}
+
+export default function DatasetGallery({ disabled, onLoad }: DatasetGalleryProps) {
+  return (
+    <div>
+      <span className="text-sm font-medium text-slate-200">Or try a sample</span>
+      <div className="mt-2 grid gap-2 sm:grid-cols-2">
+        {SAMPLE_DATASETS.map((dataset) => (
+          <button
+            key={dataset.id}
+            onClick={() => onLoad(dataset)}
+            disabled={disabled}
+            className="rounded-xl border border-slate-700 bg-slate-800/40 px-3 py-2 text-left transition hover:border-indigo-400 hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+          >
+            <span className="flex items-center justify-between gap-2 text-sm font-medium text-slate-100">
+              {dataset.name}
+              <span className="text-[10px] uppercase tracking-[0.16em] text-slate-500">
+                {dataset.task}
+              </span>
+            </span>
+            <span className="mt-0.5 block text-xs text-slate-400">
+              {dataset.description}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
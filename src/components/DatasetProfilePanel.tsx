@@ -0,0 +1,249 @@
+import type {
+  ColumnProfile,
+  CorrelationMatrix,
+  HistogramBin,
+} from "@/lib/profiling";
+
+const statFormatter = new Intl.NumberFormat("en-US", {
+  maximumSignificantDigits: 4,
+});
+
+const correlationFormatter = new Intl.NumberFormat("en-US", {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+const FLAG_DESCRIPTIONS = {
+  constant: "Constant — carries no signal",
+  "id-like": "ID-like — almost every value is unique",
+};
+
+const SPARK_WIDTH = 96;
+const SPARK_HEIGHT = 24;
+const CELL = 34;
+const LABEL_WIDTH = 110;
+
+interface DatasetProfilePanelProps {
+  profiles: ColumnProfile[];
+  labelColumn: string;
+  correlation: CorrelationMatrix | null;
+}
+
+function Sparkline({ bins }: { bins: HistogramBin[] }) {
+  const peak = Math.max(1, ...bins.map((bin) => bin.count));
+  const width = SPARK_WIDTH / Math.max(1, bins.length);
+  return (
+    <svg
+      viewBox={`0 0 ${SPARK_WIDTH} ${SPARK_HEIGHT}`}
+      className="h-6 w-24"
+      aria-hidden
+    >
+      {bins.map((bin, index) => {
+        const height = (bin.count / peak) * SPARK_HEIGHT;
+        return (
+          <rect
+            key={bin.label}
+            x={index * width + 0.5}
+            y={SPARK_HEIGHT - height}
+            width={Math.max(1, width - 1)}
+            height={height}
+            fill="#818cf8"
+            fillOpacity={0.75}
+          >
+            <title>{`${bin.label}: ${bin.count}`}</title>
+          </rect>
+        );
+      })}
+    </svg>
+  );
+}
+
+/** Indigo for positive, rose for negative correlation; stronger is more opaque. */
+function correlationColor(value: number | null) {
+  if (value === null) return "rgba(51, 65, 85, 0.4)";
+  const alpha = Math.min(1, Math.abs(value)) * 0.85 + 0.05;
+  return value >= 0
+    ? `rgba(129, 140, 248, ${alpha})`
+    : `rgba(251, 113, 133, ${alpha})`;
+}
+
+export default function DatasetProfilePanel({
+  profiles,
+  labelColumn,
+  correlation,
+}: DatasetProfilePanelProps) {
+  const labelProfile = profiles.find((profile) => profile.column === labelColumn);
+  const labelTotal =
+    labelProfile?.histogram.reduce((sum, bin) => sum + bin.count, 0) ?? 0;
+  const flagged = profiles.filter(
+    (profile) => profile.column !== labelColumn && profile.flags.length,
+  );
+  const size = correlation ? correlation.columns.length : 0;
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-900/80 p-6">
+      <h2 className="text-lg font-semibold text-white">Dataset Profile</h2>
+      <p className="mt-2 text-sm text-slate-300">
+        Per-column summary of the loaded file. Review flagged columns before
+        selecting features.
+      </p>
+
+      {flagged.length > 0 && (
+        <ul className="mt-4 space-y-1 rounded-xl border border-amber-500/50 bg-amber-500/10 px-4 py-3 text-xs text-amber-200">
+          {flagged.map((profile) => (
+            <li key={profile.column}>
+              <span className="font-semibold">{profile.column}</span>:{" "}
+              {profile.flags.map((flag) => FLAG_DESCRIPTIONS[flag]).join("; ")}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-5 overflow-x-auto">
+        <table className="w-full text-left text-xs text-slate-300">
+          <thead className="text-[10px] uppercase tracking-[0.2em] text-slate-500">
+            <tr>
+              <th className="py-1 pr-3 font-medium">Column</th>
+              <th className="py-1 pr-3 font-medium">Type</th>
+              <th className="py-1 pr-3 text-right font-medium">Missing</th>
+              <th className="py-1 pr-3 text-right font-medium">Distinct</th>
+              <th className="py-1 pr-3 text-right font-medium">Min</th>
+              <th className="py-1 pr-3 text-right font-medium">Max</th>
+              <th className="py-1 pr-3 text-right font-medium">Mean</th>
+              <th className="py-1 pr-3 text-right font-medium">Std</th>
+              <th className="py-1 font-medium">Distribution</th>
+            </tr>
+          </thead>
+          <tbody>
+            {profiles.map((profile) => (
+              <tr key={profile.column} className="border-t border-slate-800/80">
+                <td className="py-1.5 pr-3">
+                  <span
+                    className={
+                      profile.flags.length ? "text-amber-300" : "text-slate-100"
+                    }
+                  >
+                    {profile.column}
+                  </span>
+                  {profile.column === labelColumn && (
+                    <span className="ml-2 rounded-full bg-emerald-500/20 px-2 py-0.5 text-[10px] uppercase tracking-[0.2em] text-emerald-300">
+                      label
+                    </span>
+                  )}
+                </td>
+                <td className="py-1.5 pr-3 text-slate-400">{profile.type}</td>
+                <td
+                  className={`py-1.5 pr-3 text-right ${
+                    profile.missing ? "text-amber-300" : ""
+                  }`}
+                >
+                  {profile.missing}
+                </td>
+                <td className="py-1.5 pr-3 text-right">{profile.distinct}</td>
+                {[profile.min, profile.max, profile.mean, profile.std].map(
+                  (value, index) => (
+                    <td key={index} className="py-1.5 pr-3 text-right">
+                      {value === null ? "—" : statFormatter.format(value)}
+                    </td>
+                  ),
+                )}
+                <td className="py-1.5">
+                  <Sparkline bins={profile.histogram} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-6 grid gap-6 lg:grid-cols-2">
+        {labelProfile && (
+          <div>
+            <h3 className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">
+              Label Distribution — {labelColumn}
+            </h3>
+            <ul className="mt-3 space-y-1.5 text-xs text-slate-300">
+              {labelProfile.histogram.map((bin) => (
+                <li key={bin.label} className="flex items-center gap-3">
+                  <span className="w-28 truncate">{bin.label}</span>
+                  <span className="h-2.5 flex-1 rounded-full bg-slate-800">
+                    <span
+                      className="block h-full rounded-full bg-emerald-400/70"
+                      style={{
+                        width: `${labelTotal ? (bin.count / labelTotal) * 100 : 0}%`,
+                      }}
+                    />
+                  </span>
+                  <span className="w-10 text-right text-slate-400">{bin.count}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {correlation && size >= 2 && (
+          <div className="overflow-x-auto">
+            <h3 className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">
+              Feature Correlation
+            </h3>
+            <svg
+              viewBox={`0 0 ${LABEL_WIDTH + size * CELL} ${LABEL_WIDTH + size * CELL}`}
+              className="mt-3 w-full max-w-md"
+            >
+              {correlation.columns.map((column, index) => (
+                <g key={column} className="fill-slate-400 text-[10px]">
+                  <text
+                    x={LABEL_WIDTH - 6}
+                    y={LABEL_WIDTH + index * CELL + CELL / 2 + 3}
+                    textAnchor="end"
+                  >
+                    {column.length > 16 ? `${column.slice(0, 15)}…` : column}
+                  </text>
+                  <text
+                    x={0}
+                    y={0}
+                    textAnchor="start"
+                    transform={`translate(${LABEL_WIDTH + index * CELL + CELL / 2 + 3} ${LABEL_WIDTH - 6}) rotate(-90)`}
+                  >
+                    {column.length > 16 ? `${column.slice(0, 15)}…` : column}
+                  </text>
+                </g>
+              ))}
+              {correlation.values.map((row, i) =>
+                row.map((value, j) => (
+                  <g key={`${i}:${j}`}>
+                    <rect
+                      x={LABEL_WIDTH + j * CELL}
+                      y={LABEL_WIDTH + i * CELL}
+                      width={CELL - 1}
+                      height={CELL - 1}
+                      fill={correlationColor(value)}
+                    >
+                      <title>
+                        {`${correlation.columns[i]} × ${correlation.columns[j]}: ${
+                          value === null ? "n/a" : correlationFormatter.format(value)
+                        }`}
+                      </title>
+                    </rect>
+                    <text
+                      x={LABEL_WIDTH + j * CELL + CELL / 2}
+                      y={LABEL_WIDTH + i * CELL + CELL / 2 + 3}
+                      textAnchor="middle"
+                      className="pointer-events-none fill-slate-100 text-[9px]"
+                    >
+                      {value === null ? "–" : correlationFormatter.format(value)}
+                    </text>
+                  </g>
+                )),
+              )}
+            </svg>
+            <p className="mt-2 text-xs text-slate-500">
+              Pearson correlation of numeric columns. Strongly correlated pairs
+              (|r| near 1) carry largely redundant information.
+            </p>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
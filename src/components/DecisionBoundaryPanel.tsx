@@ -0,0 +1,325 @@
+import { useEffect, useMemo, useState } from "react";
+import type { DecisionBoundary } from "@/lib/boundary";
+import type { ImbalanceSettings } from "@/lib/imbalance";
+import type { ScalingMethod } from "@/lib/preprocessing";
+import type { ModelParameters } from "@/lib/svm";
+import {
+  JobCancelledError,
+  startWorkerJob,
+  type WorkerJob,
+} from "@/workers/client";
+
+export const CLASS_COLORS = [
+  "#818cf8",
+  "#34d399",
+  "#f472b6",
+  "#fbbf24",
+  "#38bdf8",
+  "#f87171",
+  "#a3e635",
+  "#c084fc",
+];
+
+const WIDTH = 560;
+const HEIGHT = 400;
+const PADDING = 36;
+const RESOLUTION = 60;
+/** Larger datasets are thinned to keep re-fits interactive. */
+const MAX_POINTS = 800;
+const REFIT_DELAY_MS = 300;
+
+const tickFormatter = new Intl.NumberFormat("en-US", {
+  maximumSignificantDigits: 3,
+});
+
+interface DecisionBoundaryPanelProps {
+  /** Encoded feature names, in feature-vector order. */
+  featureNames: string[];
+  features: number[][];
+  labels: string[];
+  parameters: ModelParameters;
+  /** Scaling method per encoded feature. */
+  scaling: ScalingMethod[];
+  imbalance: ImbalanceSettings;
+  seed: number;
+}
+
+interface PlotState {
+  boundary: DecisionBoundary | null;
+  error: string | null;
+  running: boolean;
+}
+
+const inputClassName =
+  "mt-1 w-full rounded-lg border border-slate-700 bg-slate-800/60 px-2 py-1.5 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500";
+
+export default function DecisionBoundaryPanel({
+  featureNames,
+  features,
+  labels,
+  parameters,
+  scaling,
+  imbalance,
+  seed,
+}: DecisionBoundaryPanelProps) {
+  const [pair, setPair] = useState<[number, number]>([0, 1]);
+  const [plot, setPlot] = useState<PlotState>({
+    boundary: null,
+    error: null,
+    running: false,
+  });
+
+  // Fall back to the first two features when the selection no longer exists.
+  const [xIndex, yIndex] =
+    pair[0] < featureNames.length &&
+    pair[1] < featureNames.length &&
+    pair[0] !== pair[1]
+      ? pair
+      : [0, 1];
+
+  const sample = useMemo(() => {
+    const stride = Math.max(1, Math.ceil(features.length / MAX_POINTS));
+    // Rows missing either value cannot be placed on the plot.
+    const indices = features
+      .map((_, index) => index)
+      .filter(
+        (index) =>
+          index % stride === 0 &&
+          !Number.isNaN(features[index][xIndex]) &&
+          !Number.isNaN(features[index][yIndex]),
+      );
+    return {
+      points: indices.map((index) => [
+        features[index][xIndex],
+        features[index][yIndex],
+      ]),
+      labels: indices.map((index) => labels[index]),
+    };
+  }, [features, labels, xIndex, yIndex]);
+
+  const { kernel, cost, gamma, degree, multiclass, coef0, solver } = parameters;
+  const xScaling = scaling[xIndex];
+  const yScaling = scaling[yIndex];
+
+  useEffect(() => {
+    if (sample.points.length < 2) return;
+    let job: WorkerJob<DecisionBoundary> | null = null;
+    const timer = window.setTimeout(() => {
+      setPlot((previous) => ({ ...previous, running: true }));
+      const started = startWorkerJob({
+        type: "boundary",
+        points: sample.points,
+        labels: sample.labels,
+        parameters: { kernel, cost, gamma, degree, multiclass, coef0, solver },
+        scaling: [xScaling, yScaling],
+        imbalance,
+        seed,
+        resolution: RESOLUTION,
+      });
+      job = started;
+      started.result
+        .then((boundary) => setPlot({ boundary, error: null, running: false }))
+        .catch((error: unknown) => {
+          if (error instanceof JobCancelledError) return;
+          setPlot({
+            boundary: null,
+            error: error instanceof Error ? error.message : "Plot failed.",
+            running: false,
+          });
+        });
+    }, REFIT_DELAY_MS);
+
+    return () => {
+      window.clearTimeout(timer);
+      job?.cancel();
+    };
+  }, [
+    sample,
+    kernel,
+    cost,
+    gamma,
+    degree,
+    multiclass,
+    coef0,
+    solver,
+    xScaling,
+    yScaling,
+    imbalance,
+    seed,
+  ]);
+
+  const boundary = plot.boundary;
+  const toScreen = (x: number, y: number) => {
+    if (!boundary) return [0, 0];
+    const { xMin, xMax, yMin, yMax } = boundary.bounds;
+    return [
+      PADDING + ((x - xMin) / (xMax - xMin)) * (WIDTH - 2 * PADDING),
+      HEIGHT - PADDING - ((y - yMin) / (yMax - yMin)) * (HEIGHT - 2 * PADDING),
+    ];
+  };
+  const colorOf = (label: string) =>
+    CLASS_COLORS[
+      Math.max(0, boundary?.classes.indexOf(label) ?? 0) % CLASS_COLORS.length
+    ];
+  const supportVectors = new Set(boundary?.supportVectors);
+  const cellWidth = (WIDTH - 2 * PADDING) / (RESOLUTION - 1);
+  const cellHeight = (HEIGHT - 2 * PADDING) / (RESOLUTION - 1);
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-900/80 p-6">
+      <h2 className="text-lg font-semibold text-white">Decision Boundary</h2>
+      <p className="mt-2 text-sm text-slate-300">
+        Fits the current kernel and C on two features and shades the predicted
+        region of each class. Solid lines are decision boundaries, dashed lines
+        the ±1 margins, and ringed points are support vectors.
+      </p>
+
+      <div className="mt-5 grid gap-4 sm:grid-cols-2">
+        {(["X axis", "Y axis"] as const).map((axisLabel, axis) => (
+          <label key={axisLabel} className="block text-sm text-slate-300">
+            <span className="font-medium text-slate-200">{axisLabel}</span>
+            <select
+              value={axis === 0 ? xIndex : yIndex}
+              onChange={(event) => {
+                const value = Number(event.target.value);
+                setPair(axis === 0 ? [value, yIndex] : [xIndex, value]);
+              }}
+              className={inputClassName}
+            >
+              {featureNames.map((name, index) => (
+                <option
+                  key={name}
+                  value={index}
+                  disabled={index === (axis === 0 ? yIndex : xIndex)}
+                >
+                  {name}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {plot.error && (
+        <p className="mt-4 rounded-xl border border-rose-500/60 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
+          {plot.error}
+        </p>
+      )}
+
+      {boundary && (
+        <div className="mt-5 flex flex-col gap-3">
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className={`w-full rounded-xl border border-slate-800 bg-slate-950/60 transition-opacity ${
+              plot.running ? "opacity-60" : ""
+            }`}
+          >
+            {boundary.regions.map((region, index) => {
+              const { xMin, xMax, yMin, yMax } = boundary.bounds;
+              const column = index % RESOLUTION;
+              const row = Math.floor(index / RESOLUTION);
+              const [x, y] = toScreen(
+                xMin + ((xMax - xMin) * column) / (RESOLUTION - 1),
+                yMin + ((yMax - yMin) * row) / (RESOLUTION - 1),
+              );
+              return (
+                <rect
+                  key={index}
+                  x={x - cellWidth / 2}
+                  y={y - cellHeight / 2}
+                  width={cellWidth + 0.5}
+                  height={cellHeight + 0.5}
+                  fill={CLASS_COLORS[region % CLASS_COLORS.length]}
+                  fillOpacity={0.18}
+                />
+              );
+            })}
+
+            {boundary.contours.map((contour) => (
+              <path
+                key={`${contour.model}:${contour.level}`}
+                d={contour.segments
+                  .map(([x1, y1, x2, y2]) => {
+                    const [sx1, sy1] = toScreen(x1, y1);
+                    const [sx2, sy2] = toScreen(x2, y2);
+                    return `M${sx1},${sy1}L${sx2},${sy2}`;
+                  })
+                  .join("")}
+                fill="none"
+                stroke={colorOf(contour.label)}
+                strokeWidth={contour.level === 0 ? 1.75 : 1}
+                strokeDasharray={contour.level === 0 ? undefined : "4 3"}
+                strokeOpacity={contour.level === 0 ? 0.95 : 0.6}
+              />
+            ))}
+
+            {sample.points.map(([x, y], index) => {
+              const [sx, sy] = toScreen(x, y);
+              const isSupport = supportVectors.has(index);
+              return (
+                <circle
+                  key={index}
+                  cx={sx}
+                  cy={sy}
+                  r={isSupport ? 5 : 3.5}
+                  fill={colorOf(sample.labels[index])}
+                  stroke={isSupport ? "#f8fafc" : "#0f172a"}
+                  strokeWidth={isSupport ? 1.75 : 0.75}
+                />
+              );
+            })}
+
+            <g className="fill-slate-500 text-[10px]">
+              <text x={PADDING} y={HEIGHT - 10}>
+                {tickFormatter.format(boundary.bounds.xMin)}
+              </text>
+              <text x={WIDTH - PADDING} y={HEIGHT - 10} textAnchor="end">
+                {tickFormatter.format(boundary.bounds.xMax)}
+              </text>
+              <text x={WIDTH / 2} y={HEIGHT - 10} textAnchor="middle">
+                {featureNames[xIndex]}
+              </text>
+              <text x={8} y={HEIGHT - PADDING}>
+                {tickFormatter.format(boundary.bounds.yMin)}
+              </text>
+              <text x={8} y={PADDING}>
+                {tickFormatter.format(boundary.bounds.yMax)}
+              </text>
+              <text
+                x={12}
+                y={HEIGHT / 2}
+                textAnchor="middle"
+                transform={`rotate(-90 12 ${HEIGHT / 2})`}
+              >
+                {featureNames[yIndex]}
+              </text>
+            </g>
+          </svg>
+
+          <div className="flex flex-wrap items-center gap-3 text-xs text-slate-300">
+            {boundary.classes.map((label, index) => (
+              <span key={label} className="inline-flex items-center gap-1.5">
+                <span
+                  className="inline-block h-2.5 w-2.5 rounded-full"
+                  style={{ backgroundColor: CLASS_COLORS[index % CLASS_COLORS.length] }}
+                />
+                {label}
+              </span>
+            ))}
+            <span className="text-slate-500">
+              {boundary.supportVectors.length} support vectors ·{" "}
+              {sample.points.length} points
+              {sample.points.length < features.length &&
+                ` (sampled from ${features.length})`}
+              {plot.running && " · refitting…"}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {!boundary && plot.running && (
+        <p className="mt-5 text-xs text-slate-400">Fitting the 2D model…</p>
+      )}
+    </section>
+  );
+}
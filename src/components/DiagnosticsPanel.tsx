@@ -0,0 +1,501 @@
+import { useMemo, useState } from "react";
+import {
+  CURVE_LABELS,
+  CURVE_PARAMETER_LABELS,
+  diagnoseLearningCurve,
+  type CurveKind,
+  type CurveParameter,
+  type CurveResult,
+  type CurveSettings,
+} from "@/lib/diagnostics";
+import { KERNELS } from "@/lib/kernels";
+import { svrConverged } from "@/lib/regression";
+import type { LogRange } from "@/lib/search";
+import { modelKey, type ModelParameters, type TrainedPipeline } from "@/lib/svm";
+
+const WIDTH = 420;
+const HEIGHT = 220;
+const PADDING = 36;
+
+const TRAIN_COLOR = "#34d399";
+const VALIDATION_COLOR = "#818cf8";
+const UNCONVERGED_COLOR = "#fbbf24";
+
+const DEFAULT_RANGES: Record<CurveParameter, LogRange> = {
+  cost: { min: 0.01, max: 100, steps: 5 },
+  gamma: { min: 0.001, max: 10, steps: 5 },
+};
+
+const scoreFormatter = new Intl.NumberFormat("en-US", {
+  style: "percent",
+  maximumFractionDigits: 1,
+});
+
+const valueFormatter = new Intl.NumberFormat("en-US", {
+  maximumSignificantDigits: 3,
+});
+
+const inputClassName =
+  "mt-1 w-full rounded-lg border border-slate-700 bg-slate-800/60 px-2 py-1.5 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500";
+
+interface StatsRow {
+  model: string;
+  supportVectors: number | null;
+  iterations: number | null;
+  converged: boolean | null;
+}
+
+interface DiagnosticsPanelProps {
+  pipeline: TrainedPipeline | null;
+  /** Current model parameters; the curves vary one of them at a time. */
+  parameters: ModelParameters;
+  /** Curves need encoded features and class labels. */
+  curvesAvailable: boolean;
+  disabled: boolean;
+  running: boolean;
+  progress: string;
+  result: CurveResult | null;
+  onRun: (settings: CurveSettings) => void;
+  onCancel: () => void;
+}
+
+export default function DiagnosticsPanel({
+  pipeline,
+  parameters,
+  curvesAvailable,
+  disabled,
+  running,
+  progress,
+  result,
+  onRun,
+  onCancel,
+}: DiagnosticsPanelProps) {
+  const [settings, setSettings] = useState<CurveSettings>({
+    kind: "LEARNING",
+    sizes: 5,
+    parameter: "cost",
+    range: DEFAULT_RANGES.cost,
+    folds: 3,
+    seed: 42,
+  });
+  const gammaAvailable = KERNELS[parameters.kernel].gamma !== null;
+  const parameter =
+    settings.parameter === "gamma" && !gammaAvailable ? "cost" : settings.parameter;
+
+  const stats = useMemo<StatsRow[]>(() => {
+    if (!pipeline) return [];
+    if (pipeline.regressor) {
+      return [
+        {
+          model: "Epsilon-SVR",
+          supportVectors: pipeline.regressor.supportVectors.length,
+          iterations: pipeline.regressor.iterations,
+          converged: svrConverged(pipeline.regressor),
+        },
+      ];
+    }
+    return pipeline.models.map((model) => ({
+      model: modelKey(model),
+      supportVectors: model.stats?.supportVectors ?? null,
+      iterations: model.stats?.iterations ?? null,
+      converged: model.stats?.converged ?? null,
+    }));
+  }, [pipeline]);
+
+  const curve = useMemo(() => {
+    if (!result?.points.length) return null;
+    const { points } = result;
+    // Parameter sweeps are log-spaced, so they are plotted on a log axis.
+    const position = (value: number) =>
+      result.kind === "VALIDATION" ? Math.log10(value) : value;
+    const first = position(points[0].value);
+    const last = position(points[points.length - 1].value);
+    const plotWidth = WIDTH - 2 * PADDING;
+    const plotHeight = HEIGHT - 2 * PADDING;
+    const low = Math.max(
+      0,
+      Math.min(
+        ...points.flatMap((point) => [
+          point.trainScore - point.trainStd,
+          point.validationScore - point.validationStd,
+        ]),
+      ),
+    );
+    const high = Math.min(
+      1,
+      Math.max(
+        ...points.flatMap((point) => [
+          point.trainScore + point.trainStd,
+          point.validationScore + point.validationStd,
+        ]),
+      ),
+    );
+    const range = high - low || 1;
+    const toX = (value: number) =>
+      PADDING +
+      (last > first
+        ? ((position(value) - first) / (last - first)) * plotWidth
+        : plotWidth / 2);
+    const toY = (score: number) => HEIGHT - PADDING - ((score - low) / range) * plotHeight;
+    const best = points.reduce((top, point) =>
+      point.validationScore > top.validationScore ? point : top,
+    );
+    return { points, low, high, toX, toY, best };
+  }, [result]);
+
+  const findings = useMemo(() => {
+    if (!result || !curve) return [];
+    if (result.kind === "LEARNING") return diagnoseLearningCurve(result.points);
+    const name = CURVE_PARAMETER_LABELS[result.parameter ?? "cost"];
+    return [
+      `Best validation accuracy: ${scoreFormatter.format(curve.best.validationScore)} at ${name} = ${valueFormatter.format(curve.best.value)}. Where training accuracy pulls away from validation, the model is overfitting; where both are low, it underfits.`,
+    ];
+  }, [result, curve]);
+
+  const unconverged = result?.points.some((point) => point.unconverged > 0) ?? false;
+  const currentValue =
+    result?.kind === "VALIDATION"
+      ? result.parameter === "gamma"
+        ? parameters.gamma
+        : parameters.cost
+      : null;
+
+  const updateSetting = (
+    key: "sizes" | "folds" | "seed",
+    raw: string,
+    minimum: number,
+  ) => {
+    const value = Math.floor(Number(raw));
+    setSettings((previous) => ({
+      ...previous,
+      [key]: Number.isFinite(value) && value >= minimum ? value : previous[key],
+    }));
+  };
+
+  const updateRange = (field: keyof LogRange, raw: string) => {
+    const value = Number(raw);
+    setSettings((previous) => {
+      const valid =
+        Number.isFinite(value) &&
+        value > 0 &&
+        (field !== "steps" || Number.isInteger(value));
+      return {
+        ...previous,
+        range: { ...previous.range, [field]: valid ? value : previous.range[field] },
+      };
+    });
+  };
+
+  const band = (
+    upper: (point: CurveResult["points"][number]) => number,
+    lower: (point: CurveResult["points"][number]) => number,
+  ) =>
+    curve
+      ? [
+          ...curve.points.map((point) => `${curve.toX(point.value)},${curve.toY(upper(point))}`),
+          ...[...curve.points]
+            .reverse()
+            .map((point) => `${curve.toX(point.value)},${curve.toY(lower(point))}`),
+        ].join(" ")
+      : "";
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-900/80 p-6">
+      <h2 className="text-lg font-semibold text-white">Training Diagnostics</h2>
+      <p className="mt-2 text-sm text-slate-300">
+        Solver statistics for each trained model, plus learning and validation
+        curves that compare training and validation accuracy to tell bias,
+        variance and too little data apart.
+      </p>
+
+      {stats.length > 0 && (
+        <div className="mt-5 max-h-60 overflow-auto rounded-xl border border-slate-800 bg-slate-950/60 p-3">
+          <table className="w-full text-left text-xs text-slate-300">
+            <thead className="sticky top-0 bg-slate-950 text-[10px] uppercase tracking-[0.2em] text-slate-500">
+              <tr>
+                <th className="py-1 font-medium">Model</th>
+                <th className="py-1 text-right font-medium">Support vectors</th>
+                <th className="py-1 text-right font-medium">Iterations</th>
+                <th className="py-1 text-right font-medium">Solver</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.map((row) => (
+                <tr key={row.model} className="border-t border-slate-800/80">
+                  <td className="py-1">{row.model}</td>
+                  <td className="py-1 text-right">{row.supportVectors ?? "—"}</td>
+                  <td className="py-1 text-right">{row.iterations ?? "—"}</td>
+                  <td
+                    className={`py-1 text-right ${
+                      row.converged === false
+                        ? "text-amber-300"
+                        : row.converged
+                          ? "text-emerald-300"
+                          : "text-slate-500"
+                    }`}
+                  >
+                    {row.converged === null
+                      ? "Not recorded"
+                      : row.converged
+                        ? "Converged"
+                        : "Hit iteration limit"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {curvesAvailable ? (
+        <div className="mt-5 flex flex-wrap items-end gap-4">
+          <label className="block text-sm text-slate-300">
+            <span className="font-medium text-slate-200">Curve</span>
+            <select
+              value={settings.kind}
+              onChange={(event) =>
+                setSettings((previous) => ({
+                  ...previous,
+                  kind: event.target.value as CurveKind,
+                }))
+              }
+              className={inputClassName}
+            >
+              {(Object.keys(CURVE_LABELS) as CurveKind[]).map((option) => (
+                <option key={option} value={option}>
+                  {CURVE_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {settings.kind === "LEARNING" ? (
+            <label className="block w-24 text-sm text-slate-300">
+              <span className="font-medium text-slate-200">Sizes</span>
+              <input
+                type="number"
+                min="2"
+                step="1"
+                value={settings.sizes}
+                onChange={(event) => updateSetting("sizes", event.target.value, 2)}
+                className={inputClassName}
+              />
+            </label>
+          ) : (
+            <>
+              <label className="block w-28 text-sm text-slate-300">
+                <span className="font-medium text-slate-200">Sweep</span>
+                <select
+                  value={parameter}
+                  onChange={(event) => {
+                    const next = event.target.value as CurveParameter;
+                    setSettings((previous) => ({
+                      ...previous,
+                      parameter: next,
+                      range: DEFAULT_RANGES[next],
+                    }));
+                  }}
+                  className={inputClassName}
+                >
+                  <option value="cost">{CURVE_PARAMETER_LABELS.cost}</option>
+                  <option value="gamma" disabled={!gammaAvailable}>
+                    {CURVE_PARAMETER_LABELS.gamma}
+                  </option>
+                </select>
+              </label>
+              {(["min", "max", "steps"] as const).map((field) => (
+                <label key={field} className="block w-20 text-sm text-slate-300">
+                  <span className="font-medium text-slate-200">{field}</span>
+                  <input
+                    type="number"
+                    step={field === "steps" ? 1 : "any"}
+                    min={field === "steps" ? 1 : undefined}
+                    value={settings.range[field]}
+                    onChange={(event) => updateRange(field, event.target.value)}
+                    className={inputClassName}
+                  />
+                </label>
+              ))}
+            </>
+          )}
+
+          <label className="block w-20 text-sm text-slate-300">
+            <span className="font-medium text-slate-200">Folds</span>
+            <input
+              type="number"
+              min="2"
+              step="1"
+              value={settings.folds}
+              onChange={(event) => updateSetting("folds", event.target.value, 2)}
+              className={inputClassName}
+            />
+          </label>
+          <label className="block w-24 text-sm text-slate-300">
+            <span className="font-medium text-slate-200">Seed</span>
+            <input
+              type="number"
+              step="1"
+              value={settings.seed}
+              onChange={(event) =>
+                updateSetting("seed", event.target.value, Number.MIN_SAFE_INTEGER)
+              }
+              className={inputClassName}
+            />
+          </label>
+
+          {running ? (
+            <button
+              onClick={onCancel}
+              className="inline-flex items-center justify-center rounded-xl bg-rose-500 px-4 py-2 text-sm font-semibold text-rose-50 transition hover:bg-rose-400 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-rose-300"
+            >
+              Cancel Curve
+            </button>
+          ) : (
+            <button
+              onClick={() => onRun({ ...settings, parameter })}
+              disabled={disabled}
+              className="inline-flex items-center justify-center rounded-xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-emerald-50 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-300"
+            >
+              Plot Curve
+            </button>
+          )}
+          {running && progress && (
+            <span className="text-xs text-slate-400">{progress}</span>
+          )}
+        </div>
+      ) : (
+        <p className="mt-5 text-xs text-slate-500">
+          Learning and validation curves are available for classification with
+          feature-based kernels.
+        </p>
+      )}
+
+      {result && curve && (
+        <div className="mt-6 grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
+          <div>
+            <h3 className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">
+              {result.kind === "LEARNING"
+                ? "Accuracy vs training rows"
+                : `Accuracy vs ${CURVE_PARAMETER_LABELS[result.parameter ?? "cost"]}`}
+            </h3>
+            <svg
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              className="mt-3 w-full rounded-xl border border-slate-800 bg-slate-950/60"
+            >
+              {(
+                [
+                  ["train", TRAIN_COLOR],
+                  ["validation", VALIDATION_COLOR],
+                ] as const
+              ).map(([series, color]) => {
+                const score = (point: CurveResult["points"][number]) =>
+                  series === "train" ? point.trainScore : point.validationScore;
+                const std = (point: CurveResult["points"][number]) =>
+                  series === "train" ? point.trainStd : point.validationStd;
+                return (
+                  <g key={series}>
+                    <polygon
+                      points={band(
+                        (point) => score(point) + std(point),
+                        (point) => score(point) - std(point),
+                      )}
+                      fill={color}
+                      fillOpacity={0.12}
+                    />
+                    <polyline
+                      points={curve.points
+                        .map((point) => `${curve.toX(point.value)},${curve.toY(score(point))}`)
+                        .join(" ")}
+                      fill="none"
+                      stroke={color}
+                      strokeWidth={2}
+                    />
+                    {curve.points.map((point) => (
+                      <circle
+                        key={point.value}
+                        cx={curve.toX(point.value)}
+                        cy={curve.toY(score(point))}
+                        r={point.unconverged ? 4 : 3}
+                        fill={point.unconverged ? UNCONVERGED_COLOR : color}
+                      >
+                        <title>
+                          {`${series === "train" ? "Training" : "Validation"} at ${valueFormatter.format(point.value)}: ${scoreFormatter.format(score(point))} ± ${scoreFormatter.format(std(point))}${
+                            point.unconverged
+                              ? ` (${point.unconverged} models hit the iteration limit)`
+                              : ""
+                          }`}
+                        </title>
+                      </circle>
+                    ))}
+                  </g>
+                );
+              })}
+              {currentValue !== null &&
+                currentValue >= curve.points[0].value &&
+                currentValue <= curve.points[curve.points.length - 1].value && (
+                  <line
+                    x1={curve.toX(currentValue)}
+                    x2={curve.toX(currentValue)}
+                    y1={PADDING}
+                    y2={HEIGHT - PADDING}
+                    stroke="#94a3b8"
+                    strokeDasharray="4 3"
+                  />
+                )}
+              <text x={PADDING} y={HEIGHT - 10} fill="#94a3b8" fontSize={10}>
+                {valueFormatter.format(curve.points[0].value)}
+              </text>
+              <text
+                x={WIDTH - PADDING}
+                y={HEIGHT - 10}
+                fill="#94a3b8"
+                fontSize={10}
+                textAnchor="end"
+              >
+                {valueFormatter.format(curve.points[curve.points.length - 1].value)}
+                {result.kind === "LEARNING" ? " rows" : ""}
+              </text>
+              <text x={4} y={PADDING} fill="#94a3b8" fontSize={10}>
+                {scoreFormatter.format(curve.high)}
+              </text>
+              <text x={4} y={HEIGHT - PADDING} fill="#94a3b8" fontSize={10}>
+                {scoreFormatter.format(curve.low)}
+              </text>
+            </svg>
+            <div className="mt-2 flex flex-wrap gap-4 text-xs text-slate-400">
+              <span className="inline-flex items-center gap-1.5">
+                <span className="h-2 w-2 rounded-full" style={{ background: TRAIN_COLOR }} />
+                Training accuracy
+              </span>
+              <span className="inline-flex items-center gap-1.5">
+                <span
+                  className="h-2 w-2 rounded-full"
+                  style={{ background: VALIDATION_COLOR }}
+                />
+                Validation accuracy
+              </span>
+              {currentValue !== null && <span>Dashed: current value</span>}
+            </div>
+          </div>
+
+          <div className="space-y-3 text-sm text-slate-300">
+            <h3 className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">
+              Reading the curve
+            </h3>
+            <ul className="space-y-2">
+              {findings.map((finding) => (
+                <li key={finding}>{finding}</li>
+              ))}
+            </ul>
+            {unconverged && (
+              <p className="rounded-xl border border-amber-500/60 bg-amber-500/10 px-3 py-2 text-xs text-amber-200">
+                Amber points include models whose solver hit the iteration limit,
+                so their scores may understate what the model could reach.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,447 @@
+import { useMemo, useState } from "react";
+import type { EvaluationSettings } from "@/lib/evaluation";
+import {
+  EXPERIMENT_METRICS,
+  metricImprovements,
+  type ExperimentMetric,
+  type ExperimentRun,
+} from "@/lib/experiments";
+import { RESAMPLING_LABELS, WEIGHTING_LABELS } from "@/lib/imbalance";
+import { KERNELS } from "@/lib/kernels";
+import { SCALING_LABELS } from "@/lib/preprocessing";
+import { TASK_LABELS } from "@/lib/regression";
+import { DEFAULT_SOLVER, MULTICLASS_LABELS } from "@/lib/svm";
+
+type SortKey = "createdAt" | "kernel" | "cost" | "durationMs" | ExperimentMetric;
+
+const dateFormatter = new Intl.DateTimeFormat("en-US", {
+  dateStyle: "short",
+  timeStyle: "medium",
+});
+
+const valueFormatter = new Intl.NumberFormat("en-US", {
+  maximumSignificantDigits: 3,
+});
+
+const metricFormatter = new Intl.NumberFormat("en-US", {
+  maximumFractionDigits: 4,
+});
+
+const buttonClassName =
+  "rounded-lg border border-slate-700 px-2 py-1 text-[11px] text-slate-200 transition hover:border-indigo-400 hover:text-indigo-100 disabled:cursor-not-allowed disabled:text-slate-500 disabled:hover:border-slate-700";
+
+interface ExperimentHistoryPanelProps {
+  experiments: ExperimentRun[];
+  /** Fingerprint of the loaded dataset, to mark runs made on other data. */
+  fingerprint: string;
+  onUpdate: (id: string, patch: Partial<Pick<ExperimentRun, "pinned" | "note">>) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onRestore: (run: ExperimentRun) => void;
+}
+
+function formatMetric(metric: ExperimentMetric, value: number | undefined) {
+  if (value === undefined) return "—";
+  return EXPERIMENT_METRICS[metric].percent
+    ? `${metricFormatter.format(value * 100)}%`
+    : metricFormatter.format(value);
+}
+
+function formatDuration(ms: number) {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${valueFormatter.format(ms / 1000)} s`;
+}
+
+function describeEvaluation(settings: EvaluationSettings) {
+  if (settings.mode === "TRAINING") return "Training data";
+  if (settings.mode === "HOLDOUT") {
+    return `Hold-out ${Math.round(settings.testRatio * 100)}%, seed ${settings.seed}`;
+  }
+  return `${settings.folds}-fold CV, seed ${settings.seed}`;
+}
+
+function sortValue(run: ExperimentRun, key: SortKey) {
+  if (key === "createdAt") return run.createdAt;
+  if (key === "kernel") return run.settings.parameters.kernel;
+  if (key === "cost") return run.settings.parameters.cost;
+  if (key === "durationMs") return run.durationMs;
+  return run.metrics[key];
+}
+
+function compareRuns(a: ExperimentRun, b: ExperimentRun, key: SortKey, descending: boolean) {
+  // Pinned runs stay on top; runs without the metric sort last.
+  if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+  const left = sortValue(a, key);
+  const right = sortValue(b, key);
+  if (left === undefined || right === undefined) {
+    return Number(left === undefined) - Number(right === undefined);
+  }
+  const order =
+    typeof left === "number" && typeof right === "number"
+      ? left - right
+      : String(left).localeCompare(String(right));
+  return descending ? -order : order;
+}
+
+/** Configuration rows of the comparison table, in display order. */
+const COMPARISON_ROWS: { label: string; value: (run: ExperimentRun) => string }[] = [
+  { label: "Dataset", value: (run) => `${run.fingerprint} · ${run.rows} rows` },
+  { label: "Label", value: (run) => run.labelColumn },
+  { label: "Features", value: (run) => run.featureColumns.join(", ") },
+  { label: "Task", value: (run) => TASK_LABELS[run.settings.task] },
+  { label: "Kernel", value: (run) => KERNELS[run.settings.parameters.kernel].label },
+  { label: "C", value: (run) => valueFormatter.format(run.settings.parameters.cost) },
+  {
+    label: "Gamma",
+    value: ({ settings: { parameters } }) => {
+      if (!KERNELS[parameters.kernel].gamma) return "—";
+      return parameters.gamma === null ? "Auto" : valueFormatter.format(parameters.gamma);
+    },
+  },
+  {
+    label: "Degree",
+    value: (run) =>
+      KERNELS[run.settings.parameters.kernel].degree
+        ? String(run.settings.parameters.degree)
+        : "—",
+  },
+  {
+    label: "coef0",
+    value: (run) =>
+      KERNELS[run.settings.parameters.kernel].coef0
+        ? valueFormatter.format(run.settings.parameters.coef0 ?? 1)
+        : "—",
+  },
+  {
+    label: "Solver",
+    value: (run) => {
+      // SVR uses its own coordinate-descent limits, not the SMO settings.
+      if (run.metrics.r2 !== undefined) return "—";
+      const solver = run.settings.parameters.solver ?? DEFAULT_SOLVER;
+      return `tol ${solver.tol}, ${solver.maxPasses} passes, ${solver.maxIterations} iterations`;
+    },
+  },
+  {
+    label: "Multi-class",
+    value: (run) => MULTICLASS_LABELS[run.settings.parameters.multiclass],
+  },
+  { label: "Epsilon", value: (run) => valueFormatter.format(run.settings.epsilon) },
+  {
+    label: "Scaling",
+    value: (run) => {
+      const overrides = Object.keys(run.settings.columnScaling).length;
+      return `${SCALING_LABELS[run.settings.scaling]}${
+        overrides ? ` (+${overrides} overrides)` : ""
+      }`;
+    },
+  },
+  {
+    label: "Encoding",
+    value: (run) =>
+      `${run.settings.encoding.encoding === "ONE_HOT" ? "One-hot" : "Ordinal"}, missing: ${run.settings.encoding.missing.toLowerCase()}`,
+  },
+  {
+    label: "Class balance",
+    value: (run) =>
+      `${WEIGHTING_LABELS[run.settings.imbalance.weighting]} / ${
+        RESAMPLING_LABELS[run.settings.imbalance.resampling]
+      }`,
+  },
+  { label: "Evaluation", value: (run) => describeEvaluation(run.settings.evaluation) },
+];
+
+export default function ExperimentHistoryPanel({
+  experiments,
+  fingerprint,
+  onUpdate,
+  onDelete,
+  onClear,
+  onRestore,
+}: ExperimentHistoryPanelProps) {
+  const [sortKey, setSortKey] = useState<SortKey>("createdAt");
+  const [sortDescending, setSortDescending] = useState(true);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const metrics = useMemo(
+    () =>
+      (Object.keys(EXPERIMENT_METRICS) as ExperimentMetric[]).filter((metric) =>
+        experiments.some((run) => run.metrics[metric] !== undefined),
+      ),
+    [experiments],
+  );
+
+  const sortedRuns = useMemo(
+    () => [...experiments].sort((a, b) => compareRuns(a, b, sortKey, sortDescending)),
+    [experiments, sortKey, sortDescending],
+  );
+
+  // Selection order decides the columns; the first selected run is the baseline.
+  const compared = selected
+    .map((id) => experiments.find((run) => run.id === id))
+    .filter((run): run is ExperimentRun => run !== undefined);
+  const baseline = compared[0];
+
+  const sortColumns: { key: SortKey; label: string }[] = [
+    { key: "createdAt", label: "Trained" },
+    { key: "kernel", label: "Kernel" },
+    { key: "cost", label: "C" },
+    ...metrics.map((metric) => ({ key: metric, label: EXPERIMENT_METRICS[metric].label })),
+    { key: "durationMs", label: "Time" },
+  ];
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDescending((previous) => !previous);
+    } else {
+      setSortKey(key);
+      setSortDescending(
+        key === "createdAt" ||
+          (key in EXPERIMENT_METRICS &&
+            EXPERIMENT_METRICS[key as ExperimentMetric].higherIsBetter),
+      );
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected((previous) =>
+      previous.includes(id)
+        ? previous.filter((item) => item !== id)
+        : [...previous, id],
+    );
+  };
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-900/80 p-6">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Experiment History</h2>
+          <p className="mt-2 text-sm text-slate-300">
+            Every training run is recorded with its configuration and scores.
+            Tick two or more runs to compare them side by side.
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            if (window.confirm("Remove all unpinned runs from the history?")) {
+              setSelected([]);
+              onClear();
+            }
+          }}
+          disabled={!experiments.some((run) => !run.pinned)}
+          className={`${buttonClassName} hover:border-rose-400 hover:text-rose-200`}
+        >
+          Clear unpinned
+        </button>
+      </div>
+
+      <div className="mt-5 max-h-96 overflow-auto">
+        <table className="w-full text-left text-xs text-slate-300">
+          <thead className="sticky top-0 bg-slate-900 text-[10px] uppercase tracking-[0.2em] text-slate-500">
+            <tr>
+              <th className="py-1 pr-2 font-medium">
+                <span className="sr-only">Compare</span>
+              </th>
+              <th className="py-1 pr-2 font-medium">
+                <span className="sr-only">Pin</span>
+              </th>
+              {sortColumns.map((column) => (
+                <th key={column.key} className="py-1 pr-3 font-medium">
+                  <button
+                    onClick={() => handleSort(column.key)}
+                    className="uppercase tracking-[0.2em] hover:text-slate-300"
+                  >
+                    {column.label}
+                    {sortKey === column.key && (sortDescending ? " ↓" : " ↑")}
+                  </button>
+                </th>
+              ))}
+              <th className="py-1 pr-3 font-medium">Note</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {sortedRuns.map((run) => (
+              <tr
+                key={run.id}
+                className={`border-t border-slate-800/80 ${
+                  run.fingerprint === fingerprint ? "" : "text-slate-500"
+                }`}
+              >
+                <td className="py-1 pr-2">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(run.id)}
+                    onChange={() => toggleSelected(run.id)}
+                    aria-label="Compare this run"
+                    className="accent-indigo-500"
+                  />
+                </td>
+                <td className="py-1 pr-2">
+                  <button
+                    onClick={() => onUpdate(run.id, { pinned: !run.pinned })}
+                    title={run.pinned ? "Unpin" : "Pin"}
+                    className={run.pinned ? "text-amber-300" : "text-slate-600 hover:text-slate-300"}
+                  >
+                    {run.pinned ? "★" : "☆"}
+                  </button>
+                </td>
+                <td
+                  className="whitespace-nowrap py-1 pr-3"
+                  title={
+                    run.fingerprint === fingerprint
+                      ? undefined
+                      : "Trained on a different dataset"
+                  }
+                >
+                  {dateFormatter.format(new Date(run.createdAt))}
+                </td>
+                <td className="py-1 pr-3">
+                  {KERNELS[run.settings.parameters.kernel].label}
+                </td>
+                <td className="py-1 pr-3">
+                  {valueFormatter.format(run.settings.parameters.cost)}
+                </td>
+                {metrics.map((metric) => (
+                  <td key={metric} className="py-1 pr-3 text-emerald-300">
+                    {formatMetric(metric, run.metrics[metric])}
+                    {metric === "accuracy" &&
+                      run.stdAccuracy !== null &&
+                      ` ± ${metricFormatter.format(run.stdAccuracy * 100)}%`}
+                  </td>
+                ))}
+                <td className="whitespace-nowrap py-1 pr-3">
+                  {formatDuration(run.durationMs)}
+                </td>
+                <td className="py-1 pr-3">
+                  <input
+                    key={run.id}
+                    defaultValue={run.note}
+                    placeholder="Add note"
+                    onBlur={(event) => {
+                      if (event.target.value !== run.note) {
+                        onUpdate(run.id, { note: event.target.value });
+                      }
+                    }}
+                    onKeyDown={(event) => {
+                      if (event.key === "Enter") event.currentTarget.blur();
+                    }}
+                    className="w-36 rounded-lg border border-slate-800 bg-transparent px-2 py-1 text-xs text-slate-100 placeholder:text-slate-600 focus-visible:border-indigo-500 focus-visible:outline-none"
+                  />
+                </td>
+                <td className="whitespace-nowrap py-1 text-right">
+                  <button onClick={() => onRestore(run)} className={buttonClassName}>
+                    Restore
+                  </button>{" "}
+                  <button
+                    onClick={() => {
+                      setSelected((previous) => previous.filter((id) => id !== run.id));
+                      onDelete(run.id);
+                    }}
+                    className={`${buttonClassName} hover:border-rose-400 hover:text-rose-200`}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {compared.length >= 2 && baseline && (
+        <div className="mt-6 overflow-x-auto">
+          <h3 className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">
+            Comparison
+          </h3>
+          <table className="mt-3 w-full text-left text-xs text-slate-300">
+            <thead className="text-[10px] uppercase tracking-[0.2em] text-slate-500">
+              <tr>
+                <th className="py-1 pr-3 font-medium" />
+                {compared.map((run, index) => (
+                  <th key={run.id} className="py-1 pr-3 font-medium">
+                    {index === 0 ? "Baseline" : `Run ${index + 1}`}
+                    <span className="block normal-case tracking-normal text-slate-400">
+                      {run.note || dateFormatter.format(new Date(run.createdAt))}
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {metrics.map((metric) => (
+                <tr key={metric} className="border-t border-slate-800/80">
+                  <td className="py-1 pr-3 text-slate-400">
+                    {EXPERIMENT_METRICS[metric].label}
+                  </td>
+                  {compared.map((run, index) => {
+                    const improvement = metricImprovements(baseline, run)[metric];
+                    const difference =
+                      run.metrics[metric] !== undefined &&
+                      baseline.metrics[metric] !== undefined
+                        ? run.metrics[metric] - baseline.metrics[metric]
+                        : undefined;
+                    return (
+                      <td key={run.id} className="py-1 pr-3">
+                        <span className="text-slate-100">
+                          {formatMetric(metric, run.metrics[metric])}
+                        </span>
+                        {index > 0 && difference !== undefined && improvement !== undefined && (
+                          <span
+                            className={`ml-2 ${
+                              improvement > 0
+                                ? "text-emerald-300"
+                                : improvement < 0
+                                  ? "text-rose-300"
+                                  : "text-slate-500"
+                            }`}
+                          >
+                            {difference >= 0 ? "+" : "−"}
+                            {formatMetric(metric, Math.abs(difference))}
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              <tr className="border-t border-slate-800/80">
+                <td className="py-1 pr-3 text-slate-400">Training time</td>
+                {compared.map((run) => (
+                  <td key={run.id} className="py-1 pr-3">
+                    {formatDuration(run.durationMs)}
+                  </td>
+                ))}
+              </tr>
+              {COMPARISON_ROWS.map((row) => {
+                const base = row.value(baseline);
+                return (
+                  <tr key={row.label} className="border-t border-slate-800/80">
+                    <td className="py-1 pr-3 text-slate-400">{row.label}</td>
+                    {compared.map((run) => {
+                      const value = row.value(run);
+                      return (
+                        <td
+                          key={run.id}
+                          className={`max-w-56 truncate py-1 pr-3 ${
+                            value === base ? "" : "text-amber-300"
+                          }`}
+                          title={value}
+                        >
+                          {value}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-slate-500">
+            Differences are relative to the baseline (the first run ticked);
+            green marks an improvement. Settings that differ from the baseline
+            are highlighted.
+          </p>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import SignedBars from "@/components/SignedBars";
+import type { LinearWeights, PermutationImportance } from "@/lib/importance";
+
+interface FeatureImportancePanelProps {
+  importance: PermutationImportance[] | null;
+  /** Score whose drop is measured, e.g. "accuracy" or "R²". */
+  metric: string;
+  sourceDescription: string;
+  /** Exact linear-kernel weights, named by encoded feature. */
+  linear: { featureNames: string[]; weights: LinearWeights[] } | null;
+}
+
+export default function FeatureImportancePanel({
+  importance,
+  metric,
+  sourceDescription,
+  linear,
+}: FeatureImportancePanelProps) {
+  const [modelIndex, setModelIndex] = useState(0);
+  const weights = linear?.weights[Math.min(modelIndex, linear.weights.length - 1)];
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-900/80 p-6">
+      <h2 className="text-lg font-semibold text-white">Feature Importance</h2>
+
+      {importance ? (
+        <>
+          <p className="mt-2 text-sm text-slate-300">
+            {sourceDescription}. Each feature is shuffled across those rows and
+            the bar shows how much {metric} drops, averaged over repeats and
+            folds. Features near zero barely influence predictions; negative
+            values mean shuffling helped by chance.
+          </p>
+          <div className="mt-4 max-w-2xl">
+            <SignedBars
+              bars={importance.map(({ feature, drop, std }) => ({
+                label: feature,
+                value: drop,
+                spread: std,
+              }))}
+            />
+          </div>
+        </>
+      ) : (
+        <p className="mt-2 text-sm text-slate-400">
+          Permutation importance is computed when a model is trained on feature
+          columns.
+        </p>
+      )}
+
+      {linear && weights && (
+        <div className="mt-6 border-t border-slate-800 pt-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h3 className="text-sm font-semibold text-slate-200">
+              Linear kernel weights
+            </h3>
+            {linear.weights.length > 1 && (
+              <select
+                value={modelIndex}
+                onChange={(event) => setModelIndex(Number(event.target.value))}
+                className="rounded-lg border border-slate-700 bg-slate-800/60 px-2 py-1 text-xs text-slate-100"
+              >
+                {linear.weights.map((model, index) => (
+                  <option key={model.model} value={index}>
+                    {model.model}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          <p className="mt-1 text-xs text-slate-400">
+            Exact weights of the decision function, summed over the support
+            vectors, in scaled feature units.{" "}
+            {weights.model === "value"
+              ? "Positive weights raise the predicted value."
+              : "Positive weights push toward the first class in the model's name."}
+          </p>
+          <div className="mt-3 max-w-2xl">
+            <SignedBars
+              bars={weights.weights
+                .map((value, index) => ({
+                  label: linear.featureNames[index] ?? `feature ${index + 1}`,
+                  value,
+                }))
+                .sort((a, b) => Math.abs(b.value) - Math.abs(a.value))}
+            />
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
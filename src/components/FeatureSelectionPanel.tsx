@@ -0,0 +1,358 @@
+import { useMemo, useState } from "react";
+import {
+  bestEliminationStep,
+  SELECTION_LABELS,
+  type SelectionMethod,
+  type SelectionResult,
+} from "@/lib/selection";
+
+const WIDTH = 420;
+const HEIGHT = 220;
+const PADDING = 36;
+
+const scoreFormatter = new Intl.NumberFormat("en-US", {
+  style: "percent",
+  maximumFractionDigits: 1,
+});
+
+const valueFormatter = new Intl.NumberFormat("en-US", {
+  maximumSignificantDigits: 3,
+});
+
+const inputClassName =
+  "mt-1 w-full rounded-lg border border-slate-700 bg-slate-800/60 px-2 py-1.5 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500";
+
+export interface SelectionSettings {
+  folds: number;
+  step: number;
+  seed: number;
+}
+
+interface FeatureSelectionPanelProps {
+  /** Candidate source columns: every column except the label and flagged ones. */
+  candidates: number;
+  disabled: boolean;
+  running: boolean;
+  progress: string;
+  result: SelectionResult | null;
+  onRun: (settings: SelectionSettings) => void;
+  onCancel: () => void;
+  onApply: (columns: string[]) => void;
+}
+
+export default function FeatureSelectionPanel({
+  candidates,
+  disabled,
+  running,
+  progress,
+  result,
+  onRun,
+  onCancel,
+  onApply,
+}: FeatureSelectionPanelProps) {
+  const [settings, setSettings] = useState<SelectionSettings>({
+    folds: 3,
+    step: 1,
+    seed: 42,
+  });
+  const [method, setMethod] = useState<SelectionMethod>("RFE");
+  // Null follows the best elimination round until the user picks a size.
+  const [count, setCount] = useState<number | null>(null);
+
+  const best = useMemo(
+    () => (result ? bestEliminationStep(result.steps) : null),
+    [result],
+  );
+  const total = result?.univariate.length ?? 0;
+  const selectedCount = Math.min(Math.max(1, count ?? best?.features.length ?? 1), total);
+
+  const ranked = useMemo(() => {
+    if (!result) return [];
+    const scores = new Map(result.univariate.map((score) => [score.feature, score]));
+    const order =
+      method === "RFE"
+        ? result.ranking
+        : [...result.univariate]
+            .sort((a, b) =>
+              method === "ANOVA"
+                ? b.fScore - a.fScore
+                : b.mutualInformation - a.mutualInformation,
+            )
+            .map((score) => score.feature);
+    return order.map((feature) => ({
+      feature,
+      rfeRank: result.ranking.indexOf(feature) + 1,
+      fScore: scores.get(feature)?.fScore ?? 0,
+      mutualInformation: scores.get(feature)?.mutualInformation ?? 0,
+    }));
+  }, [result, method]);
+
+  const curve = useMemo(() => {
+    if (!result?.steps.length) return null;
+    const points = [...result.steps].sort(
+      (a, b) => a.features.length - b.features.length,
+    );
+    const plotWidth = WIDTH - 2 * PADDING;
+    const plotHeight = HEIGHT - 2 * PADDING;
+    const low = Math.max(
+      0,
+      Math.min(...points.map((point) => point.meanAccuracy - point.stdAccuracy)),
+    );
+    const high = Math.min(
+      1,
+      Math.max(...points.map((point) => point.meanAccuracy + point.stdAccuracy)),
+    );
+    const range = high - low || 1;
+    const toX = (features: number) =>
+      PADDING + (total > 1 ? ((features - 1) / (total - 1)) * plotWidth : plotWidth / 2);
+    const toY = (score: number) => HEIGHT - PADDING - ((score - low) / range) * plotHeight;
+    return { points, low, high, toX, toY };
+  }, [result, total]);
+
+  const updateSetting = (key: keyof SelectionSettings, raw: string, minimum: number) => {
+    const value = Math.floor(Number(raw));
+    setSettings((previous) => ({
+      ...previous,
+      [key]: Number.isFinite(value) && value >= minimum ? value : previous[key],
+    }));
+  };
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-900/80 p-6">
+      <h2 className="text-lg font-semibold text-white">Feature Selection</h2>
+      <p className="mt-2 text-sm text-slate-300">
+        Ranks all {candidates} candidate columns (everything except the label and
+        constant or id-like columns). Recursive elimination repeatedly drops the
+        features with the smallest linear SVM weights and cross-validates each
+        subset; ANOVA F and mutual information score each feature on its own.
+      </p>
+
+      <div className="mt-5 flex flex-wrap items-end gap-4">
+        <label className="block w-24 text-sm text-slate-300">
+          <span className="font-medium text-slate-200">Folds</span>
+          <input
+            type="number"
+            min="2"
+            step="1"
+            value={settings.folds}
+            onChange={(event) => updateSetting("folds", event.target.value, 2)}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block w-32 text-sm text-slate-300">
+          <span className="font-medium text-slate-200">Drop per round</span>
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={settings.step}
+            onChange={(event) => updateSetting("step", event.target.value, 1)}
+            className={inputClassName}
+          />
+        </label>
+        <label className="block w-24 text-sm text-slate-300">
+          <span className="font-medium text-slate-200">Seed</span>
+          <input
+            type="number"
+            step="1"
+            value={settings.seed}
+            onChange={(event) =>
+              updateSetting("seed", event.target.value, Number.MIN_SAFE_INTEGER)
+            }
+            className={inputClassName}
+          />
+        </label>
+
+        {running ? (
+          <button
+            onClick={onCancel}
+            className="inline-flex items-center justify-center rounded-xl bg-rose-500 px-4 py-2 text-sm font-semibold text-rose-50 transition hover:bg-rose-400 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-rose-300"
+          >
+            Cancel Selection
+          </button>
+        ) : (
+          <button
+            onClick={() => {
+              setCount(null);
+              onRun(settings);
+            }}
+            disabled={disabled || candidates < 2}
+            className="inline-flex items-center justify-center rounded-xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-emerald-50 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-300"
+          >
+            Rank Features
+          </button>
+        )}
+        {running && progress && (
+          <span className="text-xs text-slate-400">{progress}</span>
+        )}
+      </div>
+
+      {result && curve && best && (
+        <div className="mt-6 grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
+          <div>
+            <h3 className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">
+              CV accuracy vs number of features
+            </h3>
+            <svg
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              className="mt-3 w-full rounded-xl border border-slate-800 bg-slate-950/60"
+            >
+              <polygon
+                points={[
+                  ...curve.points.map(
+                    (point) =>
+                      `${curve.toX(point.features.length)},${curve.toY(point.meanAccuracy + point.stdAccuracy)}`,
+                  ),
+                  ...[...curve.points]
+                    .reverse()
+                    .map(
+                      (point) =>
+                        `${curve.toX(point.features.length)},${curve.toY(point.meanAccuracy - point.stdAccuracy)}`,
+                    ),
+                ].join(" ")}
+                fill="#818cf8"
+                fillOpacity={0.15}
+              />
+              <polyline
+                points={curve.points
+                  .map(
+                    (point) =>
+                      `${curve.toX(point.features.length)},${curve.toY(point.meanAccuracy)}`,
+                  )
+                  .join(" ")}
+                fill="none"
+                stroke="#818cf8"
+                strokeWidth={2}
+              />
+              {method === "RFE" && (
+                <line
+                  x1={curve.toX(selectedCount)}
+                  x2={curve.toX(selectedCount)}
+                  y1={PADDING}
+                  y2={HEIGHT - PADDING}
+                  stroke="#94a3b8"
+                  strokeDasharray="4 3"
+                />
+              )}
+              {curve.points.map((point) => (
+                <circle
+                  key={point.features.length}
+                  cx={curve.toX(point.features.length)}
+                  cy={curve.toY(point.meanAccuracy)}
+                  r={point === best ? 5 : 3}
+                  fill={point === best ? "#34d399" : "#c7d2fe"}
+                >
+                  <title>
+                    {`${point.features.length} features: ${scoreFormatter.format(point.meanAccuracy)} ± ${scoreFormatter.format(point.stdAccuracy)}`}
+                  </title>
+                </circle>
+              ))}
+              <text x={PADDING} y={HEIGHT - 10} fill="#94a3b8" fontSize={10}>
+                1
+              </text>
+              <text
+                x={WIDTH - PADDING}
+                y={HEIGHT - 10}
+                fill="#94a3b8"
+                fontSize={10}
+                textAnchor="end"
+              >
+                {total} features
+              </text>
+              <text x={4} y={PADDING} fill="#94a3b8" fontSize={10}>
+                {scoreFormatter.format(curve.high)}
+              </text>
+              <text x={4} y={HEIGHT - PADDING} fill="#94a3b8" fontSize={10}>
+                {scoreFormatter.format(curve.low)}
+              </text>
+            </svg>
+            <p className="mt-2 text-xs text-emerald-200">
+              Best: {best.features.length} features at{" "}
+              {scoreFormatter.format(best.meanAccuracy)} ±{" "}
+              {scoreFormatter.format(best.stdAccuracy)}
+            </p>
+          </div>
+
+          <div>
+            <div className="flex flex-wrap items-end gap-3">
+              <label className="block text-sm text-slate-300">
+                <span className="font-medium text-slate-200">Rank by</span>
+                <select
+                  value={method}
+                  onChange={(event) => setMethod(event.target.value as SelectionMethod)}
+                  className={inputClassName}
+                >
+                  {(Object.keys(SELECTION_LABELS) as SelectionMethod[]).map((option) => (
+                    <option key={option} value={option}>
+                      {SELECTION_LABELS[option]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block w-24 text-sm text-slate-300">
+                <span className="font-medium text-slate-200">Keep top</span>
+                <input
+                  type="number"
+                  min="1"
+                  max={total}
+                  step="1"
+                  value={selectedCount}
+                  onChange={(event) => {
+                    const value = Math.floor(Number(event.target.value));
+                    if (Number.isFinite(value) && value >= 1) setCount(value);
+                  }}
+                  className={inputClassName}
+                />
+              </label>
+              <button
+                onClick={() =>
+                  onApply(ranked.slice(0, selectedCount).map(({ feature }) => feature))
+                }
+                disabled={running}
+                className="rounded-lg bg-emerald-500 px-3 py-2 text-xs font-semibold text-emerald-50 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400"
+              >
+                Apply selection
+              </button>
+            </div>
+
+            <div className="mt-4 max-h-72 overflow-auto">
+              <table className="w-full text-left text-xs text-slate-300">
+                <thead className="sticky top-0 bg-slate-900 text-[10px] uppercase tracking-[0.2em] text-slate-500">
+                  <tr>
+                    <th className="py-1 font-medium">#</th>
+                    <th className="py-1 font-medium">Feature</th>
+                    <th className="py-1 text-right font-medium">RFE rank</th>
+                    <th className="py-1 text-right font-medium">F-score</th>
+                    <th className="py-1 text-right font-medium">MI (nats)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ranked.map((row, index) => (
+                    <tr
+                      key={row.feature}
+                      className={`border-t border-slate-800/80 ${
+                        index < selectedCount ? "text-emerald-200" : "text-slate-500"
+                      }`}
+                    >
+                      <td className="py-1">{index + 1}</td>
+                      <td className="py-1">{row.feature}</td>
+                      <td className="py-1 text-right">{row.rfeRank}</td>
+                      <td className="py-1 text-right">
+                        {Number.isFinite(row.fScore)
+                          ? valueFormatter.format(row.fScore)
+                          : "∞"}
+                      </td>
+                      <td className="py-1 text-right">
+                        {valueFormatter.format(row.mutualInformation)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
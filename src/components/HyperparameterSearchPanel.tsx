@@ -0,0 +1,492 @@
+import { useMemo, useState } from "react";
+import { FEATURE_KERNELS, KERNELS } from "@/lib/kernels";
+import {
+  buildHeatmap,
+  findBestResult,
+  generateCandidates,
+  type LogRange,
+  type SearchResult,
+  type SearchSpace,
+} from "@/lib/search";
+import type { KernelKey } from "@/lib/svm";
+
+export interface SearchRun {
+  space: SearchSpace;
+  total: number;
+  results: SearchResult[];
+}
+
+type SortKey = "kernel" | "cost" | "gamma" | "degree" | "meanAccuracy" | "stdAccuracy";
+
+const SORT_COLUMNS: { key: SortKey; label: string }[] = [
+  { key: "kernel", label: "Kernel" },
+  { key: "cost", label: "C" },
+  { key: "gamma", label: "Gamma" },
+  { key: "degree", label: "Degree" },
+  { key: "meanAccuracy", label: "CV Accuracy" },
+  { key: "stdAccuracy", label: "Std" },
+];
+
+const scoreFormatter = new Intl.NumberFormat("en-US", {
+  style: "percent",
+  maximumFractionDigits: 1,
+});
+
+const valueFormatter = new Intl.NumberFormat("en-US", {
+  maximumSignificantDigits: 3,
+});
+
+const inputClassName =
+  "mt-1 w-full rounded-lg border border-slate-700 bg-slate-800/60 px-2 py-1.5 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500";
+
+interface HyperparameterSearchPanelProps {
+  disabled: boolean;
+  running: boolean;
+  progress: string;
+  run: SearchRun | null;
+  onRun: (space: SearchSpace) => void;
+  onCancel: () => void;
+  onApply: (result: SearchResult) => void;
+}
+
+function compareResults(
+  a: SearchResult,
+  b: SearchResult,
+  key: SortKey,
+  descending: boolean,
+) {
+  // Failed fits and unused parameters always sort last.
+  const leftMissing = a.error !== null || a[key] === null;
+  const rightMissing = b.error !== null || b[key] === null;
+  if (leftMissing || rightMissing) {
+    return Number(leftMissing) - Number(rightMissing);
+  }
+  const left = a[key];
+  const right = b[key];
+  const order =
+    typeof left === "number" && typeof right === "number"
+      ? left - right
+      : String(left).localeCompare(String(right));
+  return descending ? -order : order;
+}
+
+export default function HyperparameterSearchPanel({
+  disabled,
+  running,
+  progress,
+  run,
+  onRun,
+  onCancel,
+  onApply,
+}: HyperparameterSearchPanelProps) {
+  const [space, setSpace] = useState<SearchSpace>({
+    strategy: "GRID",
+    kernels: ["RBF"],
+    cost: { min: 0.1, max: 100, steps: 4 },
+    gamma: { min: 0.01, max: 10, steps: 4 },
+    degrees: [2, 3],
+    iterations: 20,
+    folds: 3,
+    seed: 42,
+  });
+  const [degreeText, setDegreeText] = useState("2, 3");
+  const [sortKey, setSortKey] = useState<SortKey>("meanAccuracy");
+  const [sortDescending, setSortDescending] = useState(true);
+
+  const candidateCount = useMemo(() => {
+    try {
+      return generateCandidates(space).length;
+    } catch {
+      return 0;
+    }
+  }, [space]);
+
+  const best = useMemo(
+    () => (run ? findBestResult(run.results) : null),
+    [run],
+  );
+
+  const sortedResults = useMemo(() => {
+    if (!run) return [];
+    return [...run.results].sort((a, b) =>
+      compareResults(a, b, sortKey, sortDescending),
+    );
+  }, [run, sortKey, sortDescending]);
+
+  const heatmap = useMemo(() => {
+    if (!run || !run.results.some((result) => result.kernel === "RBF")) {
+      return null;
+    }
+    return buildHeatmap(run.results, run.space);
+  }, [run]);
+
+  const heatmapScores = heatmap
+    ? heatmap.cells
+        .flat()
+        .map((cell) => cell.score)
+        .filter((score): score is number => score !== null)
+    : [];
+  const minScore = Math.min(...heatmapScores);
+  const maxScore = Math.max(...heatmapScores);
+
+  const updateRange = (
+    key: "cost" | "gamma",
+    field: keyof LogRange,
+    raw: string,
+  ) => {
+    const value = Number(raw);
+    setSpace((previous) => {
+      const fallback = previous[key][field];
+      const valid =
+        Number.isFinite(value) &&
+        value > 0 &&
+        (field !== "steps" || Number.isInteger(value));
+      return {
+        ...previous,
+        [key]: { ...previous[key], [field]: valid ? value : fallback },
+      };
+    });
+  };
+
+  const toggleKernel = (kernel: KernelKey) => {
+    setSpace((previous) => ({
+      ...previous,
+      kernels: previous.kernels.includes(kernel)
+        ? previous.kernels.filter((item) => item !== kernel)
+        : [...previous.kernels, kernel],
+    }));
+  };
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDescending((previous) => !previous);
+    } else {
+      setSortKey(key);
+      setSortDescending(key === "meanAccuracy");
+    }
+  };
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-900/80 p-6">
+      <h2 className="text-lg font-semibold text-white">Hyper-parameter Search</h2>
+      <p className="mt-2 text-sm text-slate-300">
+        Score every combination of kernel, C and gamma with stratified k-fold
+        cross-validation. C and gamma ranges are log-scaled.
+      </p>
+
+      <div className="mt-5 grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <label className="block text-sm text-slate-300">
+          <span className="font-medium text-slate-200">Strategy</span>
+          <select
+            value={space.strategy}
+            onChange={(event) =>
+              setSpace((previous) => ({
+                ...previous,
+                strategy: event.target.value as SearchSpace["strategy"],
+              }))
+            }
+            className={inputClassName}
+          >
+            <option value="GRID">Grid search</option>
+            <option value="RANDOM">Random search</option>
+          </select>
+        </label>
+
+        {(["cost", "gamma"] as const).map((key) => (
+          <fieldset key={key} className="text-sm text-slate-300">
+            <legend className="font-medium text-slate-200">
+              {key === "cost" ? "C range" : "Gamma range (RBF, Laplacian, chi-squared)"}
+            </legend>
+            <div className="grid grid-cols-3 gap-2">
+              {(["min", "max", "steps"] as const).map((field) => (
+                <label key={field} className="block text-xs text-slate-400">
+                  {field}
+                  <input
+                    type="number"
+                    step={field === "steps" ? 1 : "any"}
+                    min={field === "steps" ? 1 : undefined}
+                    value={space[key][field]}
+                    onChange={(event) =>
+                      updateRange(key, field, event.target.value)
+                    }
+                    className={inputClassName}
+                  />
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        ))}
+
+        <div className="grid grid-cols-2 gap-2 text-sm text-slate-300">
+          {space.strategy === "RANDOM" && (
+            <label className="block">
+              <span className="font-medium text-slate-200">Samples</span>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={space.iterations}
+                onChange={(event) => {
+                  const value = Math.floor(Number(event.target.value));
+                  setSpace((previous) => ({
+                    ...previous,
+                    iterations: Number.isFinite(value) && value > 0 ? value : 20,
+                  }));
+                }}
+                className={inputClassName}
+              />
+            </label>
+          )}
+          <label className="block">
+            <span className="font-medium text-slate-200">Folds</span>
+            <input
+              type="number"
+              min="2"
+              step="1"
+              value={space.folds}
+              onChange={(event) => {
+                const value = Math.floor(Number(event.target.value));
+                setSpace((previous) => ({
+                  ...previous,
+                  folds: Number.isFinite(value) && value >= 2 ? value : 3,
+                }));
+              }}
+              className={inputClassName}
+            />
+          </label>
+          <label className="block">
+            <span className="font-medium text-slate-200">Seed</span>
+            <input
+              type="number"
+              step="1"
+              value={space.seed}
+              onChange={(event) => {
+                const value = Math.floor(Number(event.target.value));
+                setSpace((previous) => ({
+                  ...previous,
+                  seed: Number.isFinite(value) ? value : 42,
+                }));
+              }}
+              className={inputClassName}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-end gap-4">
+        <div className="text-sm text-slate-300">
+          <span className="font-medium text-slate-200">Kernels</span>
+          <div className="mt-1 flex flex-wrap gap-2">
+            {FEATURE_KERNELS.map((kernel) => {
+              const selected = space.kernels.includes(kernel);
+              return (
+                <button
+                  key={kernel}
+                  onClick={() => toggleKernel(kernel)}
+                  className={`rounded-lg border px-3 py-1.5 text-xs transition focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500 ${
+                    selected
+                      ? "border-indigo-400 bg-indigo-500/20 text-indigo-100"
+                      : "border-slate-700 bg-slate-800/60 text-slate-300 hover:border-indigo-400/60"
+                  }`}
+                >
+                  {KERNELS[kernel].label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        {space.kernels.includes("POLY") && (
+          <label className="block text-sm text-slate-300">
+            <span className="font-medium text-slate-200">Poly degrees</span>
+            <input
+              type="text"
+              value={degreeText}
+              onChange={(event) => {
+                const raw = event.target.value;
+                setDegreeText(raw);
+                const degrees = raw
+                  .split(",")
+                  .map((item) => Math.floor(Number(item.trim())))
+                  .filter((value) => Number.isFinite(value) && value >= 1);
+                setSpace((previous) => ({ ...previous, degrees }));
+              }}
+              placeholder="2, 3"
+              className={inputClassName}
+            />
+          </label>
+        )}
+
+        {running ? (
+          <button
+            onClick={onCancel}
+            className="inline-flex items-center justify-center rounded-xl bg-rose-500 px-4 py-2 text-sm font-semibold text-rose-50 transition hover:bg-rose-400 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-rose-300"
+          >
+            Cancel Search
+          </button>
+        ) : (
+          <button
+            onClick={() => onRun(space)}
+            disabled={disabled || candidateCount === 0}
+            className="inline-flex items-center justify-center rounded-xl bg-emerald-500 px-4 py-2 text-sm font-semibold text-emerald-50 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-emerald-300"
+          >
+            {`Run Search (${candidateCount} fits)`}
+          </button>
+        )}
+
+        {run && (
+          <span className="text-xs text-slate-400">
+            Evaluated {run.results.length} / {run.total}
+            {running && progress && ` — ${progress}`}
+          </span>
+        )}
+      </div>
+
+      {run && best && (
+        <div className="mt-6 flex flex-wrap items-center gap-3 rounded-xl border border-emerald-700/60 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-200">
+          <span>
+            Best: {KERNELS[best.kernel].label}, C ={" "}
+            {valueFormatter.format(best.cost)}
+            {best.gamma !== null && `, gamma = ${valueFormatter.format(best.gamma)}`}
+            {best.degree !== null && `, degree = ${best.degree}`} —{" "}
+            {scoreFormatter.format(best.meanAccuracy)} ±{" "}
+            {scoreFormatter.format(best.stdAccuracy)}
+          </span>
+          <button
+            onClick={() => onApply(best)}
+            disabled={running}
+            className="rounded-lg bg-emerald-500 px-3 py-1.5 text-xs font-semibold text-emerald-50 transition hover:bg-emerald-400 disabled:cursor-not-allowed disabled:bg-slate-700 disabled:text-slate-400"
+          >
+            Apply best configuration
+          </button>
+        </div>
+      )}
+
+      {run && run.results.length > 0 && (
+        <div className="mt-6 grid gap-6 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
+          <div className="max-h-96 overflow-auto">
+            <table className="w-full text-left text-xs text-slate-300">
+              <thead className="sticky top-0 bg-slate-900 text-[10px] uppercase tracking-[0.2em] text-slate-500">
+                <tr>
+                  {SORT_COLUMNS.map((column) => (
+                    <th key={column.key} className="py-1 font-medium">
+                      <button
+                        onClick={() => handleSort(column.key)}
+                        className="uppercase tracking-[0.2em] hover:text-slate-300"
+                      >
+                        {column.label}
+                        {sortKey === column.key && (sortDescending ? " ↓" : " ↑")}
+                      </button>
+                    </th>
+                  ))}
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {sortedResults.map((result) => (
+                  <tr
+                    key={result.id}
+                    className={`border-t border-slate-800/80 ${
+                      best && result.id === best.id ? "text-emerald-200" : ""
+                    }`}
+                  >
+                    <td className="py-1">{KERNELS[result.kernel].label}</td>
+                    <td className="py-1">{valueFormatter.format(result.cost)}</td>
+                    <td className="py-1">
+                      {result.gamma === null
+                        ? "—"
+                        : valueFormatter.format(result.gamma)}
+                    </td>
+                    <td className="py-1">{result.degree ?? "—"}</td>
+                    {result.error ? (
+                      <td colSpan={2} className="py-1 text-rose-300" title={result.error}>
+                        Failed
+                      </td>
+                    ) : (
+                      <>
+                        <td className="py-1">
+                          {scoreFormatter.format(result.meanAccuracy)}
+                        </td>
+                        <td className="py-1">
+                          {scoreFormatter.format(result.stdAccuracy)}
+                        </td>
+                      </>
+                    )}
+                    <td className="py-1 text-right">
+                      {!result.error && (
+                        <button
+                          onClick={() => onApply(result)}
+                          disabled={running}
+                          className="text-indigo-300 hover:text-indigo-200 disabled:text-slate-600"
+                        >
+                          Apply
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {heatmap && (
+            <div className="overflow-x-auto">
+              <h3 className="text-xs font-semibold uppercase tracking-[0.24em] text-slate-500">
+                RBF CV Accuracy — C × Gamma
+              </h3>
+              <table className="mt-3 text-[11px] text-slate-200">
+                <tbody>
+                  {heatmap.cells
+                    .map((row, rowIndex) => ({ row, gamma: heatmap.gammas[rowIndex] }))
+                    .reverse()
+                    .map(({ row, gamma }) => (
+                      <tr key={gamma}>
+                        <th className="pr-2 text-right font-medium text-slate-400">
+                          {valueFormatter.format(gamma)}
+                        </th>
+                        {row.map((cell) => {
+                          const intensity =
+                            cell.score === null
+                              ? 0
+                              : maxScore > minScore
+                                ? (cell.score - minScore) / (maxScore - minScore)
+                                : 1;
+                          return (
+                            <td
+                              key={cell.cost}
+                              title={`C=${cell.cost}, gamma=${cell.gamma}`}
+                              className="h-9 min-w-12 rounded border border-slate-800 px-1 text-center"
+                              style={{
+                                backgroundColor:
+                                  cell.score === null
+                                    ? "transparent"
+                                    : `rgba(99, 102, 241, ${0.15 + intensity * 0.7})`,
+                              }}
+                            >
+                              {cell.score === null
+                                ? "·"
+                                : scoreFormatter.format(cell.score)}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  <tr>
+                    <th className="pr-2 text-right text-[10px] font-medium uppercase text-slate-500">
+                      γ / C
+                    </th>
+                    {heatmap.costs.map((cost) => (
+                      <th key={cost} className="pt-1 font-medium text-slate-400">
+                        {valueFormatter.format(cost)}
+                      </th>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
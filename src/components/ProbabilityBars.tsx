@@ -0,0 +1,41 @@
+const percentFormatter = new Intl.NumberFormat("en-US", {
+  style: "percent",
+  maximumFractionDigits: 1,
+});
+
+interface ProbabilityBarsProps {
+  probabilities: Record<string, number>;
+  predicted: string;
+}
+
+export default function ProbabilityBars({
+  probabilities,
+  predicted,
+}: ProbabilityBarsProps) {
+  const entries = Object.entries(probabilities).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <ul className="w-full max-w-md space-y-1.5 text-xs text-slate-300">
+      {entries.map(([label, probability]) => (
+        <li key={label} className="grid grid-cols-[6rem_1fr_3.5rem] items-center gap-2">
+          <span
+            className={`truncate ${label === predicted ? "font-semibold text-indigo-200" : ""}`}
+          >
+            {label}
+          </span>
+          <span className="h-2 overflow-hidden rounded-full bg-slate-800">
+            <span
+              className={`block h-full rounded-full ${
+                label === predicted ? "bg-indigo-400" : "bg-slate-500"
+              }`}
+              style={{ width: `${probability * 100}%` }}
+            />
+          </span>
+          <span className="text-right tabular-nums">
+            {percentFormatter.format(probability)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,128 @@
+import type { RegressionEvaluation } from "@/lib/regression";
+
+const SIZE = 320;
+const PADDING = 36;
+/** Larger evaluations are thinned so the SVG stays light. */
+const MAX_POINTS = 1500;
+
+const metricFormatter = new Intl.NumberFormat("en-US", {
+  maximumSignificantDigits: 4,
+});
+
+const tickFormatter = new Intl.NumberFormat("en-US", {
+  maximumSignificantDigits: 3,
+});
+
+interface RegressionReportPanelProps {
+  evaluation: RegressionEvaluation;
+  sourceDescription: string;
+}
+
+export default function RegressionReportPanel({
+  evaluation,
+  sourceDescription,
+}: RegressionReportPanelProps) {
+  const { actual, predicted } = evaluation;
+  const values = [...actual, ...predicted];
+  const low = values.length
+    ? values.reduce((min, value) => Math.min(min, value), Infinity)
+    : 0;
+  const high = values.length
+    ? values.reduce((max, value) => Math.max(max, value), -Infinity)
+    : 1;
+  const pad = (high - low || 1) * 0.05;
+  const min = low - pad;
+  const max = high + pad;
+
+  const plotSize = SIZE - 2 * PADDING;
+  const toX = (value: number) => PADDING + ((value - min) / (max - min)) * plotSize;
+  const toY = (value: number) =>
+    SIZE - PADDING - ((value - min) / (max - min)) * plotSize;
+  const stride = Math.max(1, Math.ceil(actual.length / MAX_POINTS));
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-900/80 p-6">
+      <h2 className="text-lg font-semibold text-white">Regression Report</h2>
+      <p className="mt-2 text-sm text-slate-300">
+        {sourceDescription}. Points on the dashed diagonal were predicted
+        exactly; vertical distance from it is the prediction error.
+      </p>
+
+      <div className="mt-6 flex flex-col gap-6 md:flex-row md:items-start">
+        <svg
+          viewBox={`0 0 ${SIZE} ${SIZE}`}
+          className="w-full max-w-sm rounded-xl border border-slate-800 bg-slate-950/60"
+        >
+          <rect
+            x={PADDING}
+            y={PADDING}
+            width={plotSize}
+            height={plotSize}
+            fill="none"
+            stroke="#334155"
+          />
+          <line
+            x1={toX(min)}
+            y1={toY(min)}
+            x2={toX(max)}
+            y2={toY(max)}
+            stroke="#94a3b8"
+            strokeDasharray="4 3"
+          />
+          {actual.map((value, index) =>
+            index % stride === 0 ? (
+              <circle
+                key={index}
+                cx={toX(value)}
+                cy={toY(predicted[index])}
+                r={2.5}
+                fill="#818cf8"
+                fillOpacity={0.7}
+              />
+            ) : null,
+          )}
+          <g className="fill-slate-500 text-[10px]">
+            <text x={PADDING} y={SIZE - 12}>
+              {tickFormatter.format(min)}
+            </text>
+            <text x={SIZE - PADDING} y={SIZE - 12} textAnchor="end">
+              {tickFormatter.format(max)}
+            </text>
+            <text x={SIZE / 2} y={SIZE - 12} textAnchor="middle">
+              Actual
+            </text>
+            <text
+              x={12}
+              y={SIZE / 2}
+              textAnchor="middle"
+              transform={`rotate(-90 12 ${SIZE / 2})`}
+            >
+              Predicted
+            </text>
+          </g>
+        </svg>
+
+        <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm text-slate-300">
+          <dt className="text-slate-400">Mean absolute error</dt>
+          <dd className="font-semibold text-emerald-300">
+            {metricFormatter.format(evaluation.mae)}
+          </dd>
+          <dt className="text-slate-400">Root mean squared error</dt>
+          <dd className="font-semibold text-emerald-300">
+            {metricFormatter.format(evaluation.rmse)}
+          </dd>
+          <dt className="text-slate-400">R²</dt>
+          <dd className="font-semibold text-emerald-300">
+            {metricFormatter.format(evaluation.r2)}
+          </dd>
+          <dt className="text-slate-400">Rows scored</dt>
+          <dd className="font-semibold text-slate-200">{actual.length}</dd>
+          <dt className="col-span-2 mt-2 text-xs text-slate-500">
+            MAE and RMSE are in the label column&apos;s units. R² of 1 is a
+            perfect fit; 0 is no better than predicting the mean.
+          </dt>
+        </dl>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,122 @@
+import type { ReliabilityDiagram } from "@/lib/calibration";
+
+const SIZE = 300;
+const PADDING = 32;
+
+const metricFormatter = new Intl.NumberFormat("en-US", {
+  minimumFractionDigits: 3,
+  maximumFractionDigits: 3,
+});
+
+interface ReliabilityDiagramPanelProps {
+  diagram: ReliabilityDiagram;
+  sourceDescription: string;
+}
+
+export default function ReliabilityDiagramPanel({
+  diagram,
+  sourceDescription,
+}: ReliabilityDiagramPanelProps) {
+  const plotSize = SIZE - 2 * PADDING;
+  const toX = (value: number) => PADDING + value * plotSize;
+  const toY = (value: number) => SIZE - PADDING - value * plotSize;
+  const maxCount = Math.max(1, ...diagram.bins.map((bin) => bin.count));
+
+  return (
+    <section className="rounded-3xl border border-slate-800 bg-slate-900/80 p-6">
+      <h2 className="text-lg font-semibold text-white">Probability Calibration</h2>
+      <p className="mt-2 text-sm text-slate-300">
+        {sourceDescription}, with each row&apos;s probabilities from sigmoids fitted
+        on the other rows&apos; margins. Bars show how often the top class was
+        correct in each confidence bin; a well-calibrated model follows the
+        diagonal.
+      </p>
+
+      <div className="mt-6 flex flex-col gap-6 md:flex-row md:items-start">
+        <svg
+          viewBox={`0 0 ${SIZE} ${SIZE}`}
+          className="w-full max-w-sm rounded-xl border border-slate-800 bg-slate-950/60"
+        >
+          {diagram.bins.map((bin) =>
+            bin.count ? (
+              <g key={bin.lower}>
+                <rect
+                  x={toX(bin.lower) + 1}
+                  y={toY(bin.accuracy)}
+                  width={plotSize / diagram.bins.length - 2}
+                  height={toY(0) - toY(bin.accuracy)}
+                  fill="#34d399"
+                  fillOpacity={0.55}
+                />
+                <rect
+                  x={toX(bin.lower) + 1}
+                  y={toY(0) - (bin.count / maxCount) * 12}
+                  width={plotSize / diagram.bins.length - 2}
+                  height={(bin.count / maxCount) * 12}
+                  fill="#818cf8"
+                  fillOpacity={0.8}
+                />
+                <circle
+                  cx={toX(bin.confidence)}
+                  cy={toY(bin.accuracy)}
+                  r={3}
+                  fill="#f8fafc"
+                />
+              </g>
+            ) : null,
+          )}
+          <line
+            x1={toX(0)}
+            y1={toY(0)}
+            x2={toX(1)}
+            y2={toY(1)}
+            stroke="#94a3b8"
+            strokeDasharray="4 3"
+          />
+          <rect
+            x={PADDING}
+            y={PADDING}
+            width={plotSize}
+            height={plotSize}
+            fill="none"
+            stroke="#334155"
+          />
+          <g className="fill-slate-500 text-[10px]">
+            <text x={PADDING} y={SIZE - 12}>
+              0
+            </text>
+            <text x={SIZE - PADDING} y={SIZE - 12} textAnchor="end">
+              1
+            </text>
+            <text x={SIZE / 2} y={SIZE - 12} textAnchor="middle">
+              Predicted probability
+            </text>
+            <text
+              x={12}
+              y={SIZE / 2}
+              textAnchor="middle"
+              transform={`rotate(-90 12 ${SIZE / 2})`}
+            >
+              Observed accuracy
+            </text>
+          </g>
+        </svg>
+
+        <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm text-slate-300">
+          <dt className="text-slate-400">Expected calibration error</dt>
+          <dd className="font-semibold text-emerald-300">
+            {metricFormatter.format(diagram.ece)}
+          </dd>
+          <dt className="text-slate-400">Brier score</dt>
+          <dd className="font-semibold text-emerald-300">
+            {metricFormatter.format(diagram.brier)}
+          </dd>
+          <dt className="col-span-2 mt-2 text-xs text-slate-500">
+            Lower is better for both. Indigo ticks along the axis show how many
+            rows fall in each bin.
+          </dt>
+        </dl>
+      </div>
+    </section>
+  );
+}
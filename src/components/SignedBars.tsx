@@ -0,0 +1,59 @@
+const valueFormatter = new Intl.NumberFormat("en-US", {
+  maximumSignificantDigits: 3,
+});
+
+export interface SignedBar {
+  label: string;
+  value: number;
+  /** Spread shown next to the value, e.g. a standard deviation. */
+  spread?: number;
+}
+
+interface SignedBarsProps {
+  bars: SignedBar[];
+}
+
+/** Horizontal bars around a zero line: positive to the right, negative left. */
+export default function SignedBars({ bars }: SignedBarsProps) {
+  const largest = Math.max(
+    1e-12,
+    ...bars.map(({ value, spread }) => Math.abs(value) + (spread ?? 0)),
+  );
+
+  return (
+    <ul className="w-full space-y-1.5 text-xs text-slate-300">
+      {bars.map(({ label, value, spread }) => {
+        const width = (Math.abs(value) / largest) * 50;
+        return (
+          <li
+            key={label}
+            className="grid grid-cols-[8rem_1fr_5.5rem] items-center gap-2"
+          >
+            <span className="truncate" title={label}>
+              {label}
+            </span>
+            <span className="relative h-2 rounded-full bg-slate-800">
+              <span className="absolute inset-y-0 left-1/2 w-px bg-slate-600" />
+              <span
+                className={`absolute inset-y-0 rounded-full ${
+                  value >= 0 ? "bg-emerald-400" : "bg-rose-400"
+                }`}
+                style={
+                  value >= 0
+                    ? { left: "50%", width: `${width}%` }
+                    : { right: "50%", width: `${width}%` }
+                }
+              />
+            </span>
+            <span className="text-right tabular-nums">
+              {valueFormatter.format(value)}
+              {spread !== undefined && (
+                <span className="text-slate-500"> ±{valueFormatter.format(spread)}</span>
+              )}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
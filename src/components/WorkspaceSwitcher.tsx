@@ -0,0 +1,112 @@
+import type { WorkspaceSummary } from "@/lib/workspaces";
+
+const dateFormatter = new Intl.DateTimeFormat("en-US", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+const buttonClassName =
+  "inline-flex items-center justify-center rounded-xl border border-slate-700 px-3 py-2 text-xs font-medium text-slate-200 transition hover:border-indigo-400 hover:text-indigo-100 disabled:cursor-not-allowed disabled:text-slate-500 disabled:hover:border-slate-700";
+
+interface WorkspaceSwitcherProps {
+  workspaces: WorkspaceSummary[];
+  /** The open workspace, or null for an unsaved session. */
+  current: WorkspaceSummary | null;
+  status: string;
+  error: string | null;
+  onOpen: (id: string | null) => void;
+  onCreate: (name: string) => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+export default function WorkspaceSwitcher({
+  workspaces,
+  current,
+  status,
+  error,
+  onOpen,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: WorkspaceSwitcherProps) {
+  const commitRename = (value: string) => {
+    const name = value.trim();
+    if (current && name && name !== current.name) onRename(name);
+  };
+
+  return (
+    <div className="mt-6 rounded-2xl border border-slate-800 bg-slate-950/40 p-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex min-w-48 flex-1 flex-col gap-1 text-xs text-slate-400">
+          <span className="font-semibold uppercase tracking-[0.24em]">
+            Workspace
+          </span>
+          <select
+            value={current?.id ?? ""}
+            onChange={(event) => onOpen(event.target.value || null)}
+            className="rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+          >
+            <option value="">Unsaved session</option>
+            {workspaces.map((workspace) => (
+              <option key={workspace.id} value={workspace.id}>
+                {workspace.name} — {workspace.rows} rows
+                {workspace.hasModel ? " · model" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {current && (
+          <label className="flex min-w-48 flex-1 flex-col gap-1 text-xs text-slate-400">
+            <span className="font-semibold uppercase tracking-[0.24em]">Name</span>
+            <input
+              key={current.id}
+              defaultValue={current.name}
+              onBlur={(event) => commitRename(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") event.currentTarget.blur();
+              }}
+              className="rounded-xl border border-slate-700 bg-slate-800/60 px-3 py-2 text-sm text-slate-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-indigo-500"
+            />
+          </label>
+        )}
+
+        <button
+          onClick={() => onCreate(`Workspace ${workspaces.length + 1}`)}
+          className={buttonClassName}
+        >
+          Save as new
+        </button>
+        <button onClick={onDuplicate} disabled={!current} className={buttonClassName}>
+          Duplicate
+        </button>
+        <button
+          onClick={() => {
+            if (current && window.confirm(`Delete workspace "${current.name}"?`)) {
+              onDelete();
+            }
+          }}
+          disabled={!current}
+          className={`${buttonClassName} hover:border-rose-400 hover:text-rose-200`}
+        >
+          Delete
+        </button>
+      </div>
+
+      <p className="mt-3 text-xs text-slate-500">
+        {error ? (
+          <span className="text-rose-300">{error}</span>
+        ) : current ? (
+          `${status || "Changes save automatically"} · last saved ${dateFormatter.format(
+            new Date(current.updatedAt),
+          )}`
+        ) : (
+          "Save the session as a workspace to keep the dataset, settings and model across reloads."
+        )}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import Papa from "papaparse";
+import { classProbabilities } from "@/lib/calibration";
+import {
+  encodeRecord,
+  isMissing,
+  isRequired,
+  type FeatureEncoder,
+} from "@/lib/encoding";
+import { predictValue, type LearningTask } from "@/lib/regression";
+import {
+  marginsByModel,
+  modelClasses,
+  scorePipeline,
+  type TrainedPipeline,
+} from "@/lib/svm";
+
+export interface BatchPrediction {
+  /** 1-based data row in the uploaded file. */
+  row: number;
+  /** Predicted class, or the predicted value as text for regression. */
+  label: string | null;
+  /**
+   * Per-class decision scores aligned with `BatchResult.classes`: raw
+   * margins for one-vs-rest, votes plus confidence for one-vs-one.
+   */
+  margins: number[];
+  /** Calibrated probabilities aligned with `classes`, when available. */
+  probabilities: number[] | null;
+  error: string | null;
+}
+
+export interface BatchResult {
+  task: LearningTask;
+  /** Empty for regression, which has no per-class scores. */
+  classes: string[];
+  predictions: BatchPrediction[];
+}
+
+export interface ColumnMapping {
+  /** Model feature column → header in the uploaded file. */
+  mapping: Record<string, string>;
+  missing: string[];
+}
+
+const PROGRESS_INTERVAL = 250;
+
+function normalizeHeader(header: string) {
+  return header.trim().toLowerCase();
+}
+
+/** Matches feature columns to file headers by name, ignoring case and padding. */
+export function mapColumns(
+  headers: string[],
+  featureColumns: string[],
+): ColumnMapping {
+  const mapping: Record<string, string> = {};
+  const missing: string[] = [];
+  for (const column of featureColumns) {
+    const match =
+      headers.find((header) => header === column) ??
+      headers.find(
+        (header) => normalizeHeader(header) === normalizeHeader(column),
+      );
+    if (match === undefined) {
+      missing.push(column);
+    } else {
+      mapping[column] = match;
+    }
+  }
+  return { mapping, missing };
+}
+
+/**
+ * Scores every row independently: a row that fails to encode is reported
+ * with its error instead of aborting the batch.
+ */
+export function scoreBatch(
+  pipeline: TrainedPipeline,
+  encoder: FeatureEncoder,
+  rows: Record<string, string>[],
+  mapping: Record<string, string>,
+  onProgress?: (row: number, rows: number) => void,
+): BatchResult {
+  const task: LearningTask = pipeline.regressor ? "REGRESSION" : "CLASSIFICATION";
+  const classes = modelClasses(pipeline.models);
+  const predictions = rows.map((row, index) => {
+    if (onProgress && index % PROGRESS_INTERVAL === 0) {
+      onProgress(index + 1, rows.length);
+    }
+    const record = Object.fromEntries(
+      encoder.columns.map(({ column }) => [
+        column,
+        mapping[column] === undefined ? undefined : row[mapping[column]],
+      ]),
+    );
+    try {
+      const vector = encodeRecord(encoder, record);
+      if (!vector) {
+        const missing = encoder.columns
+          .filter((column) => isRequired(column) && isMissing(record[column.column]))
+          .map(({ column }) => column);
+        throw new Error(`Missing value for ${missing.join(", ")}.`);
+      }
+      if (task === "REGRESSION") {
+        return {
+          row: index + 1,
+          label: String(predictValue(pipeline, vector)),
+          margins: [],
+          probabilities: null,
+          error: null,
+        };
+      }
+      const { label, scores, margins } = scorePipeline(pipeline, vector);
+      const probabilities = classProbabilities(
+        pipeline.models,
+        marginsByModel(pipeline.models, margins),
+      );
+      return {
+        row: index + 1,
+        label,
+        margins: scores,
+        probabilities: probabilities
+          ? classes.map((name) => probabilities[name])
+          : null,
+        error: null,
+      };
+    } catch (error) {
+      return {
+        row: index + 1,
+        label: null,
+        margins: [],
+        probabilities: null,
+        error: error instanceof Error ? error.message : "Row could not be scored.",
+      };
+    }
+  });
+
+  return { task, classes, predictions };
+}
+
+/**
+ * The uploaded rows with the prediction, margins, probabilities (for
+ * calibrated models) and error appended.
+ */
+export function batchResultsToCsv(
+  headers: string[],
+  rows: Record<string, string>[],
+  result: BatchResult,
+) {
+  const calibrated = result.predictions.some(
+    (prediction) => prediction.probabilities,
+  );
+  const marginFields = result.classes.map((label) => `margin_${label}`);
+  const probabilityFields = calibrated
+    ? result.classes.map((label) => `probability_${label}`)
+    : [];
+  const fields = [
+    ...headers,
+    result.task === "REGRESSION" ? "predicted_value" : "predicted_label",
+    ...marginFields,
+    ...probabilityFields,
+    "error",
+  ];
+  const data = rows.map((row, index) => {
+    const prediction = result.predictions[index];
+    return [
+      ...headers.map((header) => row[header] ?? ""),
+      prediction?.label ?? "",
+      ...result.classes.map((_, classIndex) =>
+        prediction?.margins[classIndex] ?? "",
+      ),
+      ...(calibrated
+        ? result.classes.map(
+            (_, classIndex) => prediction?.probabilities?.[classIndex] ?? "",
+          )
+        : []),
+      prediction?.error ?? "",
+    ];
+  });
+  return Papa.unparse({ fields, data });
+}
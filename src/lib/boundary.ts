@@ -0,0 +1,195 @@
+import { transformVector } from "@/lib/preprocessing";
+import {
+  classScores,
+  modelClasses,
+  modelMargins,
+  trainPipeline,
+  type TrainedPipeline,
+  type TrainingConfig,
+} from "@/lib/svm";
+
+export interface PlotBounds {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+/** A line segment as `[x1, y1, x2, y2]` in feature space. */
+export type Segment = [number, number, number, number];
+
+export interface ContourLine {
+  /** Index of the binary model the contour belongs to. */
+  model: number;
+  /** Class the model scores as positive, used to colour the contour. */
+  label: string;
+  level: number;
+  segments: Segment[];
+}
+
+export interface DecisionBoundary {
+  classes: string[];
+  bounds: PlotBounds;
+  resolution: number;
+  /** Winning class index per grid node, row-major from `yMin` upwards. */
+  regions: number[];
+  contours: ContourLine[];
+  /** Training rows that are a support vector of at least one model. */
+  supportVectors: number[];
+}
+
+/** The decision boundary and the two margin edges of each model. */
+export const MARGIN_LEVELS = [-1, 0, 1];
+
+export function plotBounds(points: number[][], padding = 0.08): PlotBounds {
+  const pad = (column: number) => {
+    const min = points.reduce((low, point) => Math.min(low, point[column]), Infinity);
+    const max = points.reduce((high, point) => Math.max(high, point[column]), -Infinity);
+    const span = max - min || 1;
+    return [min - span * padding, max + span * padding];
+  };
+  const [xMin, xMax] = pad(0);
+  const [yMin, yMax] = pad(1);
+  return { xMin, xMax, yMin, yMax };
+}
+
+function axis(min: number, max: number, resolution: number) {
+  return Array.from(
+    { length: resolution },
+    (_, index) => min + ((max - min) * index) / (resolution - 1),
+  );
+}
+
+/**
+ * Marching squares over a row-major grid. Saddle cells are split by edge
+ * order, which is ambiguous but visually indistinguishable at plot scale.
+ */
+export function contourSegments(
+  values: number[],
+  xs: number[],
+  ys: number[],
+  level: number,
+): Segment[] {
+  const width = xs.length;
+  const segments: Segment[] = [];
+  const crossing = (
+    x1: number,
+    y1: number,
+    v1: number,
+    x2: number,
+    y2: number,
+    v2: number,
+  ) => {
+    const t = (level - v1) / (v2 - v1);
+    return [x1 + (x2 - x1) * t, y1 + (y2 - y1) * t];
+  };
+
+  for (let row = 0; row < ys.length - 1; row += 1) {
+    for (let column = 0; column < width - 1; column += 1) {
+      const corners = [
+        [xs[column], ys[row], values[row * width + column]],
+        [xs[column + 1], ys[row], values[row * width + column + 1]],
+        [xs[column + 1], ys[row + 1], values[(row + 1) * width + column + 1]],
+        [xs[column], ys[row + 1], values[(row + 1) * width + column]],
+      ];
+      const points: number[][] = [];
+      for (let edge = 0; edge < 4; edge += 1) {
+        const [x1, y1, v1] = corners[edge];
+        const [x2, y2, v2] = corners[(edge + 1) % 4];
+        if (v1 - level < 0 !== v2 - level < 0) {
+          points.push(crossing(x1, y1, v1, x2, y2, v2));
+        }
+      }
+      for (let index = 0; index + 1 < points.length; index += 2) {
+        const [x1, y1] = points[index];
+        const [x2, y2] = points[index + 1];
+        segments.push([x1, y1, x2, y2]);
+      }
+    }
+  }
+  return segments;
+}
+
+/**
+ * Maps each model's support vectors back to rows of the full training set.
+ * One-vs-one models were trained on their two classes' rows only.
+ */
+function supportVectorRows(pipeline: TrainedPipeline, labels: string[]) {
+  const rows = new Set<number>();
+  for (const model of pipeline.models) {
+    const trainingRows =
+      model.opponent === undefined
+        ? labels.map((_, row) => row)
+        : labels
+            .map((label, row) =>
+              label === model.label || label === model.opponent ? row : -1,
+            )
+            .filter((row) => row >= 0);
+    for (const index of model.svm.supportVectors()) {
+      rows.add(trainingRows[index]);
+    }
+  }
+  return Array.from(rows).sort((a, b) => a - b);
+}
+
+/** Evaluates every model's margin on a grid spanning `points`. */
+export function computeDecisionBoundary(
+  pipeline: TrainedPipeline,
+  points: number[][],
+  labels: string[],
+  resolution: number,
+): DecisionBoundary {
+  const bounds = plotBounds(points);
+  const xs = axis(bounds.xMin, bounds.xMax, resolution);
+  const ys = axis(bounds.yMin, bounds.yMax, resolution);
+  const margins = pipeline.models.map(() => [] as number[]);
+  const regions: number[] = [];
+
+  for (const y of ys) {
+    for (const x of xs) {
+      const values = modelMargins(
+        pipeline.models,
+        transformVector(pipeline.preprocessor, [x, y]),
+      );
+      values.forEach((value, index) => margins[index].push(value));
+      const scores = classScores(pipeline.models, values);
+      regions.push(
+        scores.reduce(
+          (best, score, index) => (score > scores[best] ? index : best),
+          0,
+        ),
+      );
+    }
+  }
+
+  return {
+    classes: modelClasses(pipeline.models),
+    bounds,
+    resolution,
+    regions,
+    contours: margins.flatMap((values, model) =>
+      MARGIN_LEVELS.map((level) => ({
+        model,
+        label: pipeline.models[model].label,
+        level,
+        segments: contourSegments(values, xs, ys, level),
+      })),
+    ),
+    supportVectors: supportVectorRows(pipeline, labels),
+  };
+}
+
+/** Fits a model on exactly two feature columns and maps its decision surface. */
+export function trainDecisionBoundary(
+  points: number[][],
+  labels: string[],
+  config: TrainingConfig,
+  resolution: number,
+) {
+  return computeDecisionBoundary(
+    trainPipeline(points, labels, config),
+    points,
+    labels,
+    resolution,
+  );
+}
@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { classProbabilities } from "@/lib/calibration";
+import { createSeededRandom, trainAndEvaluate } from "@/lib/evaluation";
+
+/** Two noisy classes along the first column, so margins overlap. */
+function overlapping(count: number) {
+  const random = createSeededRandom(4);
+  const features: number[][] = [];
+  const labels: string[] = [];
+  for (let index = 0; index < count; index += 1) {
+    const positive = index % 2 === 0;
+    features.push([(positive ? 0.6 : 0) + random(), random()]);
+    labels.push(positive ? "yes" : "no");
+  }
+  return { features, labels };
+}
+
+describe("probability calibration", () => {
+  it("cross-fits the probabilities behind the reliability diagram", () => {
+    const { features, labels } = overlapping(100);
+    const { pipeline, evaluation } = trainAndEvaluate(
+      features,
+      labels,
+      {
+        kernel: "LINEAR",
+        cost: 1,
+        gamma: null,
+        degree: 3,
+        multiclass: "OVR",
+        scaling: ["STANDARD", "STANDARD"],
+        random: createSeededRandom(1),
+      },
+      { mode: "KFOLD", testRatio: 0.25, folds: 4, seed: 2 },
+    );
+    const probabilities = evaluation.probabilities ?? [];
+    assert.equal(probabilities.length, evaluation.actual.length);
+    for (const row of probabilities) {
+      const total = Object.values(row).reduce((sum, value) => sum + value, 0);
+      assert.ok(Math.abs(total - 1) < 1e-9);
+    }
+    // The deployed sigmoids see every margin; the diagram's rows never see their own.
+    const inSample = evaluation.margins.map((margins) =>
+      classProbabilities(pipeline.models, margins),
+    );
+    assert.notDeepEqual(probabilities, inSample);
+  });
+});
@@ -0,0 +1,280 @@
+import {
+  modelClasses,
+  modelKey,
+  type TrainedModel,
+  type TrainedPipeline,
+} from "@/lib/svm";
+
+/** Platt sigmoid: `P(positive | margin) = 1 / (1 + exp(a * margin + b))`. */
+export interface PlattParameters {
+  a: number;
+  b: number;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  /** Mean top-class probability of the rows in the bin. */
+  confidence: number;
+  /** Share of those rows whose top class was correct. */
+  accuracy: number;
+  count: number;
+}
+
+export interface ReliabilityDiagram {
+  bins: ReliabilityBin[];
+  /** Expected calibration error: count-weighted |accuracy - confidence|. */
+  ece: number;
+  /** Multi-class Brier score, averaged over rows. */
+  brier: number;
+}
+
+function sigmoidLoss(fApB: number, target: number) {
+  return fApB >= 0
+    ? target * fApB + Math.log1p(Math.exp(-fApB))
+    : (target - 1) * fApB + Math.log1p(Math.exp(fApB));
+}
+
+/**
+ * Fits Platt's sigmoid with the Newton method and regularized targets of
+ * Lin, Lin & Weng (2007), which stays stable on separable data.
+ */
+export function fitPlatt(margins: number[], positives: boolean[]): PlattParameters {
+  const positiveCount = positives.filter(Boolean).length;
+  const negativeCount = positives.length - positiveCount;
+  const highTarget = (positiveCount + 1) / (positiveCount + 2);
+  const lowTarget = 1 / (negativeCount + 2);
+  const targets = positives.map((positive) => (positive ? highTarget : lowTarget));
+
+  let a = 0;
+  let b = Math.log((negativeCount + 1) / (positiveCount + 1));
+  const loss = (slope: number, intercept: number) =>
+    margins.reduce(
+      (sum, margin, index) =>
+        sum + sigmoidLoss(margin * slope + intercept, targets[index]),
+      0,
+    );
+  let value = loss(a, b);
+
+  for (let iteration = 0; iteration < 100; iteration += 1) {
+    let h11 = 1e-12;
+    let h22 = 1e-12;
+    let h21 = 0;
+    let g1 = 0;
+    let g2 = 0;
+    margins.forEach((margin, index) => {
+      const p = plattProbability({ a, b }, margin);
+      const d2 = p * (1 - p);
+      h11 += margin * margin * d2;
+      h22 += d2;
+      h21 += margin * d2;
+      const d1 = targets[index] - p;
+      g1 += margin * d1;
+      g2 += d1;
+    });
+    if (Math.abs(g1) < 1e-5 && Math.abs(g2) < 1e-5) break;
+
+    const det = h11 * h22 - h21 * h21;
+    const deltaA = -(h22 * g1 - h21 * g2) / det;
+    const deltaB = -(-h21 * g1 + h11 * g2) / det;
+    const slope = g1 * deltaA + g2 * deltaB;
+
+    let step = 1;
+    while (step >= 1e-10) {
+      const nextA = a + step * deltaA;
+      const nextB = b + step * deltaB;
+      const nextValue = loss(nextA, nextB);
+      if (nextValue < value + 1e-4 * step * slope) {
+        a = nextA;
+        b = nextB;
+        value = nextValue;
+        break;
+      }
+      step /= 2;
+    }
+    if (step < 1e-10) break;
+  }
+
+  return { a, b };
+}
+
+export function plattProbability(platt: PlattParameters, margin: number) {
+  const fApB = margin * platt.a + platt.b;
+  return fApB >= 0
+    ? Math.exp(-fApB) / (1 + Math.exp(-fApB))
+    : 1 / (1 + Math.exp(fApB));
+}
+
+/**
+ * Fits one sigmoid per binary model on out-of-sample margins keyed by
+ * `modelKey`. Rows where a model has no margin (its class was absent from
+ * that fold) are skipped, as are one-vs-one rows from neither of its classes.
+ */
+export function calibratePipeline(
+  pipeline: TrainedPipeline,
+  margins: Record<string, number>[],
+  actual: string[],
+): TrainedPipeline {
+  return {
+    ...pipeline,
+    models: pipeline.models.map((model) => {
+      const key = modelKey(model);
+      const rows = margins
+        .map((row, index) => ({ margin: row[key], label: actual[index] }))
+        .filter(
+          ({ margin, label }) =>
+            Number.isFinite(margin) &&
+            (model.opponent === undefined ||
+              label === model.label ||
+              label === model.opponent),
+        );
+      if (!rows.length) return model;
+      return {
+        ...model,
+        platt: fitPlatt(
+          rows.map(({ margin }) => margin),
+          rows.map(({ label }) => label === model.label),
+        ),
+      };
+    }),
+  };
+}
+
+export function isCalibrated(models: Pick<TrainedModel, "platt">[]) {
+  return models.length > 0 && models.every((model) => model.platt);
+}
+
+type CalibratedModel = Pick<TrainedModel, "label" | "opponent" | "platt">;
+
+/**
+ * Couples pairwise probabilities `pairwise[i][j] = P(i | i or j)` into class
+ * probabilities (Wu, Lin & Weng 2004, method 2, as used by libsvm).
+ */
+function couplePairwise(pairwise: number[][]) {
+  const count = pairwise.length;
+  const q = pairwise.map((row, t) =>
+    row.map((_, j) =>
+      t === j
+        ? pairwise.reduce(
+            (sum, other, k) => (k === t ? sum : sum + other[t] ** 2),
+            0,
+          )
+        : -pairwise[j][t] * pairwise[t][j],
+    ),
+  );
+  const p = pairwise.map(() => 1 / count);
+  const qp = p.map(() => 0);
+
+  for (let iteration = 0; iteration < Math.max(100, count); iteration += 1) {
+    let pqp = 0;
+    for (let t = 0; t < count; t += 1) {
+      qp[t] = q[t].reduce((sum, value, j) => sum + value * p[j], 0);
+      pqp += p[t] * qp[t];
+    }
+    if (Math.max(...qp.map((value) => Math.abs(value - pqp))) < 0.005 / count) {
+      break;
+    }
+    for (let t = 0; t < count; t += 1) {
+      const diff = (-qp[t] + pqp) / q[t][t];
+      p[t] += diff;
+      pqp = (pqp + diff * (diff * q[t][t] + 2 * qp[t])) / (1 + diff) / (1 + diff);
+      for (let j = 0; j < count; j += 1) {
+        qp[j] = (qp[j] + diff * q[t][j]) / (1 + diff);
+        p[j] /= 1 + diff;
+      }
+    }
+  }
+  return p;
+}
+
+/**
+ * Class probabilities from model margins keyed by `modelKey`, or null when
+ * the models are not calibrated. One-vs-rest sigmoids are normalized to sum
+ * to one; one-vs-one pairwise probabilities are coupled.
+ */
+export function classProbabilities(
+  models: CalibratedModel[],
+  margins: Record<string, number>,
+): Record<string, number> | null {
+  if (!isCalibrated(models)) return null;
+  const classes = modelClasses(models);
+  const probability = (model: CalibratedModel) => {
+    const margin = margins[modelKey(model)];
+    return model.platt && Number.isFinite(margin)
+      ? plattProbability(model.platt, margin)
+      : 0.5;
+  };
+
+  if (models.some((model) => model.opponent !== undefined)) {
+    const pairwise = classes.map(() => classes.map(() => 0.5));
+    for (const model of models) {
+      const i = classes.indexOf(model.label);
+      const j = classes.indexOf(model.opponent ?? "");
+      const value = Math.min(Math.max(probability(model), 1e-7), 1 - 1e-7);
+      pairwise[i][j] = value;
+      pairwise[j][i] = 1 - value;
+    }
+    const coupled = couplePairwise(pairwise);
+    return Object.fromEntries(classes.map((label, index) => [label, coupled[index]]));
+  }
+
+  const raw = models.map(probability);
+  const total = raw.reduce((sum, value) => sum + value, 0);
+  return Object.fromEntries(
+    models.map((model, index) => [
+      model.label,
+      total > 0 ? raw[index] / total : 1 / models.length,
+    ]),
+  );
+}
+
+/** Bins rows by top-class probability and compares it with accuracy. */
+export function buildReliabilityDiagram(
+  probabilities: Record<string, number>[],
+  actual: string[],
+  binCount = 10,
+): ReliabilityDiagram {
+  const sums = Array.from({ length: binCount }, () => ({
+    confidence: 0,
+    correct: 0,
+    count: 0,
+  }));
+  let brier = 0;
+
+  probabilities.forEach((row, index) => {
+    let topLabel = "";
+    let topProbability = -1;
+    for (const [label, probability] of Object.entries(row)) {
+      brier += (probability - (label === actual[index] ? 1 : 0)) ** 2;
+      if (probability > topProbability) {
+        topProbability = probability;
+        topLabel = label;
+      }
+    }
+    if (!(actual[index] in row)) brier += 1;
+    const bin = sums[Math.min(binCount - 1, Math.floor(topProbability * binCount))];
+    bin.confidence += topProbability;
+    bin.correct += topLabel === actual[index] ? 1 : 0;
+    bin.count += 1;
+  });
+
+  const total = probabilities.length;
+  const bins = sums.map((bin, index) => ({
+    lower: index / binCount,
+    upper: (index + 1) / binCount,
+    confidence: bin.count ? bin.confidence / bin.count : 0,
+    accuracy: bin.count ? bin.correct / bin.count : 0,
+    count: bin.count,
+  }));
+  return {
+    bins,
+    ece: total
+      ? bins.reduce(
+          (sum, bin) =>
+            sum + (bin.count / total) * Math.abs(bin.accuracy - bin.confidence),
+          0,
+        )
+      : 0,
+    brier: total ? brier / total : 0,
+  };
+}
@@ -0,0 +1,195 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import Papa from "papaparse";
+import { Classifier } from "@/lib/classifier";
+import { encodeDataset, fitFeatureEncoder } from "@/lib/encoding";
+import { createSeededRandom } from "@/lib/evaluation";
+import { precomputedFeatures } from "@/lib/kernels";
+import { IRIS_SAMPLE } from "@/lib/sample-data";
+
+function loadIris() {
+  const { data, meta } = Papa.parse<Record<string, string>>(IRIS_SAMPLE, {
+    header: true,
+    skipEmptyLines: true,
+  });
+  const featureColumns = (meta.fields ?? []).filter(
+    (column) => column !== "species",
+  );
+  const encoder = fitFeatureEncoder(data, featureColumns, {
+    encoding: "ONE_HOT",
+    missing: "DROP",
+    constant: "0",
+  });
+  return encodeDataset(encoder, data, "species");
+}
+
+/** Two Gaussian-ish blobs separated along both axes. */
+function blobs(count: number, seed: number) {
+  const random = createSeededRandom(seed);
+  const features: number[][] = [];
+  const labels: string[] = [];
+  for (let index = 0; index < count; index += 1) {
+    const positive = index % 2 === 0;
+    const offset = positive ? 3 : 0;
+    features.push([offset + random(), offset + random()]);
+    labels.push(positive ? "yes" : "no");
+  }
+  return { features, labels };
+}
+
+describe("Classifier on the Iris sample", () => {
+  const { features, labels } = loadIris();
+
+  // Three rows per class are too few for one-vs-rest at C = 1: the middle
+  // class loses to "rest" everywhere.
+  for (const multiclass of ["OVR", "OVO"] as const) {
+    it(`fits every training row with ${multiclass}`, () => {
+      const classifier = new Classifier({ multiclass, cost: 10 }).fit(
+        features,
+        labels,
+      );
+      assert.deepEqual(classifier.classes, ["setosa", "versicolor", "virginica"]);
+      assert.deepEqual(classifier.predict(features), labels);
+    });
+  }
+
+  it("returns one decision score per class, highest for the prediction", () => {
+    const classifier = new Classifier({ kernel: "LINEAR" }).fit(features, labels);
+    const scores = classifier.decisionFunction(features);
+    const predicted = classifier.predict(features);
+    scores.forEach((row, index) => {
+      assert.equal(row.length, 3);
+      const best = row.indexOf(Math.max(...row));
+      assert.equal(classifier.classes[best], predicted[index]);
+    });
+  });
+});
+
+describe("Classifier on separable data", () => {
+  const train = blobs(60, 1);
+  const test = blobs(40, 2);
+
+  const kernels = ["LINEAR", "RBF", "POLY", "LAPLACIAN", "CHI_SQUARED"] as const;
+  for (const kernel of kernels) {
+    it(`generalizes with the ${kernel} kernel`, () => {
+      const classifier = new Classifier({ kernel }).fit(train.features, train.labels);
+      const predicted = classifier.predict(test.features);
+      const correct = predicted.filter((label, index) => label === test.labels[index]);
+      assert.ok(correct.length / test.labels.length >= 0.95);
+    });
+  }
+
+  it("trains and scores on a precomputed Gram matrix", () => {
+    const all = [...train.features, ...test.features];
+    const gram = all.map((x) =>
+      all.map((y) =>
+        Math.exp(-x.reduce((sum, value, index) => sum + (value - y[index]) ** 2, 0)),
+      ),
+    );
+    const trainRows = train.features.map((_, index) => index);
+    const testRows = test.features.map((_, index) => train.features.length + index);
+    const classifier = new Classifier({ kernel: "PRECOMPUTED", scaling: "NONE" }).fit(
+      precomputedFeatures(gram, trainRows),
+      train.labels,
+    );
+    const testFeatures = precomputedFeatures(gram, testRows);
+    const predicted = classifier.predict(testFeatures);
+    const correct = predicted.filter((label, index) => label === test.labels[index]);
+    assert.ok(correct.length / test.labels.length >= 0.95);
+
+    const restored = Classifier.deserialize(
+      JSON.parse(JSON.stringify(classifier.serialize())),
+    );
+    assert.deepEqual(restored.predict(testFeatures), predicted);
+  });
+
+  it("accepts numeric labels", () => {
+    const classifier = new Classifier().fit(
+      train.features,
+      train.labels.map((label) => (label === "yes" ? 1 : 0)),
+    );
+    assert.deepEqual([...classifier.classes].sort(), ["0", "1"]);
+  });
+
+  it("is reproducible for a fixed seed", () => {
+    const first = new Classifier({ seed: 7 }).fit(train.features, train.labels);
+    const second = new Classifier({ seed: 7 }).fit(train.features, train.labels);
+    assert.deepEqual(
+      first.decisionFunction(test.features),
+      second.decisionFunction(test.features),
+    );
+  });
+
+  it("round-trips through JSON serialization", () => {
+    const classifier = new Classifier({ multiclass: "OVO", kernel: "RBF", gamma: 0.5 }).fit(
+      train.features,
+      train.labels,
+    );
+    const restored = Classifier.deserialize(
+      JSON.parse(JSON.stringify(classifier.serialize())),
+    );
+    assert.deepEqual(restored.parameters, classifier.parameters);
+    assert.deepEqual(restored.predict(test.features), classifier.predict(test.features));
+    assert.deepEqual(
+      restored.decisionFunction(test.features),
+      classifier.decisionFunction(test.features),
+    );
+  });
+});
+
+describe("Classifier edge cases", () => {
+  it("rejects a single class", () => {
+    assert.throws(
+      () => new Classifier().fit([[1], [2], [3]], ["a", "a", "a"]),
+      /two unique labels/,
+    );
+  });
+
+  it("rejects NaN values with their position", () => {
+    assert.throws(
+      () => new Classifier().fit([[1, 2], [NaN, 3]], ["a", "b"]),
+      /Row 1, feature 0 is NaN/,
+    );
+  });
+
+  it("rejects zero features", () => {
+    assert.throws(
+      () => new Classifier().fit([[], []], ["a", "b"]),
+      /At least one feature/,
+    );
+  });
+
+  it("rejects empty, ragged or mismatched training data", () => {
+    assert.throws(() => new Classifier().fit([], []), /No training rows/);
+    assert.throws(
+      () => new Classifier().fit([[1, 2], [3]], ["a", "b"]),
+      /Row 1 has 1 features; expected 2/,
+    );
+    assert.throws(
+      () => new Classifier().fit([[1], [2]], ["a"]),
+      /2 feature rows but 1 labels/,
+    );
+  });
+
+  it("requires fit before scoring and checks the input width", () => {
+    const classifier = new Classifier();
+    assert.equal(classifier.fitted, false);
+    assert.throws(() => classifier.predict([[1]]), /not fitted/);
+    assert.throws(() => classifier.serialize(), /not fitted/);
+
+    classifier.fit([[0], [1], [5], [6]], ["low", "low", "high", "high"]);
+    assert.throws(() => classifier.predict([[1, 2]]), /expected 1/);
+    assert.throws(() => classifier.predict([[Infinity]]), /feature 0 is Infinity/);
+  });
+
+  it("rejects data that is not a serialized classifier", () => {
+    assert.throws(
+      () =>
+        Classifier.deserialize({
+          ...new Classifier().fit([[0], [1]], ["a", "b"]).serialize(),
+          format: "other" as "svm-playground-classifier",
+        }),
+      /not a serialized classifier/,
+    );
+  });
+});
@@ -0,0 +1,162 @@
+import { createSeededRandom } from "@/lib/evaluation";
+import type { ImbalanceSettings } from "@/lib/imbalance";
+import type { ScalingMethod } from "@/lib/preprocessing";
+import {
+  deserializePipeline,
+  modelClasses,
+  scorePipeline,
+  serializePipeline,
+  trainPipeline,
+  type ModelParameters,
+  type SerializedPipeline,
+  type TrainedPipeline,
+} from "@/lib/svm";
+
+export interface ClassifierOptions extends Partial<ModelParameters> {
+  /** Applied to every feature column; defaults to min-max. */
+  scaling?: ScalingMethod;
+  imbalance?: ImbalanceSettings;
+  /** Seeds SMO's random pass order so fits are reproducible. */
+  seed?: number;
+}
+
+export const CLASSIFIER_FORMAT = "svm-playground-classifier";
+
+export interface SerializedClassifier {
+  format: typeof CLASSIFIER_FORMAT;
+  parameters: ModelParameters;
+  scaling: ScalingMethod;
+  dimension: number;
+  pipeline: SerializedPipeline;
+}
+
+const DEFAULT_PARAMETERS: ModelParameters = {
+  kernel: "RBF",
+  cost: 1,
+  gamma: null,
+  degree: 3,
+  multiclass: "OVR",
+};
+
+/** Rejects ragged rows and non-finite values with the offending position. */
+function validateFeatures(features: number[][], dimension?: number) {
+  const expected = dimension ?? features[0]?.length ?? 0;
+  features.forEach((row, index) => {
+    if (row.length !== expected) {
+      throw new Error(
+        `Row ${index} has ${row.length} features; expected ${expected}.`,
+      );
+    }
+    const column = row.findIndex((value) => !Number.isFinite(value));
+    if (column >= 0) {
+      throw new Error(
+        `Row ${index}, feature ${column} is ${row[column]}; impute or drop missing values first.`,
+      );
+    }
+  });
+}
+
+/**
+ * Framework-agnostic wrapper around the scaling + multi-class SVM pipeline
+ * the playground trains, for use outside React (workers, API routes, tests).
+ */
+export class Classifier {
+  readonly parameters: ModelParameters;
+  readonly scaling: ScalingMethod;
+  private readonly imbalance?: ImbalanceSettings;
+  private readonly seed: number;
+  private pipeline: TrainedPipeline | null = null;
+  private dimension = 0;
+
+  constructor(options: ClassifierOptions = {}) {
+    const { scaling, imbalance, seed, ...parameters } = options;
+    this.parameters = { ...DEFAULT_PARAMETERS, ...parameters };
+    this.scaling = scaling ?? "MINMAX";
+    this.imbalance = imbalance;
+    this.seed = seed ?? 42;
+  }
+
+  static deserialize(data: SerializedClassifier) {
+    if (data.format !== CLASSIFIER_FORMAT) {
+      throw new Error("Data is not a serialized classifier.");
+    }
+    const classifier = new Classifier({
+      ...data.parameters,
+      scaling: data.scaling,
+    });
+    classifier.pipeline = deserializePipeline({
+      ...data.pipeline,
+      parameters: classifier.parameters,
+    });
+    classifier.dimension = data.dimension;
+    return classifier;
+  }
+
+  get fitted() {
+    return this.pipeline !== null;
+  }
+
+  /** Class labels in the order of `decisionFunction` columns. */
+  get classes() {
+    return modelClasses(this.requirePipeline().models);
+  }
+
+  fit(features: number[][], labels: (string | number)[]) {
+    if (!features.length) {
+      throw new Error("No training rows provided.");
+    }
+    if (features.length !== labels.length) {
+      throw new Error(
+        `Got ${features.length} feature rows but ${labels.length} labels.`,
+      );
+    }
+    validateFeatures(features);
+    const dimension = features[0].length;
+    if (dimension === 0) {
+      throw new Error("At least one feature is required.");
+    }
+    this.pipeline = trainPipeline(features, labels.map(String), {
+      ...this.parameters,
+      scaling: Array.from({ length: dimension }, () => this.scaling),
+      random: createSeededRandom(this.seed),
+      imbalance: this.imbalance,
+    });
+    this.dimension = dimension;
+    return this;
+  }
+
+  predict(features: number[][]) {
+    return this.score(features).map(({ label }) => label);
+  }
+
+  /**
+   * Per-class decision scores aligned with `classes`: raw margins for
+   * one-vs-rest, votes plus confidence for one-vs-one.
+   */
+  decisionFunction(features: number[][]) {
+    return this.score(features).map(({ scores }) => scores);
+  }
+
+  serialize(): SerializedClassifier {
+    return {
+      format: CLASSIFIER_FORMAT,
+      parameters: this.parameters,
+      scaling: this.scaling,
+      dimension: this.dimension,
+      pipeline: serializePipeline(this.requirePipeline()),
+    };
+  }
+
+  private requirePipeline() {
+    if (!this.pipeline) {
+      throw new Error("Classifier is not fitted; call fit() first.");
+    }
+    return this.pipeline;
+  }
+
+  private score(features: number[][]) {
+    const pipeline = this.requirePipeline();
+    validateFeatures(features, this.dimension);
+    return features.map((vector) => scorePipeline(pipeline, vector));
+  }
+}
@@ -0,0 +1,161 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  convergenceWarning,
+  diagnoseLearningCurve,
+  learningCurve,
+  validationCurve,
+  type CurvePoint,
+  type CurveSettings,
+} from "@/lib/diagnostics";
+import { createSeededRandom } from "@/lib/evaluation";
+import type { ScalingMethod } from "@/lib/preprocessing";
+import { logSpace } from "@/lib/search";
+import {
+  deserializePipeline,
+  predictPipeline,
+  serializePipeline,
+  trainPipeline,
+  type ModelParameters,
+} from "@/lib/svm";
+
+/** Two overlapping blobs, so neither curve is trivially perfect. */
+function blobs(count: number) {
+  const random = createSeededRandom(11);
+  const features: number[][] = [];
+  const labels: string[] = [];
+  for (let index = 0; index < count; index += 1) {
+    const positive = index % 2 === 0;
+    features.push([(positive ? 1.5 : 0) + random() * 2, random() * 2]);
+    labels.push(positive ? "yes" : "no");
+  }
+  return { features, labels };
+}
+
+const { features, labels } = blobs(60);
+const parameters: ModelParameters = {
+  kernel: "RBF",
+  cost: 1,
+  gamma: null,
+  degree: 3,
+  multiclass: "OVR",
+};
+const scaling: ScalingMethod[] = ["STANDARD", "STANDARD"];
+const settings: CurveSettings = {
+  kind: "LEARNING",
+  sizes: 4,
+  parameter: "cost",
+  range: { min: 0.01, max: 100, steps: 3 },
+  folds: 3,
+  seed: 5,
+};
+
+describe("training diagnostics", () => {
+  it("keeps models that hit the iteration limit and flags them", () => {
+    for (const kernel of ["RBF", "LINEAR"] as const) {
+      for (const maxIterations of [1, 2, 40]) {
+        const pipeline = trainPipeline(features, labels, {
+          ...parameters,
+          kernel,
+          solver: { tol: 1e-4, maxPasses: 10, maxIterations },
+          scaling,
+          random: createSeededRandom(1),
+        });
+        for (const model of pipeline.models) {
+          assert.deepEqual(
+            { iterations: model.stats?.iterations, converged: model.stats?.converged },
+            { iterations: maxIterations, converged: false },
+          );
+          assert.ok((model.stats?.tol ?? 0) > 1e-4);
+        }
+        assert.ok(["yes", "no"].includes(predictPipeline(pipeline, [2, 1])));
+        assert.match(convergenceWarning(pipeline) ?? "", /2 of 2 binary models/);
+      }
+    }
+
+    const stalled = trainPipeline(features, labels, {
+      ...parameters,
+      kernel: "LINEAR",
+      solver: { tol: 1e-4, maxPasses: 10, maxIterations: 40 },
+      scaling,
+      random: createSeededRandom(1),
+    });
+    const restored = deserializePipeline(
+      JSON.parse(JSON.stringify(serializePipeline(stalled))),
+    );
+    assert.deepEqual(restored.models[0].stats, stalled.models[0].stats);
+
+    const converged = trainPipeline(features, labels, {
+      ...parameters,
+      scaling,
+      random: createSeededRandom(1),
+    });
+    assert.ok(converged.models.every((model) => model.stats?.converged));
+    assert.equal(convergenceWarning(converged), null);
+  });
+
+  it("builds learning and validation curves on shared folds", () => {
+    const config = { ...parameters, scaling };
+    const progress: number[] = [];
+    const learning = learningCurve(features, labels, config, settings, ({ point }) =>
+      progress.push(point),
+    );
+    assert.equal(learning.points.length, 4);
+    assert.deepEqual(
+      learning.points.map((point) => point.value),
+      [10, 20, 30, 40],
+    );
+    assert.deepEqual([...new Set(progress)], [1, 2, 3, 4]);
+    for (const point of learning.points) {
+      assert.ok(point.trainScore >= 0 && point.trainScore <= 1);
+      assert.ok(point.validationScore >= 0 && point.validationScore <= 1);
+    }
+
+    const validation = validationCurve(
+      features,
+      labels,
+      config,
+      { ...settings, kind: "VALIDATION" },
+    );
+    assert.deepEqual(
+      validation.points.map((point) => point.value),
+      logSpace(settings.range),
+    );
+    // A tiny C underfits the training rows; a large one fits them closely.
+    assert.ok(validation.points[2].trainScore > validation.points[0].trainScore);
+
+    assert.throws(
+      () =>
+        validationCurve(
+          features,
+          labels,
+          { ...config, kernel: "LINEAR" },
+          { ...settings, kind: "VALIDATION", parameter: "gamma" },
+        ),
+      /no gamma/,
+    );
+  });
+
+  it("reads bias, variance and data shortage off a learning curve", () => {
+    const point = (value: number, trainScore: number, validationScore: number): CurvePoint => ({
+      value,
+      trainScore,
+      trainStd: 0,
+      validationScore,
+      validationStd: 0,
+      unconverged: 0,
+    });
+    assert.match(
+      diagnoseLearningCurve([point(10, 1, 0.6), point(20, 1, 0.7)]).join(" "),
+      /High variance.*still rising/,
+    );
+    assert.match(
+      diagnoseLearningCurve([point(10, 0.7, 0.68), point(20, 0.7, 0.69)])[0],
+      /High bias/,
+    );
+    assert.match(
+      diagnoseLearningCurve([point(10, 0.97, 0.95), point(20, 0.97, 0.96)])[0],
+      /converged/,
+    );
+  });
+});
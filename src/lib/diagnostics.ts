@@ -0,0 +1,289 @@
+import {
+  createSeededRandom,
+  pick,
+  stratifiedKFold,
+  stratifiedSample,
+  withProgress,
+  type TrainingProgress,
+} from "@/lib/evaluation";
+import { KERNELS } from "@/lib/kernels";
+import { svrConverged } from "@/lib/regression";
+import { logSpace, type LogRange } from "@/lib/search";
+import {
+  modelKey,
+  predictPipeline,
+  trainPipeline,
+  unconvergedModels,
+  type TrainedPipeline,
+  type TrainingConfig,
+} from "@/lib/svm";
+
+export type CurveKind = "LEARNING" | "VALIDATION";
+export type CurveParameter = "cost" | "gamma";
+
+export const CURVE_LABELS: Record<CurveKind, string> = {
+  LEARNING: "Learning curve (training-set size)",
+  VALIDATION: "Validation curve (parameter sweep)",
+};
+
+export const CURVE_PARAMETER_LABELS: Record<CurveParameter, string> = {
+  cost: "C",
+  gamma: "Gamma",
+};
+
+export interface CurveSettings {
+  kind: CurveKind;
+  /** Learning-curve points, evenly spaced up to every training row. */
+  sizes: number;
+  /** Swept on a log scale by validation curves. */
+  parameter: CurveParameter;
+  range: LogRange;
+  folds: number;
+  seed: number;
+}
+
+export interface CurvePoint {
+  /** Mean training rows per fold, or the swept parameter value. */
+  value: number;
+  trainScore: number;
+  trainStd: number;
+  validationScore: number;
+  validationStd: number;
+  /** Binary models across all folds that stopped at the iteration limit. */
+  unconverged: number;
+}
+
+export interface CurveResult {
+  kind: CurveKind;
+  parameter: CurveParameter | null;
+  points: CurvePoint[];
+}
+
+export interface CurveProgress {
+  point: number;
+  points: number;
+}
+
+/** Train-minus-validation accuracy above which the model is overfitting. */
+const VARIANCE_GAP = 0.1;
+/** Training accuracy below which the model is too simple for the data. */
+const BIAS_SCORE = 0.9;
+/** Validation gain over the last learning-curve step that favours more data. */
+const DATA_GAIN = 0.02;
+
+interface SplitScore {
+  rows: number;
+  train: number;
+  validation: number;
+  unconverged: number;
+}
+
+function accuracy(pipeline: TrainedPipeline, features: number[][], labels: string[]) {
+  return (
+    features.reduce(
+      (count, vector, index) =>
+        count + (predictPipeline(pipeline, vector) === labels[index] ? 1 : 0),
+      0,
+    ) / features.length
+  );
+}
+
+function meanAndStd(values: number[]) {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance =
+    values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return { mean, std: Math.sqrt(variance) };
+}
+
+/**
+ * Cross-validates one curve point, scoring each fold's model on its own
+ * training rows as well as the held-out fold: both low means bias, a wide
+ * gap means variance.
+ */
+function scorePoint(
+  features: number[][],
+  labels: string[],
+  config: TrainingConfig,
+  assignments: number[][],
+  selectRows: (train: number[]) => number[],
+  onProgress?: (progress: TrainingProgress) => void,
+) {
+  return assignments.map((test, foldIndex): SplitScore => {
+    const train = selectRows(
+      assignments.filter((_, index) => index !== foldIndex).flat(),
+    );
+    try {
+      const pipeline = trainPipeline(
+        pick(features, train),
+        pick(labels, train),
+        withProgress(config, foldIndex + 1, assignments.length, onProgress),
+      );
+      return {
+        rows: train.length,
+        train: accuracy(pipeline, pick(features, train), pick(labels, train)),
+        validation: accuracy(pipeline, pick(features, test), pick(labels, test)),
+        unconverged: unconvergedModels(pipeline.models).length,
+      };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Fold ${foldIndex + 1}: ${reason}`);
+    }
+  });
+}
+
+function summarizePoint(value: number, scores: SplitScore[]): CurvePoint {
+  const train = meanAndStd(scores.map((score) => score.train));
+  const validation = meanAndStd(scores.map((score) => score.validation));
+  return {
+    value,
+    trainScore: train.mean,
+    trainStd: train.std,
+    validationScore: validation.mean,
+    validationStd: validation.std,
+    unconverged: scores.reduce((sum, score) => sum + score.unconverged, 0),
+  };
+}
+
+function pointProgress(
+  point: CurveProgress,
+  onProgress?: (progress: CurveProgress & TrainingProgress) => void,
+) {
+  return onProgress && ((progress: TrainingProgress) => onProgress({ ...point, ...progress }));
+}
+
+/**
+ * Train and validation accuracy against training-set size. Every point
+ * uses the same folds and draws a stratified subset of each fold's
+ * training rows; a fixed seed makes the smaller subsets nest inside the
+ * larger ones, so the curve reflects size rather than sampling noise.
+ */
+export function learningCurve(
+  features: number[][],
+  labels: string[],
+  config: Omit<TrainingConfig, "random">,
+  settings: CurveSettings,
+  onProgress?: (progress: CurveProgress & TrainingProgress) => void,
+): CurveResult {
+  const assignments = stratifiedKFold(
+    labels,
+    settings.folds,
+    createSeededRandom(settings.seed),
+  );
+  const steps = Math.max(2, Math.floor(settings.sizes));
+  const points = Array.from({ length: steps }, (_, index) => {
+    const fraction = (index + 1) / steps;
+    const scores = scorePoint(
+      features,
+      labels,
+      { ...config, random: createSeededRandom(settings.seed) },
+      assignments,
+      (train) => {
+        const trainLabels = pick(labels, train);
+        const size = Math.max(
+          new Set(trainLabels).size,
+          Math.round(fraction * train.length),
+        );
+        return stratifiedSample(trainLabels, size, createSeededRandom(settings.seed)).map(
+          (row) => train[row],
+        );
+      },
+      pointProgress({ point: index + 1, points: steps }, onProgress),
+    );
+    return summarizePoint(
+      Math.round(meanAndStd(scores.map((score) => score.rows)).mean),
+      scores,
+    );
+  });
+  return { kind: "LEARNING", parameter: null, points };
+}
+
+/**
+ * Train and validation accuracy across a log-spaced range of C or gamma,
+ * with every other parameter fixed and the same folds at every value.
+ */
+export function validationCurve(
+  features: number[][],
+  labels: string[],
+  config: Omit<TrainingConfig, "random">,
+  settings: CurveSettings,
+  onProgress?: (progress: CurveProgress & TrainingProgress) => void,
+): CurveResult {
+  const { parameter } = settings;
+  if (parameter === "gamma" && !KERNELS[config.kernel].gamma) {
+    throw new Error(`The ${KERNELS[config.kernel].label} kernel has no gamma to sweep.`);
+  }
+  const assignments = stratifiedKFold(
+    labels,
+    settings.folds,
+    createSeededRandom(settings.seed),
+  );
+  const values = logSpace(settings.range);
+  const points = values.map((value, index) =>
+    summarizePoint(
+      value,
+      scorePoint(
+        features,
+        labels,
+        {
+          ...config,
+          ...(parameter === "cost" ? { cost: value } : { gamma: value }),
+          random: createSeededRandom(settings.seed),
+        },
+        assignments,
+        (train) => train,
+        pointProgress({ point: index + 1, points: values.length }, onProgress),
+      ),
+    ),
+  );
+  return { kind: "VALIDATION", parameter, points };
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Reads a learning curve's largest training size: a wide train/validation
+ * gap points to variance, low training accuracy to bias, and validation
+ * accuracy still climbing to a shortage of data.
+ */
+export function diagnoseLearningCurve(points: CurvePoint[]) {
+  const last = points.at(-1);
+  const previous = points.at(-2);
+  if (!last) return [];
+
+  const findings: string[] = [];
+  const gap = last.trainScore - last.validationScore;
+  if (gap > VARIANCE_GAP) {
+    findings.push(
+      `High variance: training accuracy is ${percent(gap)} above validation. Lower C or gamma, or add rows.`,
+    );
+  } else if (last.trainScore < BIAS_SCORE) {
+    findings.push(
+      `High bias: even training accuracy only reaches ${percent(last.trainScore)}. Raise C or gamma, or try a more flexible kernel or more features.`,
+    );
+  }
+  if (previous && last.validationScore - previous.validationScore > DATA_GAIN) {
+    findings.push(
+      "Validation accuracy is still rising at the full training set, so more data should help.",
+    );
+  }
+  if (!findings.length) {
+    findings.push(
+      "Training and validation accuracy have converged at a high level; more data or tuning is unlikely to help much.",
+    );
+  }
+  return findings;
+}
+
+/** Describes solvers that stopped at their iteration limit, or null. */
+export function convergenceWarning(pipeline: TrainedPipeline) {
+  if (pipeline.regressor) {
+    return svrConverged(pipeline.regressor)
+      ? null
+      : `The SVR solver stopped after ${pipeline.regressor.iterations} epochs without converging, so predictions may be off. Try a smaller C or a wider epsilon.`;
+  }
+  const stalled = unconvergedModels(pipeline.models);
+  if (!stalled.length) return null;
+  return `${stalled.length} of ${pipeline.models.length} binary models hit the iteration limit before converging (${stalled
+    .map(modelKey)
+    .join(", ")}) and were refitted with a looser tolerance. Their margins may be inaccurate: raise max iterations, loosen the tolerance or lower C.`;
+}
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  detectColumnType,
+  encodeDataset,
+  encodeRecord,
+  featureImputation,
+  fitFeatureEncoder,
+  isMissing,
+} from "@/lib/encoding";
+import { fitPreprocessor, transformVector } from "@/lib/preprocessing";
+
+const rows = [
+  { size: "1", color: "red", ok: "yes", label: "a" },
+  { size: "NaN", color: "blue", ok: "no", label: "b" },
+  { size: "3", color: "?", ok: "yes", label: "a" },
+  { size: "4", color: "red", ok: "", label: "b" },
+  { size: "5", color: "green", ok: "no", label: "" },
+];
+
+describe("feature encoding", () => {
+  it("treats blank, NA, NaN and ? cells as missing", () => {
+    for (const token of ["", " ", "NA", "n/a", "NaN", "null", "?"]) {
+      assert.equal(isMissing(token), true, token);
+    }
+    assert.equal(isMissing("0"), false);
+  });
+
+  it("detects column types from present values", () => {
+    assert.equal(detectColumnType(["1", "2.5", "?"]), "numeric");
+    assert.equal(detectColumnType(["yes", "no", ""]), "boolean");
+    assert.equal(detectColumnType(["red", "1"]), "categorical");
+  });
+
+  it("drops rows with missing features or labels under DROP", () => {
+    const encoder = fitFeatureEncoder(rows, ["size", "color", "ok"], {
+      encoding: "ONE_HOT",
+      missing: "DROP",
+      constant: "0",
+    });
+    assert.deepEqual(encoder.featureNames, [
+      "size",
+      "color=blue",
+      "color=green",
+      "color=red",
+      "ok",
+    ]);
+    const dataset = encodeDataset(encoder, rows, "label");
+    assert.deepEqual(dataset.features, [[1, 0, 0, 1, 1]]);
+    assert.deepEqual(dataset.labels, ["a"]);
+    assert.equal(dataset.dropped, 4);
+  });
+
+  it("leaves mean and mode fills to the pipeline's training rows", () => {
+    const encoder = fitFeatureEncoder(rows, ["size", "color"], {
+      encoding: "ORDINAL",
+      missing: "MEAN",
+      constant: "0",
+    });
+    const dataset = encodeDataset(encoder, rows, "label");
+    assert.deepEqual(dataset.features, [[1, 2], [NaN, 0], [3, NaN], [4, 2]]);
+    assert.deepEqual(dataset.imputed, { size: 1, color: 1 });
+    assert.equal(dataset.dropped, 1);
+
+    // Fitted on the first three rows only: the mean of 1 and 3, and "red"
+    // ties with "blue" but is seen first.
+    const preprocessor = fitPreprocessor(
+      dataset.features.slice(0, 3),
+      ["NONE", "NONE"],
+      featureImputation(encoder),
+    );
+    assert.deepEqual(transformVector(preprocessor, [NaN, NaN]), [2, 2]);
+
+    const oneHot = fitFeatureEncoder(rows, ["color"], {
+      encoding: "ONE_HOT",
+      missing: "MODE",
+      constant: "0",
+    });
+    const encoded = encodeDataset(oneHot, rows, "label").features;
+    assert.deepEqual(
+      transformVector(
+        fitPreprocessor(encoded, ["NONE", "NONE", "NONE"], featureImputation(oneHot)),
+        [NaN, NaN, NaN],
+      ),
+      [0, 0, 1],
+    );
+  });
+
+  it("rejects values that do not match the fitted column type", () => {
+    const encoder = fitFeatureEncoder(rows, ["size", "color"], {
+      encoding: "ORDINAL",
+      missing: "DROP",
+      constant: "0",
+    });
+    assert.throws(
+      () => encodeRecord(encoder, { size: "big", color: "red" }),
+      /"size" must be numeric/,
+    );
+    assert.throws(
+      () => encodeRecord(encoder, { size: "1", color: "purple" }),
+      /unknown category "purple"/,
+    );
+  });
+});
@@ -0,0 +1,278 @@
+import type { FeatureImputation, ImputationStrategy } from "@/lib/preprocessing";
+
+export type ColumnType = "numeric" | "categorical" | "boolean";
+export type CategoricalEncoding = "ONE_HOT" | "ORDINAL";
+export type MissingStrategy = "DROP" | "MEAN" | "MEDIAN" | "MODE" | "CONSTANT";
+
+export interface EncodingOptions {
+  encoding: CategoricalEncoding;
+  missing: MissingStrategy;
+  /** Fill value for the CONSTANT strategy, parsed per column type. */
+  constant: string;
+}
+
+export interface ColumnEncoder {
+  column: string;
+  type: ColumnType;
+  /** Sorted known categories; empty for numeric and boolean columns. */
+  categories: string[];
+  encoding: CategoricalEncoding | null;
+  /** Raw value substituted for missing cells, or null to drop the row. */
+  fill: string | null;
+  /**
+   * Mean, median and mode imputation: missing cells encode as NaN and the
+   * pipeline fills them from its training rows. `fill` is then null.
+   */
+  impute?: ImputationStrategy;
+}
+
+export interface FeatureEncoder {
+  columns: ColumnEncoder[];
+  /** Names of the numeric features fed to the SVM, after expansion. */
+  featureNames: string[];
+}
+
+export interface EncodedDataset {
+  features: number[][];
+  labels: string[];
+  imputed: Record<string, number>;
+  dropped: number;
+}
+
+export const MISSING_LABELS: Record<MissingStrategy, string> = {
+  DROP: "Drop the row",
+  MEAN: "Impute mean",
+  MEDIAN: "Impute median",
+  MODE: "Impute most frequent",
+  CONSTANT: "Impute constant",
+};
+
+const MISSING_TOKENS = new Set(["", "na", "n/a", "nan", "null", "?"]);
+const TRUE_TOKENS = new Set(["true", "yes", "y", "t", "1"]);
+const FALSE_TOKENS = new Set(["false", "no", "n", "f", "0"]);
+
+export function isMissing(value: string | undefined | null) {
+  return value === undefined || value === null
+    ? true
+    : MISSING_TOKENS.has(value.trim().toLowerCase());
+}
+
+function isBooleanToken(value: string) {
+  const token = value.trim().toLowerCase();
+  return TRUE_TOKENS.has(token) || FALSE_TOKENS.has(token);
+}
+
+function parseNumber(value: string) {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : NaN;
+}
+
+/** Infers a column type from its non-missing values. */
+export function detectColumnType(values: string[]): ColumnType {
+  const present = values.filter((value) => !isMissing(value));
+  if (!present.length) return "numeric";
+  if (present.every((value) => Number.isFinite(parseNumber(value)))) {
+    return "numeric";
+  }
+  if (present.every(isBooleanToken)) return "boolean";
+  return "categorical";
+}
+
+function resolveFill(column: string, type: ColumnType, options: EncodingOptions) {
+  if (options.missing !== "CONSTANT") return null;
+
+  const constant = options.constant.trim();
+  if (type === "numeric" && !Number.isFinite(parseNumber(constant))) {
+    throw new Error(
+      `Constant "${options.constant}" is not a valid number for column "${column}".`,
+    );
+  }
+  if (type === "boolean" && !isBooleanToken(constant)) {
+    throw new Error(
+      `Constant "${options.constant}" is not a valid boolean for column "${column}".`,
+    );
+  }
+  return constant;
+}
+
+function resolveImputation(
+  type: ColumnType,
+  options: EncodingOptions,
+): ImputationStrategy | undefined {
+  if (options.missing === "DROP" || options.missing === "CONSTANT") return undefined;
+  // Mean and median are undefined for categories, so fall back to the mode.
+  return type === "numeric" ? options.missing : "MODE";
+}
+
+function expandedNames(encoder: ColumnEncoder) {
+  return encoder.type === "categorical" && encoder.encoding === "ONE_HOT"
+    ? encoder.categories.map((category) => `${encoder.column}=${category}`)
+    : [encoder.column];
+}
+
+/**
+ * Fits one encoder per feature column. Types declared by the source file
+ * (e.g. ARFF nominal attributes) take precedence over inferred ones.
+ */
+export function fitFeatureEncoder(
+  rows: Record<string, string>[],
+  featureColumns: string[],
+  options: EncodingOptions,
+  declaredTypes: Record<string, ColumnType> = {},
+): FeatureEncoder {
+  const columns = featureColumns.map((column) => {
+    const values = rows.map((row) => row[column]);
+    const present = values.filter((value) => !isMissing(value));
+    if (!present.length) {
+      throw new Error(`Column "${column}" has no values.`);
+    }
+    const type = declaredTypes[column] ?? detectColumnType(present);
+    const fill = resolveFill(column, type, options);
+    const impute = resolveImputation(type, options);
+    const categories =
+      type === "categorical"
+        ? Array.from(
+            new Set([
+              ...present.map((value) => value.trim()),
+              ...(fill === null ? [] : [fill]),
+            ]),
+          ).sort((a, b) => a.localeCompare(b))
+        : [];
+    return {
+      column,
+      type,
+      categories,
+      encoding: type === "categorical" ? options.encoding : null,
+      fill,
+      ...(impute ? { impute } : {}),
+    };
+  });
+
+  return { columns, featureNames: columns.flatMap(expandedNames) };
+}
+
+/** All-numeric encoder for models that predate categorical support. */
+export function numericEncoder(featureColumns: string[]): FeatureEncoder {
+  return {
+    columns: featureColumns.map((column) => ({
+      column,
+      type: "numeric",
+      categories: [],
+      encoding: null,
+      fill: null,
+    })),
+    featureNames: [...featureColumns],
+  };
+}
+
+/** True when a missing cell drops the row instead of being imputed. */
+export function isRequired(column: ColumnEncoder) {
+  return column.fill === null && !column.impute;
+}
+
+/** Pipeline imputation for every encoded feature, in feature order. */
+export function featureImputation(encoder: FeatureEncoder) {
+  return encoder.columns.flatMap((column, group) =>
+    expandedNames(column).map(
+      (): FeatureImputation | null =>
+        column.impute ? { strategy: column.impute, group } : null,
+    ),
+  );
+}
+
+/** The source column of every encoded feature, in feature order. */
+export function featureSources(encoder: FeatureEncoder) {
+  return encoder.columns.flatMap((column) =>
+    expandedNames(column).map(() => column.column),
+  );
+}
+
+function encodeValue(encoder: ColumnEncoder, raw: string, context: string) {
+  const value = raw.trim();
+  if (encoder.type === "numeric") {
+    const parsed = parseNumber(value);
+    if (!Number.isFinite(parsed)) {
+      throw new Error(`${context} "${encoder.column}" must be numeric.`);
+    }
+    return [parsed];
+  }
+  if (encoder.type === "boolean") {
+    if (!isBooleanToken(value)) {
+      throw new Error(`${context} "${encoder.column}" must be true or false.`);
+    }
+    return [TRUE_TOKENS.has(value.toLowerCase()) ? 1 : 0];
+  }
+  if (encoder.encoding === "ONE_HOT") {
+    // Unseen categories encode as all zeros rather than failing.
+    return encoder.categories.map((category) => (category === value ? 1 : 0));
+  }
+  const index = encoder.categories.indexOf(value);
+  if (index < 0) {
+    throw new Error(
+      `${context} "${encoder.column}" has unknown category "${value}".`,
+    );
+  }
+  return [index];
+}
+
+/**
+ * Encodes one raw record. Missing cells are imputed with the constant fill
+ * or left as NaN for the pipeline to impute; returns null when a missing
+ * cell has neither (the DROP strategy).
+ */
+export function encodeRecord(
+  encoder: FeatureEncoder,
+  record: Record<string, string | undefined>,
+  context = "Column",
+  onImpute?: (column: string) => void,
+) {
+  const vector: number[] = [];
+  for (const column of encoder.columns) {
+    let raw = record[column.column];
+    if (isMissing(raw)) {
+      if (column.impute) {
+        vector.push(...expandedNames(column).map(() => NaN));
+        onImpute?.(column.column);
+        continue;
+      }
+      if (column.fill === null) return null;
+      raw = column.fill;
+      onImpute?.(column.column);
+    }
+    vector.push(...encodeValue(column, raw ?? "", context));
+  }
+  return vector;
+}
+
+export function encodeDataset(
+  encoder: FeatureEncoder,
+  rows: Record<string, string>[],
+  labelColumn: string,
+): EncodedDataset {
+  const features: number[][] = [];
+  const labels: string[] = [];
+  const imputed: Record<string, number> = Object.fromEntries(
+    encoder.columns.map((column) => [column.column, 0]),
+  );
+  let dropped = 0;
+
+  for (const row of rows) {
+    if (isMissing(row[labelColumn])) {
+      dropped += 1;
+      continue;
+    }
+    const pending: string[] = [];
+    const vector = encodeRecord(encoder, row, "Column", (column) =>
+      pending.push(column),
+    );
+    if (!vector) {
+      dropped += 1;
+      continue;
+    }
+    for (const column of pending) imputed[column] += 1;
+    features.push(vector);
+    labels.push(String(row[labelColumn]));
+  }
+
+  return { features, labels, imputed, dropped };
+}
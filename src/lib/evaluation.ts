@@ -0,0 +1,430 @@
+import { calibratePipeline, classProbabilities } from "@/lib/calibration";
+import {
+  permutationDrops,
+  summarizeImportance,
+  type ImportanceOptions,
+  type PermutationImportance,
+} from "@/lib/importance";
+import {
+  marginsByModel,
+  scorePipeline,
+  trainPipeline,
+  type ModelProgress,
+  type TrainedPipeline,
+  type TrainingConfig,
+} from "@/lib/svm";
+
+export type EvaluationMode = "TRAINING" | "HOLDOUT" | "KFOLD";
+
+export interface EvaluationSettings {
+  mode: EvaluationMode;
+  testRatio: number;
+  folds: number;
+  seed: number;
+}
+
+export interface FoldResult {
+  fold: number;
+  trainSize: number;
+  testSize: number;
+  accuracy: number;
+  actual: string[];
+  predicted: string[];
+  /** Out-of-sample model margins per row, keyed by `modelKey`. */
+  margins: Record<string, number>[];
+  /** Accuracy drop per shuffled feature and repeat, when requested. */
+  importance?: Record<string, number[]>;
+}
+
+/** `fold` is null while the final model is being fitted. */
+export interface TrainingProgress extends ModelProgress {
+  fold: number | null;
+  folds: number | null;
+}
+
+export interface EvaluationResult {
+  mode: EvaluationMode;
+  meanAccuracy: number;
+  stdAccuracy: number;
+  folds: FoldResult[];
+  /** Evaluation-set labels pooled across folds, aligned with `predicted`. */
+  actual: string[];
+  predicted: string[];
+  margins: Record<string, number>[];
+  /**
+   * Platt-calibrated probabilities for the pooled rows; null when the
+   * evaluation has no held-out data to calibrate on.
+   */
+  probabilities: Record<string, number>[] | null;
+  /** Permutation importance on the evaluation rows, when requested. */
+  importance?: PermutationImportance[] | null;
+}
+
+// Mulberry32: small, fast and good enough to make splits reproducible.
+export function createSeededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffleInPlace<T>(items: T[], random: () => number) {
+  for (let index = items.length - 1; index > 0; index -= 1) {
+    const swapIndex = Math.floor(random() * (index + 1));
+    [items[index], items[swapIndex]] = [items[swapIndex], items[index]];
+  }
+  return items;
+}
+
+function groupIndicesByLabel(labels: string[], random: () => number) {
+  const groups = new Map<string, number[]>();
+  labels.forEach((label, index) => {
+    const group = groups.get(label);
+    if (group) {
+      group.push(index);
+    } else {
+      groups.set(label, [index]);
+    }
+  });
+  return Array.from(groups.values()).map((indices) =>
+    shuffleInPlace(indices, random),
+  );
+}
+
+export function stratifiedSplit(
+  labels: string[],
+  testRatio: number,
+  random: () => number,
+) {
+  const train: number[] = [];
+  const test: number[] = [];
+
+  for (const indices of groupIndicesByLabel(labels, random)) {
+    // Keep at least one row of every class on the training side.
+    const testCount =
+      indices.length < 2
+        ? 0
+        : Math.min(
+            indices.length - 1,
+            Math.max(1, Math.round(indices.length * testRatio)),
+          );
+    test.push(...indices.slice(0, testCount));
+    train.push(...indices.slice(testCount));
+  }
+
+  if (!test.length) {
+    throw new Error("Hold-out split left no rows for testing.");
+  }
+
+  return { train, test };
+}
+
+/**
+ * Row indices for a random subset of `size` rows that keeps each label's
+ * share, with at least one row per label. Indices come back in row order.
+ */
+export function stratifiedSample(
+  labels: string[],
+  size: number,
+  random: () => number,
+) {
+  if (size >= labels.length) {
+    return labels.map((_, index) => index);
+  }
+  const groups = groupIndicesByLabel(labels, random);
+  if (size < groups.length) {
+    throw new Error(
+      `A sample of ${size} rows cannot include all ${groups.length} labels.`,
+    );
+  }
+
+  // Largest-remainder allocation, raising tiny labels to one row and taking
+  // the difference back from the largest ones.
+  const quotas = groups.map((indices) => {
+    const share = (indices.length * size) / labels.length;
+    return { count: Math.max(1, Math.floor(share)), remainder: share % 1 };
+  });
+  let missing = size - quotas.reduce((sum, quota) => sum + quota.count, 0);
+  for (const quota of [...quotas].sort((a, b) => b.remainder - a.remainder)) {
+    if (missing <= 0) break;
+    quota.count += 1;
+    missing -= 1;
+  }
+  while (missing < 0) {
+    const largest = quotas.reduce((best, quota) =>
+      quota.count > best.count ? quota : best,
+    );
+    largest.count -= 1;
+    missing += 1;
+  }
+
+  return groups
+    .flatMap((indices, group) => indices.slice(0, quotas[group].count))
+    .sort((a, b) => a - b);
+}
+
+export function stratifiedKFold(
+  labels: string[],
+  folds: number,
+  random: () => number,
+) {
+  if (folds < 2) {
+    throw new Error("Cross-validation needs at least 2 folds.");
+  }
+  if (folds > labels.length) {
+    throw new Error(
+      `Cannot build ${folds} folds from ${labels.length} rows.`,
+    );
+  }
+
+  const assignments: number[][] = Array.from({ length: folds }, () => []);
+  let cursor = 0;
+  for (const indices of groupIndicesByLabel(labels, random)) {
+    for (const index of indices) {
+      assignments[cursor % folds].push(index);
+      cursor += 1;
+    }
+  }
+  return assignments;
+}
+
+export function pick<T>(items: T[], indices: number[]) {
+  return indices.map((index) => items[index]);
+}
+
+function scoreFold(
+  fold: number,
+  trainSize: number,
+  pipeline: TrainedPipeline,
+  features: number[][],
+  labels: string[],
+  importance?: ImportanceOptions,
+): FoldResult {
+  const scored = features.map((vector) => scorePipeline(pipeline, vector));
+  const predicted = scored.map(({ label }) => label);
+  const correct = predicted.reduce(
+    (count, value, index) => count + (value === labels[index] ? 1 : 0),
+    0,
+  );
+  return {
+    fold,
+    trainSize,
+    testSize: features.length,
+    accuracy: correct / features.length,
+    actual: labels,
+    predicted,
+    margins: scored.map(({ margins }) => marginsByModel(pipeline.models, margins)),
+    ...(importance
+      ? {
+          importance: permutationDrops(
+            features,
+            (rows, indices) =>
+              rows.reduce(
+                (count, vector, index) =>
+                  count +
+                  (scorePipeline(pipeline, vector).label === labels[indices[index]]
+                    ? 1
+                    : 0),
+                0,
+              ) / rows.length,
+            importance,
+            createSeededRandom(importance.seed + fold),
+          ),
+        }
+      : {}),
+  };
+}
+
+function summarizeFolds(
+  mode: EvaluationMode,
+  folds: FoldResult[],
+): EvaluationResult {
+  const meanAccuracy =
+    folds.reduce((sum, fold) => sum + fold.accuracy, 0) / folds.length;
+  const variance =
+    folds.reduce(
+      (sum, fold) => sum + (fold.accuracy - meanAccuracy) ** 2,
+      0,
+    ) / folds.length;
+  return {
+    mode,
+    meanAccuracy,
+    stdAccuracy: Math.sqrt(variance),
+    folds,
+    actual: folds.flatMap((fold) => fold.actual),
+    predicted: folds.flatMap((fold) => fold.predicted),
+    margins: folds.flatMap((fold) => fold.margins),
+    probabilities: null,
+    ...(folds.some((fold) => fold.importance)
+      ? { importance: summarizeImportance(folds.map((fold) => fold.importance)) }
+      : {}),
+  };
+}
+
+/** Folds the evaluated rows are split into to cross-fit calibration. */
+const CALIBRATION_FOLDS = 5;
+
+/**
+ * Fits Platt scaling on the evaluation's out-of-sample margins. The
+ * probabilities behind the reliability diagram are cross-fitted: each row
+ * is scored by sigmoids fitted on the other folds' margins, so the diagram
+ * is never judged on the rows its sigmoids were fitted on. The returned
+ * pipeline is calibrated on every margin.
+ */
+function calibrate(
+  pipeline: TrainedPipeline,
+  evaluation: EvaluationResult,
+  random: () => number,
+) {
+  const { margins, actual } = evaluation;
+  const calibrated = calibratePipeline(pipeline, margins, actual);
+  const probabilities = margins.map(
+    (rowMargins) => classProbabilities(calibrated.models, rowMargins) ?? {},
+  );
+  const folds = Math.min(CALIBRATION_FOLDS, actual.length);
+  if (folds >= 2) {
+    for (const held of stratifiedKFold(actual, folds, random)) {
+      const heldOut = new Set(held);
+      const rest = actual.flatMap((_, row) => (heldOut.has(row) ? [] : [row]));
+      const { models } = calibratePipeline(
+        pipeline,
+        pick(margins, rest),
+        pick(actual, rest),
+      );
+      for (const row of held) {
+        probabilities[row] = classProbabilities(models, margins[row]) ?? {};
+      }
+    }
+  }
+  return {
+    pipeline: calibrated,
+    evaluation: { ...evaluation, probabilities },
+  };
+}
+
+export function withProgress(
+  config: TrainingConfig,
+  fold: number | null,
+  folds: number | null,
+  onProgress?: (progress: TrainingProgress) => void,
+): TrainingConfig {
+  if (!onProgress) return config;
+  return {
+    ...config,
+    onModelStart: (progress) => onProgress({ ...progress, fold, folds }),
+  };
+}
+
+export function crossValidate(
+  features: number[][],
+  labels: string[],
+  config: TrainingConfig,
+  folds: number,
+  onProgress?: (progress: TrainingProgress) => void,
+  importance?: ImportanceOptions,
+) {
+  const assignments = stratifiedKFold(labels, folds, config.random);
+  const results = assignments.map((test, foldIndex) => {
+    const train = assignments
+      .filter((_, index) => index !== foldIndex)
+      .flat();
+    try {
+      const foldPipeline = trainPipeline(
+        pick(features, train),
+        pick(labels, train),
+        withProgress(config, foldIndex + 1, folds, onProgress),
+      );
+      return scoreFold(
+        foldIndex + 1,
+        train.length,
+        foldPipeline,
+        pick(features, test),
+        pick(labels, test),
+        importance,
+      );
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Fold ${foldIndex + 1}: ${reason}`);
+    }
+  });
+  return summarizeFolds("KFOLD", results);
+}
+
+/**
+ * Trains the pipeline with the configured multi-class strategy (one-vs-rest
+ * or one-vs-one) and scores it according to the selected evaluation mode.
+ * Hold-out keeps the pipeline fitted on the training split; k-fold refits a
+ * final pipeline on every row once the folds are scored.
+ * Scalers are always fitted on the rows the models are trained on. Both
+ * out-of-sample modes also calibrate the final models' probabilities.
+ * Permutation importance, when requested, is measured on the same rows.
+ */
+export function trainAndEvaluate(
+  features: number[][],
+  labels: string[],
+  config: TrainingConfig,
+  settings: EvaluationSettings,
+  onProgress?: (progress: TrainingProgress) => void,
+  importance?: ImportanceOptions,
+) {
+  const finalConfig = withProgress(config, null, null, onProgress);
+
+  if (settings.mode === "HOLDOUT") {
+    const { train, test } = stratifiedSplit(
+      labels,
+      settings.testRatio,
+      config.random,
+    );
+    const pipeline = trainPipeline(
+      pick(features, train),
+      pick(labels, train),
+      finalConfig,
+    );
+    return calibrate(
+      pipeline,
+      summarizeFolds("HOLDOUT", [
+        scoreFold(
+          1,
+          train.length,
+          pipeline,
+          pick(features, test),
+          pick(labels, test),
+          importance,
+        ),
+      ]),
+      createSeededRandom(settings.seed),
+    );
+  }
+
+  if (settings.mode === "KFOLD") {
+    const evaluation = crossValidate(
+      features,
+      labels,
+      config,
+      settings.folds,
+      onProgress,
+      importance,
+    );
+    return calibrate(
+      trainPipeline(
+        features,
+        labels,
+        withProgress(config, null, settings.folds, onProgress),
+      ),
+      evaluation,
+      createSeededRandom(settings.seed),
+    );
+  }
+
+  const pipeline = trainPipeline(features, labels, finalConfig);
+  return {
+    pipeline,
+    evaluation: summarizeFolds("TRAINING", [
+      scoreFold(1, features.length, pipeline, features, labels, importance),
+    ]),
+  };
+}
@@ -0,0 +1,127 @@
+import type { EvaluationResult } from "@/lib/evaluation";
+import { buildClassificationReport } from "@/lib/metrics";
+import {
+  isRegressionEvaluation,
+  type RegressionEvaluation,
+} from "@/lib/regression";
+import type { WorkspaceSettings } from "@/lib/workspaces";
+
+export type ExperimentMetric =
+  | "accuracy"
+  | "balancedAccuracy"
+  | "macroF1"
+  | "r2"
+  | "rmse"
+  | "mae";
+
+export interface MetricDefinition {
+  label: string;
+  higherIsBetter: boolean;
+  percent: boolean;
+}
+
+export const EXPERIMENT_METRICS: Record<ExperimentMetric, MetricDefinition> = {
+  accuracy: { label: "Accuracy", higherIsBetter: true, percent: true },
+  balancedAccuracy: {
+    label: "Balanced accuracy",
+    higherIsBetter: true,
+    percent: true,
+  },
+  macroF1: { label: "Macro F1", higherIsBetter: true, percent: false },
+  r2: { label: "R²", higherIsBetter: true, percent: false },
+  rmse: { label: "RMSE", higherIsBetter: false, percent: false },
+  mae: { label: "MAE", higherIsBetter: false, percent: false },
+};
+
+/** One recorded training run: its full configuration and resulting scores. */
+export interface ExperimentRun {
+  id: string;
+  createdAt: string;
+  /** Hash of the dataset contents, to tell runs on different data apart. */
+  fingerprint: string;
+  rows: number;
+  labelColumn: string;
+  featureColumns: string[];
+  settings: WorkspaceSettings;
+  metrics: Partial<Record<ExperimentMetric, number>>;
+  /** Spread across folds for k-fold classification runs. */
+  stdAccuracy: number | null;
+  durationMs: number;
+  pinned: boolean;
+  note: string;
+}
+
+export type ExperimentInput = Omit<
+  ExperimentRun,
+  "id" | "createdAt" | "metrics" | "stdAccuracy" | "pinned" | "note"
+>;
+
+/** FNV-1a over column names and cell values; stable across reloads. */
+export function datasetFingerprint(
+  rows: Record<string, string>[],
+  columns: string[],
+) {
+  let hash = 0x811c9dc5;
+  const update = (text: string) => {
+    for (let index = 0; index < text.length; index += 1) {
+      hash ^= text.charCodeAt(index);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    hash ^= 0x1f;
+    hash = Math.imul(hash, 0x01000193);
+  };
+  columns.forEach(update);
+  for (const row of rows) {
+    for (const column of columns) update(row[column] ?? "");
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+export function experimentMetrics(
+  evaluation: EvaluationResult | RegressionEvaluation,
+): Partial<Record<ExperimentMetric, number>> {
+  if (isRegressionEvaluation(evaluation)) {
+    return { r2: evaluation.r2, rmse: evaluation.rmse, mae: evaluation.mae };
+  }
+  const report = buildClassificationReport(evaluation.actual, evaluation.predicted);
+  return {
+    accuracy: evaluation.meanAccuracy,
+    balancedAccuracy: report.balancedAccuracy,
+    macroF1: report.macro.f1,
+  };
+}
+
+export function createExperiment(
+  input: ExperimentInput,
+  evaluation: EvaluationResult | RegressionEvaluation,
+): ExperimentRun {
+  return {
+    ...input,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    metrics: experimentMetrics(evaluation),
+    stdAccuracy:
+      !isRegressionEvaluation(evaluation) && evaluation.mode === "KFOLD"
+        ? evaluation.stdAccuracy
+        : null,
+    pinned: false,
+    note: "",
+  };
+}
+
+/**
+ * Metric differences of `run` against `baseline`, signed so that a positive
+ * value is always an improvement.
+ */
+export function metricImprovements(baseline: ExperimentRun, run: ExperimentRun) {
+  const improvements: Partial<Record<ExperimentMetric, number>> = {};
+  for (const metric of Object.keys(EXPERIMENT_METRICS) as ExperimentMetric[]) {
+    const before = baseline.metrics[metric];
+    const after = run.metrics[metric];
+    if (before === undefined || after === undefined) continue;
+    improvements[metric] = EXPERIMENT_METRICS[metric].higherIsBetter
+      ? after - before
+      : before - after;
+  }
+  return improvements;
+}
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  MAX_WEIGHTED_ROWS,
+  MAX_WEIGHT_RATIO,
+  effectiveWeights,
+  weightCopies,
+} from "@/lib/imbalance";
+
+describe("class weights by row repetition", () => {
+  it("reports rounded and capped weights as effective weights", () => {
+    assert.deepEqual(effectiveWeights({ a: 10, b: 10 }, { a: 1, b: 1.5 }), {
+      a: 1,
+      b: 2,
+    });
+    assert.deepEqual(effectiveWeights({ a: 10, b: 10 }, { a: 1, b: 120 }), {
+      a: 1,
+      b: MAX_WEIGHT_RATIO,
+    });
+  });
+
+  it("keeps the repeated training set within the row budget", () => {
+    const weights = [
+      ...Array.from({ length: 1000 }, () => 50),
+      ...Array.from({ length: 1000 }, () => 1),
+    ];
+    const { scale, copies } = weightCopies(weights);
+    const total = copies.reduce((sum, count) => sum + count, 0);
+    assert.ok(total <= MAX_WEIGHTED_ROWS);
+    assert.ok(scale > 1);
+    // The heavy rows still outweigh the light ones.
+    assert.ok(copies[0] > copies[1999]);
+  });
+
+  it("handles more rows than a spread argument list allows", () => {
+    const weights = Array.from({ length: 300_000 }, (_, index) => (index % 2 ? 1 : 3));
+    const { copies } = weightCopies(weights);
+    assert.equal(copies.length, weights.length);
+    assert.ok(copies[0] >= copies[1]);
+  });
+});
@@ -0,0 +1,181 @@
+export type ClassWeighting = "NONE" | "BALANCED" | "MANUAL";
+export type ResamplingStrategy = "NONE" | "OVERSAMPLE" | "UNDERSAMPLE";
+
+export interface ImbalanceSettings {
+  weighting: ClassWeighting;
+  /** Per-label weights for `MANUAL`; absent labels weigh 1. */
+  manualWeights: Record<string, number>;
+  /** Applied to training rows only, never to evaluation rows. */
+  resampling: ResamplingStrategy;
+}
+
+export const WEIGHTING_LABELS: Record<ClassWeighting, string> = {
+  NONE: "None",
+  BALANCED: "Balanced (inverse frequency)",
+  MANUAL: "Manual per label",
+};
+
+export const RESAMPLING_LABELS: Record<ResamplingStrategy, string> = {
+  NONE: "None",
+  OVERSAMPLE: "Random over-sampling",
+  UNDERSAMPLE: "Random under-sampling",
+};
+
+export const DEFAULT_IMBALANCE: ImbalanceSettings = {
+  weighting: "NONE",
+  manualWeights: {},
+  resampling: "NONE",
+};
+
+/** Largest row-repetition factor used to emulate a class weight. */
+export const MAX_WEIGHT_RATIO = 50;
+/** Rows a weighted training set may grow to, kernel matrices being O(N²). */
+export const MAX_WEIGHTED_ROWS = 5000;
+
+/** Row count per label, in order of first appearance. */
+export function labelCounts(labels: string[]) {
+  const counts: Record<string, number> = {};
+  for (const label of labels) {
+    counts[label] = (counts[label] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/** Rows per label after resampling to the largest or smallest class count. */
+export function resampledCounts(
+  counts: Record<string, number>,
+  strategy: ResamplingStrategy,
+) {
+  const values = Object.values(counts);
+  if (strategy === "NONE" || !values.length) return { ...counts };
+  const target =
+    strategy === "OVERSAMPLE"
+      ? values.reduce((high, value) => Math.max(high, value), -Infinity)
+      : values.reduce((low, value) => Math.min(low, value), Infinity);
+  return Object.fromEntries(Object.keys(counts).map((label) => [label, target]));
+}
+
+/**
+ * Class weights for the given label counts, or null when no weighting is
+ * configured. Balanced weights follow `n / (classes * count)`.
+ */
+export function weightsForCounts(
+  counts: Record<string, number>,
+  settings: ImbalanceSettings | undefined,
+): Record<string, number> | null {
+  if (!settings || settings.weighting === "NONE") return null;
+  const classes = Object.keys(counts);
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  return Object.fromEntries(
+    classes.map((label) => {
+      if (settings.weighting === "BALANCED") {
+        return [label, total / (classes.length * counts[label])];
+      }
+      const weight = settings.manualWeights[label] ?? 1;
+      if (!Number.isFinite(weight) || weight <= 0) {
+        throw new Error(`Weight for label "${label}" must be a positive number.`);
+      }
+      return [label, weight];
+    }),
+  );
+}
+
+export function classWeights(
+  labels: string[],
+  settings: ImbalanceSettings | undefined,
+) {
+  return weightsForCounts(labelCounts(labels), settings);
+}
+
+/**
+ * Turns per-row weights into repetition counts of a unit weight `scale`.
+ * The SVM is then trained with `cost * scale`, so a row repeated k times
+ * carries the cost `cost * k * scale`: its weight rounded to a whole number
+ * of units and capped at `MAX_WEIGHT_RATIO` units. The unit starts at the
+ * lightest weight and grows until the repeated rows fit `MAX_WEIGHTED_ROWS`
+ * (or the input size, if larger), so effective weights are approximate.
+ */
+export function weightCopies(weights: number[]) {
+  const budget = Math.max(weights.length, MAX_WEIGHTED_ROWS);
+  const copiesFor = (scale: number) =>
+    weights.map((weight) =>
+      Math.min(MAX_WEIGHT_RATIO, Math.max(1, Math.round(weight / scale))),
+    );
+  const total = (copies: number[]) => copies.reduce((sum, count) => sum + count, 0);
+
+  let scale = weights.reduce((low, weight) => Math.min(low, weight), Infinity);
+  if (total(copiesFor(scale)) > budget) {
+    // At twice the heaviest weight every row appears once, which always fits.
+    let low = scale;
+    let high = 2 * weights.reduce((top, weight) => Math.max(top, weight), -Infinity);
+    for (let step = 0; step < 40; step += 1) {
+      const middle = (low + high) / 2;
+      if (total(copiesFor(middle)) > budget) low = middle;
+      else high = middle;
+    }
+    scale = high;
+  }
+  return { scale, copies: copiesFor(scale) };
+}
+
+/**
+ * The per-label weights training actually applies once `weightCopies` has
+ * rounded, capped and bounded them, for rows with the given label counts.
+ */
+export function effectiveWeights(
+  counts: Record<string, number>,
+  weights: Record<string, number>,
+) {
+  const labels = Object.keys(counts);
+  const { scale, copies } = weightCopies(
+    labels.flatMap((label) => Array.from({ length: counts[label] }, () => weights[label])),
+  );
+  let row = 0;
+  return Object.fromEntries(
+    labels.map((label) => {
+      const weight = copies[row] * scale;
+      row += counts[label];
+      return [label, weight];
+    }),
+  );
+}
+
+/**
+ * Randomly duplicates minority rows or drops majority rows until every
+ * class has the same count. Returns row indices into the input.
+ */
+export function resampleIndices(
+  labels: string[],
+  strategy: ResamplingStrategy,
+  random: () => number,
+) {
+  const groups = new Map<string, number[]>();
+  labels.forEach((label, row) => {
+    const group = groups.get(label);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(label, [row]);
+    }
+  });
+  const target = resampledCounts(labelCounts(labels), strategy);
+
+  const indices: number[] = [];
+  for (const [label, rows] of groups) {
+    const count = target[label];
+    if (count >= rows.length) {
+      indices.push(...rows);
+      for (let extra = rows.length; extra < count; extra += 1) {
+        indices.push(rows[Math.floor(random() * rows.length)]);
+      }
+    } else {
+      const pool = [...rows];
+      for (let index = 0; index < count; index += 1) {
+        const pickIndex = index + Math.floor(random() * (pool.length - index));
+        [pool[index], pool[pickIndex]] = [pool[pickIndex], pool[index]];
+        indices.push(pool[index]);
+      }
+    }
+  }
+  return indices.sort((a, b) => a - b);
+}
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createSeededRandom, trainAndEvaluate } from "@/lib/evaluation";
+import {
+  explainPrediction,
+  featureGroups,
+  linearWeights,
+} from "@/lib/importance";
+import { trainPipeline, type TrainingConfig } from "@/lib/svm";
+
+/** The label depends on the first column only; the second is noise. */
+function signalAndNoise(count: number, seed: number) {
+  const random = createSeededRandom(seed);
+  const features: number[][] = [];
+  const labels: string[] = [];
+  for (let index = 0; index < count; index += 1) {
+    const signal = random() * 2 - 1;
+    features.push([signal, random() * 2 - 1]);
+    labels.push(signal > 0 ? "positive" : "negative");
+  }
+  return { features, labels };
+}
+
+function config(kernel: TrainingConfig["kernel"]): TrainingConfig {
+  return {
+    kernel,
+    cost: 10,
+    gamma: null,
+    degree: 3,
+    multiclass: "OVR",
+    scaling: ["NONE", "NONE"],
+    random: createSeededRandom(1),
+  };
+}
+
+const groups = featureGroups(["signal", "noise"]);
+
+describe("permutation importance", () => {
+  const { features, labels } = signalAndNoise(120, 3);
+
+  for (const mode of ["HOLDOUT", "KFOLD"] as const) {
+    it(`ranks the informative feature first with ${mode} evaluation`, () => {
+      const { evaluation } = trainAndEvaluate(
+        features,
+        labels,
+        config("RBF"),
+        { mode, testRatio: 0.3, folds: 4, seed: 5 },
+        undefined,
+        { groups, repeats: 3, seed: 5 },
+      );
+      const [first, second] = evaluation.importance ?? [];
+      assert.equal(first.feature, "signal");
+      assert.ok(first.drop > 0.2);
+      assert.ok(Math.abs(second.drop) < 0.1);
+    });
+  }
+
+  it("is only computed when requested", () => {
+    const { evaluation } = trainAndEvaluate(features, labels, config("RBF"), {
+      mode: "HOLDOUT",
+      testRatio: 0.3,
+      folds: 4,
+      seed: 5,
+    });
+    assert.equal(evaluation.importance, undefined);
+  });
+});
+
+describe("model explanations", () => {
+  const { features, labels } = signalAndNoise(80, 4);
+
+  it("recovers linear weights that reproduce the margins", () => {
+    const pipeline = trainPipeline(features, labels, config("LINEAR"));
+    const [{ weights }] = linearWeights(pipeline) ?? [];
+    assert.ok(Math.abs(weights[0]) > Math.abs(weights[1]));
+
+    const svm = pipeline.models[0].svm;
+    const bias = (svm.toJSON() as { b: number }).b;
+    for (const vector of features.slice(0, 5)) {
+      const margin = weights[0] * vector[0] + weights[1] * vector[1] + bias;
+      assert.ok(Math.abs(margin - svm.marginOne(vector)) < 1e-9);
+    }
+  });
+
+  it("has no linear weights for other kernels", () => {
+    assert.equal(linearWeights(trainPipeline(features, labels, config("RBF"))), null);
+  });
+
+  it("attributes an occluded prediction to the feature that changed", () => {
+    const score = (vector: number[]) => [2 * vector[0] - vector[1]];
+    const [signal, noise] = explainPrediction([1, 1], [0, 0], groups, score);
+    assert.deepEqual(signal, { feature: "signal", deltas: [2] });
+    assert.deepEqual(noise, { feature: "noise", deltas: [-1] });
+  });
+});
@@ -0,0 +1,160 @@
+import { modelKey, type TrainedPipeline } from "@/lib/svm";
+
+/** The encoded columns a source feature expands to, e.g. its one-hot block. */
+export interface FeatureGroup {
+  feature: string;
+  columns: number[];
+}
+
+export interface ImportanceOptions {
+  groups: FeatureGroup[];
+  repeats: number;
+  seed: number;
+}
+
+export interface PermutationImportance {
+  feature: string;
+  /** Mean drop in the evaluation score when the feature is shuffled. */
+  drop: number;
+  std: number;
+}
+
+/** Exact weights of a linear binary model on the scaled features. */
+export interface LinearWeights {
+  model: string;
+  weights: number[];
+}
+
+export interface LocalContribution {
+  feature: string;
+  /** Change in each output score it causes. */
+  deltas: number[];
+}
+
+export const IMPORTANCE_REPEATS = 3;
+
+/** Evaluation rows used per fold; larger folds are subsampled. */
+export const MAX_IMPORTANCE_ROWS = 500;
+
+/** Groups encoded columns by the source column each came from. */
+export function featureGroups(sources: string[]): FeatureGroup[] {
+  const groups = new Map<string, number[]>();
+  sources.forEach((source, index) => {
+    groups.set(source, [...(groups.get(source) ?? []), index]);
+  });
+  return Array.from(groups, ([feature, columns]) => ({ feature, columns }));
+}
+
+function shuffled(count: number, random: () => number) {
+  const order = Array.from({ length: count }, (_, index) => index);
+  for (let index = order.length - 1; index > 0; index -= 1) {
+    const swap = Math.floor(random() * (index + 1));
+    [order[index], order[swap]] = [order[swap], order[index]];
+  }
+  return order;
+}
+
+/**
+ * Shuffles each feature group across the evaluation rows and records how
+ * much `score` drops, once per repeat. Groups are shuffled as a block so
+ * one-hot columns stay consistent. `score` receives the rows in `rows`
+ * order, subsampled to at most `MAX_IMPORTANCE_ROWS`.
+ */
+export function permutationDrops(
+  features: number[][],
+  score: (features: number[][], rows: number[]) => number,
+  options: ImportanceOptions,
+  random: () => number,
+): Record<string, number[]> {
+  const rows =
+    features.length > MAX_IMPORTANCE_ROWS
+      ? shuffled(features.length, random).slice(0, MAX_IMPORTANCE_ROWS)
+      : features.map((_, index) => index);
+  const sample = rows.map((row) => features[row]);
+  const baseline = score(sample, rows);
+
+  return Object.fromEntries(
+    options.groups.map(({ feature, columns }) => {
+      const drops = Array.from({ length: options.repeats }, () => {
+        const order = shuffled(sample.length, random);
+        const permuted = sample.map((vector, index) => {
+          const copy = [...vector];
+          for (const column of columns) copy[column] = sample[order[index]][column];
+          return copy;
+        });
+        return baseline - score(permuted, rows);
+      });
+      return [feature, drops];
+    }),
+  );
+}
+
+/** Pools per-fold drops into one ranked list, largest drop first. */
+export function summarizeImportance(
+  folds: (Record<string, number[]> | undefined)[],
+): PermutationImportance[] | null {
+  const pooled = new Map<string, number[]>();
+  for (const fold of folds) {
+    if (!fold) return null;
+    for (const [feature, drops] of Object.entries(fold)) {
+      pooled.set(feature, [...(pooled.get(feature) ?? []), ...drops]);
+    }
+  }
+  if (!pooled.size) return null;
+  return Array.from(pooled, ([feature, drops]) => {
+    const drop = drops.reduce((sum, value) => sum + value, 0) / drops.length;
+    const variance =
+      drops.reduce((sum, value) => sum + (value - drop) ** 2, 0) / drops.length;
+    return { feature, drop, std: Math.sqrt(variance) };
+  }).sort((a, b) => b.drop - a.drop);
+}
+
+/**
+ * `w = sum(alpha_i * y_i * x_i)` over the support vectors, which ml-svm
+ * keeps as `W` for linear models; for the SVR it is summed here. Null for
+ * other kernels, whose weights have no per-feature form.
+ */
+export function linearWeights(pipeline: TrainedPipeline): LinearWeights[] | null {
+  const { regressor } = pipeline;
+  if (regressor) {
+    if (regressor.kernel !== "LINEAR") return null;
+    const dimension = regressor.supportVectors[0]?.length ?? 0;
+    const weights = Array.from({ length: dimension }, (_, column) =>
+      regressor.supportVectors.reduce(
+        (sum, vector, index) => sum + regressor.coefficients[index] * vector[column],
+        0,
+      ),
+    );
+    return [{ model: "value", weights }];
+  }
+  const models = pipeline.models.map((model) => ({
+    model: modelKey(model),
+    weights: (model.svm.toJSON() as { W?: number[] }).W,
+  }));
+  return models.every((model) => model.weights)
+    ? (models as LinearWeights[])
+    : null;
+}
+
+/**
+ * Occlusion: replaces one feature group at a time with its `baseline`
+ * values (typically the training means) and reports how far each output of
+ * `score` moves. A positive delta means the input's actual value raised it.
+ */
+export function explainPrediction(
+  vector: number[],
+  baseline: number[],
+  groups: FeatureGroup[],
+  score: (vector: number[]) => number[],
+): LocalContribution[] {
+  const original = score(vector);
+  return groups.map(({ feature, columns }) => {
+    const occluded = [...vector];
+    for (const column of columns) occluded[column] = baseline[column];
+    const scores = score(occluded);
+    return {
+      feature,
+      deltas: original.map((value, index) => value - scores[index]),
+    };
+  });
+}
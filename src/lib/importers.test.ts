@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { fitFeatureEncoder } from "@/lib/encoding";
+import { DEFAULT_PARSE_SETTINGS } from "@/lib/ingestion";
+import {
+  detectFormat,
+  importDataset,
+  parseArff,
+  parseJson,
+  parseNdjson,
+} from "@/lib/importers";
+import { SAMPLE_DATASETS } from "@/lib/sample-data";
+
+const WEATHER_ARFF = `% Quinlan's weather data
+@relation weather
+@attribute outlook {sunny, overcast, rainy}
+@attribute 'wind speed' numeric
+@attribute grade {1,2,3}
+@attribute play {yes, no}
+
+@data
+sunny,85,1,no
+'overcast',?,2,yes
+rainy,70,3
+{0 rainy, 2 3, 3 yes}
+`;
+
+describe("dataset importers", () => {
+  it("reads ARFF with declared nominal and numeric attributes", () => {
+    const { rows, columns, declaredTypes, errors } = parseArff(WEATHER_ARFF);
+    assert.deepEqual(columns, ["outlook", "wind speed", "grade", "play"]);
+    assert.deepEqual(declaredTypes, {
+      outlook: "categorical",
+      "wind speed": "numeric",
+      grade: "categorical",
+      play: "categorical",
+    });
+    assert.deepEqual(rows, [
+      { outlook: "sunny", "wind speed": "85", grade: "1", play: "no" },
+      { outlook: "overcast", "wind speed": "", grade: "2", play: "yes" },
+      { outlook: "rainy", "wind speed": "0", grade: "3", play: "yes" },
+    ]);
+    assert.deepEqual(
+      errors.map(({ row, code }) => [row, code]),
+      [[3, "TooFewFields"]],
+    );
+
+    // A nominal attribute with numeric codes is still one-hot encoded.
+    const encoder = fitFeatureEncoder(
+      rows,
+      ["grade"],
+      { encoding: "ONE_HOT", missing: "MEAN", constant: "0" },
+      declaredTypes,
+    );
+    assert.deepEqual(encoder.featureNames, ["grade=1", "grade=2", "grade=3"]);
+  });
+
+  it("reads JSON arrays and NDJSON into string rows", () => {
+    const json = parseJson('[{"a": 1, "b": true}, {"a": 2.5, "c": null}, 3]');
+    assert.deepEqual(json.columns, ["a", "b", "c"]);
+    assert.deepEqual(json.rows, [
+      { a: "1", b: "true", c: "" },
+      { a: "2.5", b: "", c: "" },
+    ]);
+    assert.deepEqual(json.errors.map(({ row }) => row), [3]);
+    assert.throws(() => parseJson('{"a": 1}'), /array of objects/);
+
+    const ndjson = parseNdjson('{"x": 1, "y": "a"}\n\n{"x": 2,\n{"x": 3, "y": "b"}');
+    assert.deepEqual(ndjson.rows, [
+      { x: "1", y: "a" },
+      { x: "3", y: "b" },
+    ]);
+    assert.deepEqual(
+      ndjson.errors.map(({ row, code }) => [row, code]),
+      [[3, "InvalidJson"]],
+    );
+  });
+
+  it("detects pasted formats and reads spreadsheet copies", async () => {
+    assert.equal(detectFormat(" [{}]"), "JSON");
+    assert.equal(detectFormat('{"a": 1}'), "NDJSON");
+    assert.equal(detectFormat("@relation x"), "ARFF");
+
+    const pasted = await importDataset(
+      "height\tweight\tsize\n1.8\t80\tL\n1.6\t55\tS\n",
+      "AUTO",
+      DEFAULT_PARSE_SETTINGS,
+    );
+    assert.deepEqual(pasted.columns, ["height", "weight", "size"]);
+    assert.equal(pasted.rows[1].size, "S");
+  });
+
+  it("loads every gallery dataset", async () => {
+    for (const dataset of SAMPLE_DATASETS) {
+      const { rows, columns, errors } = await importDataset(
+        dataset.csv,
+        "CSV",
+        DEFAULT_PARSE_SETTINGS,
+      );
+      assert.ok(rows.length >= 9, dataset.id);
+      assert.ok(columns.length >= 2, dataset.id);
+      assert.equal(errors.length, 0, dataset.id);
+    }
+  });
+});
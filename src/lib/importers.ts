@@ -0,0 +1,308 @@
+import type { ColumnType } from "@/lib/encoding";
+import {
+  parseTable,
+  type ParseSettings,
+  type ParsedRow,
+  type ParsedTable,
+  type RowError,
+} from "@/lib/ingestion";
+
+export type DatasetFormat = "AUTO" | "CSV" | "TSV" | "JSON" | "NDJSON" | "ARFF";
+
+export const FORMAT_LABELS: Record<DatasetFormat, string> = {
+  AUTO: "Detect from file",
+  CSV: "CSV",
+  TSV: "TSV",
+  JSON: "JSON array of objects",
+  NDJSON: "NDJSON (one object per line)",
+  ARFF: "Weka ARFF",
+};
+
+export const ACCEPTED_EXTENSIONS = ".csv,.tsv,.tab,.txt,.json,.ndjson,.jsonl,.arff";
+
+const EXTENSION_FORMATS: Record<string, Exclude<DatasetFormat, "AUTO">> = {
+  tsv: "TSV",
+  tab: "TSV",
+  json: "JSON",
+  ndjson: "NDJSON",
+  jsonl: "NDJSON",
+  arff: "ARFF",
+};
+
+/** Picks a format from a file's extension, or from the first characters of text. */
+export function detectFormat(input: File | string): Exclude<DatasetFormat, "AUTO"> {
+  if (typeof input !== "string") {
+    const extension = input.name.split(".").pop()?.toLowerCase() ?? "";
+    return EXTENSION_FORMATS[extension] ?? "CSV";
+  }
+  const start = input.trimStart();
+  if (start.startsWith("[")) return "JSON";
+  if (start.startsWith("{")) return "NDJSON";
+  if (/^[@%]/.test(start)) return "ARFF";
+  // Spreadsheet copies are tab-separated; the CSV parser detects the tabs.
+  return "CSV";
+}
+
+function cellText(value: unknown) {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return JSON.stringify(value);
+}
+
+/**
+ * Collects JSON values into rows. Non-object entries become row errors;
+ * columns are every key seen, in first-seen order.
+ */
+function objectTable(items: { value: unknown; raw: string; row: number }[]): ParsedTable {
+  const rows: ParsedRow[] = [];
+  const errors: RowError[] = [];
+  const columns = new Set<string>();
+  for (const { value, raw, row } of items) {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      errors.push({
+        row,
+        code: "NotAnObject",
+        message: "Expected an object of column values",
+        values: [raw],
+      });
+      continue;
+    }
+    const parsed: ParsedRow = {};
+    for (const [column, cell] of Object.entries(value)) {
+      columns.add(column);
+      parsed[column] = cellText(cell);
+    }
+    rows.push(parsed);
+  }
+  const columnList = Array.from(columns);
+  // Keys missing from an object are missing values, not malformed rows.
+  for (const row of rows) {
+    for (const column of columnList) row[column] ??= "";
+  }
+  return { rows, columns: columnList, declaredTypes: {}, errors };
+}
+
+export function parseJson(text: string) {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON: ${error instanceof Error ? error.message : "could not parse"}`,
+    );
+  }
+  if (!Array.isArray(data)) {
+    throw new Error("JSON input must be an array of objects.");
+  }
+  return objectTable(
+    data.map((value, index) => ({
+      value,
+      raw: JSON.stringify(value),
+      row: index + 1,
+    })),
+  );
+}
+
+export function parseNdjson(text: string) {
+  const items: { value: unknown; raw: string; row: number }[] = [];
+  const errors: RowError[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      items.push({ value: JSON.parse(line), raw: line, row: index + 1 });
+    } catch (error) {
+      errors.push({
+        row: index + 1,
+        code: "InvalidJson",
+        message: error instanceof Error ? error.message : "Invalid JSON",
+        values: [line],
+      });
+    }
+  });
+  const table = objectTable(items);
+  // NDJSON rows are line numbers, so keep the report in file order.
+  table.errors = [...errors, ...table.errors].sort((a, b) => a.row - b.row);
+  return table;
+}
+
+/** Splits an ARFF value list on commas, honouring single and double quotes. */
+function splitArffValues(line: string) {
+  const values: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  let quoted = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const character = line[index];
+    if (quote) {
+      if (character === "\\" && index + 1 < line.length) {
+        current += line[(index += 1)];
+      } else if (character === quote) {
+        quote = null;
+      } else {
+        current += character;
+      }
+    } else if (character === "'" || character === '"') {
+      quote = character;
+      quoted = true;
+    } else if (character === ",") {
+      values.push(quoted ? current : current.trim());
+      current = "";
+      quoted = false;
+    } else {
+      current += character;
+    }
+  }
+  values.push(quoted ? current : current.trim());
+  return values;
+}
+
+interface ArffAttribute {
+  name: string;
+  type: ColumnType;
+  /** Declared values of a nominal attribute. */
+  values: string[] | null;
+}
+
+function parseAttribute(declaration: string, line: number): ArffAttribute {
+  const rest = declaration.slice("@attribute".length).trim();
+  let name: string;
+  let spec: string;
+  if (rest.startsWith("'") || rest.startsWith('"')) {
+    const end = rest.indexOf(rest[0], 1);
+    if (end < 0) throw new Error(`Unterminated attribute name on line ${line}.`);
+    name = rest.slice(1, end);
+    spec = rest.slice(end + 1).trim();
+  } else {
+    const [first] = rest.split(/\s/, 1);
+    name = first;
+    spec = rest.slice(first.length).trim();
+  }
+  if (!name || !spec) throw new Error(`Incomplete attribute on line ${line}.`);
+
+  if (spec.startsWith("{")) {
+    const values = splitArffValues(spec.slice(1, spec.lastIndexOf("}")));
+    return { name, type: "categorical", values };
+  }
+  const kind = spec.split(/\s/, 1)[0].toLowerCase();
+  if (kind === "numeric" || kind === "real" || kind === "integer") {
+    return { name, type: "numeric", values: null };
+  }
+  if (kind === "string" || kind === "date") {
+    return { name, type: "categorical", values: null };
+  }
+  throw new Error(`Unsupported ARFF attribute type "${kind}" on line ${line}.`);
+}
+
+/**
+ * Weka ARFF: numeric and nominal attributes become declared column types.
+ * Dense and sparse data rows are supported; `?` marks a missing value.
+ */
+export function parseArff(text: string): ParsedTable {
+  const attributes: ArffAttribute[] = [];
+  const rows: ParsedRow[] = [];
+  const errors: RowError[] = [];
+  let inData = false;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("%")) return;
+    if (!inData) {
+      const keyword = line.split(/\s/, 1)[0].toLowerCase();
+      if (keyword === "@relation") return;
+      if (keyword === "@attribute") {
+        attributes.push(parseAttribute(line, index + 1));
+      } else if (keyword === "@data") {
+        inData = true;
+      } else {
+        throw new Error(`Unexpected ARFF header line ${index + 1}: ${line}`);
+      }
+      return;
+    }
+
+    const rowNumber = rows.length + errors.length + 1;
+    let values: string[];
+    if (line.startsWith("{")) {
+      // Sparse rows list "index value" pairs; omitted cells are zero.
+      values = attributes.map((attribute) =>
+        attribute.type === "numeric" ? "0" : (attribute.values?.[0] ?? ""),
+      );
+      for (const entry of splitArffValues(line.slice(1, line.lastIndexOf("}")))) {
+        if (!entry) continue;
+        const [position] = entry.split(/\s/, 1);
+        const column = Number(position);
+        if (!Number.isInteger(column) || column < 0 || column >= attributes.length) {
+          errors.push({
+            row: rowNumber,
+            code: "InvalidSparseIndex",
+            message: `Sparse index "${position}" is out of range`,
+            values: [line],
+          });
+          return;
+        }
+        values[column] = entry.slice(position.length).trim();
+      }
+    } else {
+      values = splitArffValues(line);
+      if (values.length !== attributes.length) {
+        errors.push({
+          row: rowNumber,
+          code: values.length < attributes.length ? "TooFewFields" : "TooManyFields",
+          message: `Expected ${attributes.length} values but parsed ${values.length}`,
+          values,
+        });
+        return;
+      }
+    }
+    rows.push(
+      Object.fromEntries(
+        attributes.map(({ name }, column) => [
+          name,
+          values[column] === "?" ? "" : values[column],
+        ]),
+      ),
+    );
+  });
+
+  if (!inData) throw new Error("The ARFF file has no @data section.");
+  return {
+    rows,
+    columns: attributes.map(({ name }) => name),
+    declaredTypes: Object.fromEntries(
+      attributes.map(({ name, type }) => [name, type]),
+    ),
+    errors,
+  };
+}
+
+async function readText(input: File | string, encoding: string) {
+  if (typeof input === "string") return input;
+  return new TextDecoder(encoding).decode(await input.arrayBuffer());
+}
+
+/**
+ * Reads a dataset in any supported format. Delimited text is streamed in
+ * chunks; JSON and ARFF are read whole, so progress jumps to the end.
+ */
+export async function importDataset(
+  input: File | string,
+  format: DatasetFormat,
+  settings: ParseSettings,
+  onProgress?: (fraction: number) => void,
+): Promise<ParsedTable> {
+  const resolved = format === "AUTO" ? detectFormat(input) : format;
+  if (resolved === "CSV") return parseTable(input, settings, onProgress);
+  if (resolved === "TSV") {
+    return parseTable(input, { ...settings, delimiter: "\t" }, onProgress);
+  }
+
+  const text = await readText(input, settings.encoding);
+  const table =
+    resolved === "JSON"
+      ? parseJson(text)
+      : resolved === "NDJSON"
+        ? parseNdjson(text)
+        : parseArff(text);
+  onProgress?.(1);
+  return table;
+}
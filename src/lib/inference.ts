@@ -0,0 +1,187 @@
+import { scoreBatch } from "@/lib/batch";
+import { isRequired } from "@/lib/encoding";
+import type { ModelBundle } from "@/lib/model-bundle";
+import type { LearningTask } from "@/lib/regression";
+import { modelClasses, type TrainedPipeline } from "@/lib/svm";
+
+export interface InferencePrediction {
+  /** Predicted class, or the predicted value as text for regression. */
+  label: string;
+  /** Regression output; absent for classifiers. */
+  value?: number;
+  /** Per-class decision scores, as in the batch prediction export. */
+  scores: Record<string, number>;
+  /** Calibrated class probabilities, when the model was calibrated. */
+  probabilities: Record<string, number> | null;
+}
+
+export interface ModelSchema {
+  labelColumn: string;
+  task: LearningTask;
+  classes: string[];
+  features: {
+    column: string;
+    type: string;
+    /** Known categories for categorical features. */
+    categories: string[];
+    /** False when missing values are imputed. */
+    required: boolean;
+  }[];
+}
+
+export const MAX_INSTANCES = 10000;
+
+/** Rejected input; the message is safe to return to the caller. */
+export class InvalidRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidRequestError";
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function describeSchema(bundle: ModelBundle): ModelSchema {
+  return {
+    labelColumn: bundle.labelColumn,
+    task: bundle.task,
+    classes: modelClasses(bundle.models),
+    features: bundle.encoder.columns.map((column) => ({
+      column: column.column,
+      type: column.type,
+      categories: column.categories,
+      required: isRequired(column),
+    })),
+  };
+}
+
+function toCell(value: unknown, context: string) {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new InvalidRequestError(`${context} must be a finite number.`);
+    }
+    return String(value);
+  }
+  if (typeof value === "string") return value;
+  if (typeof value === "boolean") return value ? "true" : "false";
+  throw new InvalidRequestError(
+    `${context} must be a number, string, boolean or null.`,
+  );
+}
+
+function instanceToRecord(
+  instance: unknown,
+  featureColumns: string[],
+  position: string,
+) {
+  if (Array.isArray(instance)) {
+    if (instance.length !== featureColumns.length) {
+      throw new InvalidRequestError(
+        `${position} has ${instance.length} values; the model expects ${featureColumns.length} (${featureColumns.join(", ")}).`,
+      );
+    }
+    return Object.fromEntries(
+      featureColumns.map((column, index) => [
+        column,
+        toCell(instance[index], `${position} "${column}"`),
+      ]),
+    );
+  }
+  if (!isRecord(instance)) {
+    throw new InvalidRequestError(
+      `${position} must be an object keyed by feature column or an array of values.`,
+    );
+  }
+  const unknown = Object.keys(instance).filter(
+    (key) => !featureColumns.includes(key),
+  );
+  if (unknown.length) {
+    throw new InvalidRequestError(
+      `${position} has unknown features: ${unknown.join(", ")} (expected: ${featureColumns.join(", ")}).`,
+    );
+  }
+  return Object.fromEntries(
+    featureColumns.map((column) => [
+      column,
+      toCell(instance[column], `${position} "${column}"`),
+    ]),
+  );
+}
+
+/**
+ * Reads `{ instance }` or `{ instances: [...] }` into raw records keyed by
+ * the model's feature columns.
+ */
+export function parseInstances(body: unknown, featureColumns: string[]) {
+  if (!isRecord(body)) {
+    throw new InvalidRequestError(
+      'Request body must be a JSON object with "instance" or "instances".',
+    );
+  }
+  if ("instance" in body) {
+    return {
+      batch: false,
+      records: [instanceToRecord(body.instance, featureColumns, "Instance")],
+    };
+  }
+  if (!Array.isArray(body.instances) || !body.instances.length) {
+    throw new InvalidRequestError(
+      '"instances" must be a non-empty array of feature vectors.',
+    );
+  }
+  if (body.instances.length > MAX_INSTANCES) {
+    throw new InvalidRequestError(
+      `At most ${MAX_INSTANCES} instances can be scored per request.`,
+    );
+  }
+  return {
+    batch: true,
+    records: body.instances.map((instance, index) =>
+      instanceToRecord(instance, featureColumns, `Instance ${index}`),
+    ),
+  };
+}
+
+/**
+ * Scores raw records with the browser's batch scorer, so server and
+ * playground predictions are identical. Any row that cannot be encoded
+ * rejects the whole request.
+ */
+export function predictRecords(
+  bundle: ModelBundle,
+  pipeline: TrainedPipeline,
+  records: Record<string, string>[],
+  batch: boolean,
+): InferencePrediction[] {
+  const identity = Object.fromEntries(
+    bundle.featureColumns.map((column) => [column, column]),
+  );
+  const result = scoreBatch(pipeline, bundle.encoder, records, identity);
+  const failed = result.predictions.find((prediction) => prediction.error);
+  if (failed) {
+    throw new InvalidRequestError(
+      batch ? `Instance ${failed.row - 1}: ${failed.error}` : `${failed.error}`,
+    );
+  }
+  return result.predictions.map((prediction) => {
+    const label = prediction.label ?? "";
+    return {
+      label,
+      ...(result.task === "REGRESSION" ? { value: Number(label) } : {}),
+      scores: Object.fromEntries(
+        result.classes.map((name, index) => [name, prediction.margins[index]]),
+      ),
+      probabilities: prediction.probabilities
+        ? Object.fromEntries(
+            result.classes.map((name, index) => [
+              name,
+              prediction.probabilities?.[index] ?? 0,
+            ]),
+          )
+        : null,
+    };
+  });
+}
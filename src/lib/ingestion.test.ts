@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createSeededRandom, stratifiedSample } from "@/lib/evaluation";
+import { DEFAULT_PARSE_SETTINGS, errorReportCsv, parseTable } from "@/lib/ingestion";
+
+describe("dataset ingestion", () => {
+  it("skips malformed rows across chunks and reports them", async () => {
+    // Enough rows to span several parser chunks.
+    const lines = ["x;y;label"];
+    for (let index = 1; index <= 150000; index += 1) {
+      lines.push(index % 50000 === 0 ? `${index};1` : `${index};${index * 2};a`);
+    }
+    const fractions: number[] = [];
+    const { rows, columns, errors } = await parseTable(
+      lines.join("\n"),
+      { ...DEFAULT_PARSE_SETTINGS, delimiter: ";" },
+      (fraction) => fractions.push(fraction),
+    );
+
+    assert.deepEqual(columns, ["x", "y", "label"]);
+    assert.equal(rows.length, 149997);
+    assert.deepEqual(
+      errors.map(({ row, code }) => [row, code]),
+      [
+        [50000, "TooFewFields"],
+        [100000, "TooFewFields"],
+        [150000, "TooFewFields"],
+      ],
+    );
+    assert.ok(fractions.length > 1);
+    assert.equal(fractions.at(-1), 1);
+    assert.match(errorReportCsv(errors), /^row,code,message,values\r\n50000,TooFewFields,/);
+  });
+
+  it("samples rows while keeping each label's share", () => {
+    const labels = [
+      ...Array.from({ length: 90 }, () => "common"),
+      ...Array.from({ length: 10 }, () => "rare"),
+    ];
+    const sample = stratifiedSample(labels, 20, createSeededRandom(3));
+    assert.equal(sample.length, 20);
+    assert.equal(sample.filter((index) => labels[index] === "rare").length, 2);
+    assert.deepEqual(sample, [...sample].sort((a, b) => a - b));
+    assert.throws(() => stratifiedSample(labels, 1, createSeededRandom(3)));
+  });
+});
@@ -0,0 +1,135 @@
+import Papa from "papaparse";
+import type { ColumnType } from "@/lib/encoding";
+
+export type ParsedRow = Record<string, string>;
+
+export interface ParseSettings {
+  /** Empty string lets the parser detect the delimiter. */
+  delimiter: string;
+  /** Text encoding used to decode uploaded files. */
+  encoding: string;
+}
+
+export const DEFAULT_PARSE_SETTINGS: ParseSettings = {
+  delimiter: "",
+  encoding: "UTF-8",
+};
+
+export const DELIMITER_LABELS: Record<string, string> = {
+  "": "Auto-detect",
+  ",": "Comma",
+  ";": "Semicolon",
+  "\t": "Tab",
+  "|": "Pipe",
+};
+
+export const ENCODING_LABELS: Record<string, string> = {
+  "UTF-8": "UTF-8",
+  "UTF-16LE": "UTF-16 LE",
+  "ISO-8859-1": "Latin-1 (ISO-8859-1)",
+  "windows-1252": "Windows-1252",
+  Shift_JIS: "Shift JIS",
+};
+
+/** Datasets above this size are slow to train with SMO; sampling is suggested. */
+export const LARGE_DATASET_ROWS = 5000;
+
+/** Files are read and parsed in slices of this many bytes. */
+const CHUNK_SIZE = 1024 * 1024;
+
+export interface RowError {
+  /** 1-based data row, not counting the header. */
+  row: number;
+  code: string;
+  message: string;
+  /** Raw values as parsed, including any beyond the header's columns. */
+  values: string[];
+}
+
+export interface ParsedTable {
+  rows: ParsedRow[];
+  columns: string[];
+  /** Types declared by the source format; other columns are inferred. */
+  declaredTypes: Record<string, ColumnType>;
+  /** Rows skipped because they could not be parsed cleanly. */
+  errors: RowError[];
+}
+
+type RawRow = ParsedRow & { __parsed_extra?: string[] };
+
+function rawValues({ __parsed_extra: extra, ...row }: RawRow) {
+  return [...Object.values(row), ...(extra ?? [])];
+}
+
+/**
+ * Parses a CSV file or string in chunks, reporting the fraction read so far.
+ * Rows whose field count does not match the header are skipped and returned
+ * as errors instead of failing the whole file.
+ */
+export function parseTable(
+  input: File | string,
+  settings: ParseSettings,
+  onProgress?: (fraction: number) => void,
+) {
+  const total = typeof input === "string" ? input.length : input.size;
+  const rows: ParsedRow[] = [];
+  const errors: RowError[] = [];
+  let columns: string[] = [];
+  let offset = 0;
+
+  return new Promise<ParsedTable>((resolve, reject) => {
+    Papa.parse<RawRow>(input, {
+      header: true,
+      skipEmptyLines: true,
+      dynamicTyping: false,
+      delimiter: settings.delimiter,
+      // Only applies to files; strings are already decoded.
+      encoding: settings.encoding,
+      chunkSize: CHUNK_SIZE,
+      chunk: ({ data, errors: chunkErrors, meta }) => {
+        // Field mismatches count data rows across the whole input; other
+        // errors count raw lines of this chunk, including the header line.
+        const headerLines = columns.length ? 0 : 1;
+        if (!columns.length) columns = meta.fields ?? [];
+        const malformed = new Map<number, Papa.ParseError>();
+        for (const error of chunkErrors) {
+          if (error.row === undefined) continue;
+          const row =
+            error.type === "FieldMismatch" ? error.row - offset : error.row - headerLines;
+          if (row >= 0 && row < data.length && !malformed.has(row)) {
+            malformed.set(row, error);
+          }
+        }
+        data.forEach((row, index) => {
+          const error = malformed.get(index);
+          if (error) {
+            errors.push({
+              row: offset + index + 1,
+              code: error.code,
+              message: error.message,
+              values: rawValues(row),
+            });
+          } else if (Object.values(row).some((value) => value !== "")) {
+            rows.push(row);
+          }
+        });
+        offset += data.length;
+        onProgress?.(total ? Math.min(1, meta.cursor / total) : 1);
+      },
+      complete: () => resolve({ rows, columns, declaredTypes: {}, errors }),
+      error: (error) => reject(error),
+    });
+  });
+}
+
+export function errorReportCsv(errors: RowError[]) {
+  return Papa.unparse({
+    fields: ["row", "code", "message", "values"],
+    data: errors.map(({ row, code, message, values }) => [
+      row,
+      code,
+      message,
+      values.join(" | "),
+    ]),
+  });
+}
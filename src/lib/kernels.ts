@@ -0,0 +1,180 @@
+import Papa from "papaparse";
+import type { KernelKey } from "@/lib/svm";
+
+/** A kernel ml-kernel accepts in place of a built-in kernel name. */
+export interface CustomKernel {
+  readonly name: CustomKernelName;
+  compute(x: number[], y: number[]): number;
+}
+
+export type CustomKernelName = "chi-squared" | "precomputed";
+
+export interface KernelSpec {
+  label: string;
+  /** How gamma enters the kernel and its blank default; null when unused. */
+  gamma: { role: string; auto: string } | null;
+  degree: boolean;
+  coef0: boolean;
+  /** Whether a hyperparameter search sweeps gamma for this kernel. */
+  searchGamma: boolean;
+}
+
+export const KERNELS: Record<KernelKey, KernelSpec> = {
+  LINEAR: {
+    label: "Linear",
+    gamma: null,
+    degree: false,
+    coef0: false,
+    searchGamma: false,
+  },
+  POLY: {
+    label: "Polynomial",
+    gamma: { role: "scales the dot product", auto: "1" },
+    degree: true,
+    coef0: true,
+    searchGamma: false,
+  },
+  RBF: {
+    label: "Radial Basis (RBF)",
+    gamma: { role: "inverse squared width", auto: "1 / features" },
+    degree: false,
+    coef0: false,
+    searchGamma: true,
+  },
+  SIGMOID: {
+    label: "Sigmoid",
+    gamma: { role: "scales the dot product", auto: "0.01" },
+    degree: false,
+    coef0: true,
+    searchGamma: false,
+  },
+  LAPLACIAN: {
+    label: "Laplacian",
+    gamma: { role: "inverse width", auto: "1 / features" },
+    degree: false,
+    coef0: false,
+    searchGamma: true,
+  },
+  CHI_SQUARED: {
+    label: "Chi-squared (non-negative features)",
+    gamma: { role: "scales the chi-squared distance", auto: "1" },
+    degree: false,
+    coef0: false,
+    searchGamma: true,
+  },
+  PRECOMPUTED: {
+    label: "Precomputed (Gram matrix)",
+    gamma: null,
+    degree: false,
+    coef0: false,
+    searchGamma: false,
+  },
+};
+
+/** Kernels that compute on feature values, i.e. everything but a Gram matrix. */
+export const FEATURE_KERNELS = (Object.keys(KERNELS) as KernelKey[]).filter(
+  (kernel) => kernel !== "PRECOMPUTED",
+);
+
+/**
+ * Exponentiated chi-squared kernel, `exp(-gamma * sum((x - y)^2 / (x + y)))`,
+ * the usual choice for histograms and counts. Terms where both values are 0
+ * contribute nothing.
+ */
+export class ChiSquaredKernel implements CustomKernel {
+  readonly name = "chi-squared";
+  readonly gamma: number;
+
+  constructor(options: { gamma?: number } = {}) {
+    this.gamma = options.gamma ?? 1;
+  }
+
+  compute(x: number[], y: number[]) {
+    let distance = 0;
+    for (let index = 0; index < x.length; index += 1) {
+      const sum = x[index] + y[index];
+      if (sum !== 0) distance += (x[index] - y[index]) ** 2 / sum;
+    }
+    return Math.exp(-this.gamma * distance);
+  }
+}
+
+/**
+ * Looks kernel values up in a Gram matrix. Rows built by `precomputedFeatures`
+ * start with their own index, so `K(x, y)` is x's entry in column `y[0]`.
+ * That keeps lookups valid for any subset of rows, as evaluation splits need.
+ */
+export class PrecomputedKernel implements CustomKernel {
+  readonly name = "precomputed";
+
+  compute(x: number[], y: number[]) {
+    return x[1 + y[0]];
+  }
+}
+
+/** Rebuilds a custom kernel from the name and options stored in a model. */
+export function createCustomKernel(
+  name: string,
+  options?: Record<string, number>,
+): CustomKernel | null {
+  if (name === "chi-squared") return new ChiSquaredKernel(options);
+  if (name === "precomputed") return new PrecomputedKernel();
+  return null;
+}
+
+/** Gram-matrix training rows: each row's index followed by its kernel row. */
+export function precomputedFeatures(gram: number[][], rows: number[]) {
+  return rows.map((row) => [row, ...gram[row]]);
+}
+
+function isNumeric(cell: string) {
+  return cell.trim() !== "" && Number.isFinite(Number(cell));
+}
+
+/**
+ * Parses a square, symmetric kernel matrix from CSV, one row and column per
+ * dataset row and in the same order. A non-numeric first line is treated as
+ * a header and skipped.
+ */
+export function parseGramMatrix(text: string, expectedRows: number) {
+  const { data, errors } = Papa.parse<string[]>(text.trim(), {
+    skipEmptyLines: true,
+  });
+  if (errors.length) {
+    throw new Error(`Gram matrix parsing error: ${errors[0].message}`);
+  }
+  const rows = data.length && !data[0].every(isNumeric) ? data.slice(1) : data;
+  if (rows.length !== expectedRows) {
+    throw new Error(
+      `The Gram matrix has ${rows.length} rows but the dataset has ${expectedRows}.`,
+    );
+  }
+
+  const gram = rows.map((row, index) => {
+    if (row.length !== rows.length) {
+      throw new Error(
+        `Gram matrix row ${index + 1} has ${row.length} values; expected ${rows.length}.`,
+      );
+    }
+    return row.map((cell, column) => {
+      if (!isNumeric(cell)) {
+        throw new Error(
+          `Gram matrix entry (${index + 1}, ${column + 1}) is not a number: "${cell}".`,
+        );
+      }
+      return Number(cell);
+    });
+  });
+
+  for (let i = 0; i < gram.length; i += 1) {
+    for (let j = i + 1; j < gram.length; j += 1) {
+      const tolerance = 1e-6 * Math.max(1, Math.abs(gram[i][j]));
+      if (Math.abs(gram[i][j] - gram[j][i]) > tolerance) {
+        throw new Error(
+          `The Gram matrix must be symmetric; entries (${i + 1}, ${j + 1}) and (${j + 1}, ${i + 1}) differ.`,
+        );
+      }
+    }
+  }
+  return gram;
+}
@@ -0,0 +1,14 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildClassificationReport } from "@/lib/metrics";
+
+describe("classification report", () => {
+  it("averages recall only over labels that occur", () => {
+    // "c" is predicted once but never occurs, so it must not dilute the mean.
+    const actual = ["a", "a", "a", "a", "b", "b"];
+    const predicted = ["a", "a", "a", "c", "b", "a"];
+    const report = buildClassificationReport(actual, predicted);
+    assert.equal(report.balancedAccuracy, (3 / 4 + 1 / 2) / 2);
+    assert.notEqual(report.balancedAccuracy, report.macro.recall);
+  });
+});
@@ -0,0 +1,104 @@
+export interface ClassMetrics {
+  label: string;
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+export interface AveragedMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface ClassificationReport {
+  labels: string[];
+  /** Rows are actual labels, columns are predicted labels. */
+  matrix: number[][];
+  classes: ClassMetrics[];
+  accuracy: number;
+  /** Mean recall over the labels that actually occur. */
+  balancedAccuracy: number;
+  macro: AveragedMetrics;
+  weighted: AveragedMetrics;
+  total: number;
+}
+
+function safeDivide(numerator: number, denominator: number) {
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+/**
+ * Builds a confusion matrix and per-class precision/recall/F1 from paired
+ * actual and predicted labels. Labels are ordered by first appearance,
+ * actual values first, unless an explicit order is given.
+ */
+export function buildClassificationReport(
+  actual: string[],
+  predicted: string[],
+  labelOrder?: string[],
+): ClassificationReport {
+  if (actual.length !== predicted.length) {
+    throw new Error("Actual and predicted labels must have the same length.");
+  }
+
+  const labels = Array.from(
+    new Set([...(labelOrder ?? []), ...actual, ...predicted]),
+  );
+  const position = new Map(labels.map((label, index) => [label, index]));
+  const matrix = labels.map(() => labels.map(() => 0));
+
+  actual.forEach((label, index) => {
+    matrix[position.get(label)!][position.get(predicted[index])!] += 1;
+  });
+
+  const classes = labels.map((label, index) => {
+    const truePositives = matrix[index][index];
+    const support = matrix[index].reduce((sum, count) => sum + count, 0);
+    const predictedCount = matrix.reduce((sum, row) => sum + row[index], 0);
+    const precision = safeDivide(truePositives, predictedCount);
+    const recall = safeDivide(truePositives, support);
+    return {
+      label,
+      precision,
+      recall,
+      f1: safeDivide(2 * precision * recall, precision + recall),
+      support,
+    };
+  });
+
+  const total = actual.length;
+  const correct = labels.reduce((sum, _, index) => sum + matrix[index][index], 0);
+
+  // Labels that were only ever predicted have no recall to average.
+  const present = classes.filter((metrics) => metrics.support > 0);
+
+  const average = (weight: (metrics: ClassMetrics) => number) => {
+    const totalWeight = classes.reduce((sum, metrics) => sum + weight(metrics), 0);
+    const combine = (value: (metrics: ClassMetrics) => number) =>
+      safeDivide(
+        classes.reduce((sum, metrics) => sum + value(metrics) * weight(metrics), 0),
+        totalWeight,
+      );
+    return {
+      precision: combine((metrics) => metrics.precision),
+      recall: combine((metrics) => metrics.recall),
+      f1: combine((metrics) => metrics.f1),
+    };
+  };
+
+  return {
+    labels,
+    matrix,
+    classes,
+    accuracy: safeDivide(correct, total),
+    balancedAccuracy: safeDivide(
+      present.reduce((sum, metrics) => sum + metrics.recall, 0),
+      present.length,
+    ),
+    macro: average(() => 1),
+    weighted: average((metrics) => metrics.support),
+    total,
+  };
+}
@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { numericEncoder } from "@/lib/encoding";
+import { createSeededRandom } from "@/lib/evaluation";
+import { createModelBundle, parseModelBundle, restorePipeline } from "@/lib/model-bundle";
+import { trainPipeline, type ModelParameters } from "@/lib/svm";
+
+const parameters: ModelParameters = {
+  kernel: "RBF",
+  cost: 1,
+  gamma: null,
+  degree: 3,
+  multiclass: "OVR",
+};
+const features = [[0, 0], [0, 1], [1, 0], [3, 3], [3, 4], [4, 3]];
+const labels = ["low", "low", "low", "high", "high", "high"];
+
+function exportedBundle() {
+  const pipeline = trainPipeline(features, labels, {
+    ...parameters,
+    scaling: ["STANDARD", "STANDARD"],
+    random: createSeededRandom(1),
+  });
+  return JSON.parse(
+    JSON.stringify(
+      createModelBundle({
+        pipeline,
+        encoder: numericEncoder(["x", "y"]),
+        featureColumns: ["x", "y"],
+        labelColumn: "level",
+        evaluation: null,
+      }),
+    ),
+  );
+}
+
+describe("model bundle validation", () => {
+  it("round-trips an exported bundle", () => {
+    const bundle = parseModelBundle(JSON.stringify(exportedBundle()));
+    assert.equal(restorePipeline(bundle).models.length, 2);
+  });
+
+  it("rejects models that could not be restored", () => {
+    const unknownKernel = exportedBundle();
+    unknownKernel.models[0].svm.options.kernel = "foo";
+    assert.throws(
+      () => parseModelBundle(JSON.stringify(unknownKernel)),
+      /unknown kernel "foo"/,
+    );
+
+    const mismatched = exportedBundle();
+    mismatched.models[0].svm.alphas.pop();
+    assert.throws(() => parseModelBundle(JSON.stringify(mismatched)), /mismatched lengths/);
+
+    const nonFinite = exportedBundle();
+    nonFinite.models[0].svm.Y[0] = "1";
+    assert.throws(() => parseModelBundle(JSON.stringify(nonFinite)), /support vectors/);
+  });
+});
@@ -0,0 +1,414 @@
+import { numericEncoder, type FeatureEncoder } from "@/lib/encoding";
+import type { EvaluationResult } from "@/lib/evaluation";
+import {
+  SCALING_LABELS,
+  identityPreprocessor,
+  type Preprocessor,
+  type ScalingMethod,
+} from "@/lib/preprocessing";
+import type {
+  LearningTask,
+  RegressionEvaluation,
+  SVRModel,
+} from "@/lib/regression";
+import {
+  KERNEL_MAP,
+  MULTICLASS_LABELS,
+  type SolverSettings,
+  deserializePipeline,
+  serializePipeline,
+  type KernelKey,
+  type ModelParameters,
+  type MulticlassStrategy,
+  type SerializedModel,
+  type TrainedPipeline,
+} from "@/lib/svm";
+
+export const MODEL_BUNDLE_FORMAT = "svm-playground-model";
+/**
+ * v2 added `preprocessing`. v1 bundles relied on ml-svm's built-in
+ * whitening, which their stored SVM options still enable, so they load with
+ * an identity preprocessor. v3 added `encoder`; older bundles were
+ * numeric-only. v4 added `task` and `regressor`; older bundles were always
+ * classifiers. v5 added `coef0`, `solver` and the Laplacian and chi-squared
+ * kernels, which earlier readers cannot load. v6 moved mean, median and mode
+ * imputation into the pipeline: such encoder columns emit NaN, filled by the
+ * preprocessing `fill` fitted on the training rows.
+ */
+export const MODEL_BUNDLE_VERSION = 6;
+const SUPPORTED_VERSIONS = [1, 2, 3, 4, 5, MODEL_BUNDLE_VERSION];
+
+export interface ModelBundle {
+  format: typeof MODEL_BUNDLE_FORMAT;
+  version: number;
+  createdAt: string;
+  parameters: ModelParameters;
+  /** Order matters: feature vectors are built in this column order. */
+  featureColumns: string[];
+  labelColumn: string;
+  task: LearningTask;
+  evaluation: EvaluationResult | RegressionEvaluation | null;
+  encoder: FeatureEncoder;
+  preprocessing: Preprocessor;
+  /** Empty for regression bundles, which store `regressor` instead. */
+  models: SerializedModel[];
+  regressor?: SVRModel;
+}
+
+// Gram-matrix models score kernel rows, not feature values.
+const PRECOMPUTED_ERROR =
+  "Precomputed-kernel models need a Gram matrix row per prediction and cannot be exported.";
+
+export interface ModelBundleInput {
+  pipeline: TrainedPipeline;
+  encoder: FeatureEncoder;
+  featureColumns: string[];
+  labelColumn: string;
+  evaluation: EvaluationResult | RegressionEvaluation | null;
+}
+
+export function createModelBundle(input: ModelBundleInput): ModelBundle {
+  const { parameters, preprocessor, models, regressor } = serializePipeline(
+    input.pipeline,
+  );
+  if (parameters.kernel === "PRECOMPUTED") {
+    throw new Error(PRECOMPUTED_ERROR);
+  }
+  return {
+    format: MODEL_BUNDLE_FORMAT,
+    version: MODEL_BUNDLE_VERSION,
+    createdAt: new Date().toISOString(),
+    parameters,
+    featureColumns: input.featureColumns,
+    labelColumn: input.labelColumn,
+    task: regressor ? "REGRESSION" : "CLASSIFICATION",
+    evaluation: input.evaluation,
+    encoder: input.encoder,
+    preprocessing: preprocessor,
+    models,
+    ...(regressor ? { regressor } : {}),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function isFiniteArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every((item) => Number.isFinite(item));
+}
+
+const SVM_KERNELS = new Set<string>(Object.values(KERNEL_MAP));
+
+function modelDimension(svm: Record<string, unknown>) {
+  if (Array.isArray(svm.W)) return svm.W.length;
+  if (Array.isArray(svm.X) && Array.isArray(svm.X[0])) return svm.X[0].length;
+  return null;
+}
+
+function validateSerializedModel(
+  value: unknown,
+  index: number,
+  dimension: number,
+): SerializedModel {
+  if (!isRecord(value) || typeof value.label !== "string" || !isRecord(value.svm)) {
+    throw new Error(`Model ${index + 1} in the bundle is malformed.`);
+  }
+  const { svm } = value;
+  if (!isRecord(svm.options) || typeof svm.options.kernel !== "string") {
+    throw new Error(`Model "${value.label}" is missing its kernel options.`);
+  }
+  if (!SVM_KERNELS.has(svm.options.kernel)) {
+    throw new Error(`Model "${value.label}" uses an unknown kernel "${svm.options.kernel}".`);
+  }
+  if (!Number.isFinite(svm.b)) {
+    throw new Error(`Model "${value.label}" is missing its bias term.`);
+  }
+  const isLinear = svm.options.kernel === "linear";
+  const hasState = isLinear
+    ? isFiniteArray(svm.W)
+    : Array.isArray(svm.X) &&
+      svm.X.length > 0 &&
+      svm.X.every(isFiniteArray) &&
+      isFiniteArray(svm.Y) &&
+      isFiniteArray(svm.alphas);
+  if (!hasState) {
+    throw new Error(`Model "${value.label}" is missing its support vectors.`);
+  }
+  const supportVectors = svm.X as number[][];
+  if (
+    !isLinear &&
+    ((svm.Y as number[]).length !== supportVectors.length ||
+      (svm.alphas as number[]).length !== supportVectors.length ||
+      supportVectors.some((row) => row.length !== supportVectors[0].length))
+  ) {
+    throw new Error(
+      `Model "${value.label}" has support vectors, labels and alphas of mismatched lengths.`,
+    );
+  }
+  const { opponent, platt, stats } = value;
+  if (opponent !== undefined && typeof opponent !== "string") {
+    throw new Error(`Model "${value.label}" has an invalid opponent class.`);
+  }
+  if (
+    platt !== undefined &&
+    (!isRecord(platt) || typeof platt.a !== "number" || typeof platt.b !== "number")
+  ) {
+    throw new Error(`Model "${value.label}" has invalid calibration parameters.`);
+  }
+  const actualDimension = modelDimension(svm);
+  if (actualDimension !== null && actualDimension !== dimension) {
+    throw new Error(
+      `Model "${value.label}" expects ${actualDimension} features but the bundle encodes ${dimension}.`,
+    );
+  }
+  return {
+    label: value.label,
+    ...(opponent === undefined ? {} : { opponent }),
+    svm,
+    ...(platt ? { platt: { a: platt.a as number, b: platt.b as number } } : {}),
+    // Stats are informational, so malformed ones are dropped rather than fatal.
+    ...(isRecord(stats) &&
+    typeof stats.supportVectors === "number" &&
+    typeof stats.iterations === "number" &&
+    typeof stats.converged === "boolean"
+      ? {
+          stats: {
+            supportVectors: stats.supportVectors,
+            iterations: stats.iterations,
+            converged: stats.converged,
+            ...(typeof stats.tol === "number" ? { tol: stats.tol } : {}),
+          },
+        }
+      : {}),
+  };
+}
+
+/** Fills fields that evaluations gained after older bundles were written. */
+function normalizeEvaluation(
+  value: unknown,
+  task: LearningTask,
+): EvaluationResult | RegressionEvaluation | null {
+  if (!isRecord(value)) return null;
+  if (task === "REGRESSION") return value as unknown as RegressionEvaluation;
+  return {
+    margins: [],
+    probabilities: null,
+    ...value,
+  } as unknown as EvaluationResult;
+}
+
+function isNumberArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "number");
+}
+
+function validateRegressor(value: unknown, dimension: number): SVRModel {
+  const valid =
+    isRecord(value) &&
+    typeof value.kernel === "string" &&
+    value.kernel in KERNEL_MAP &&
+    (value.kernelOptions === null || isRecord(value.kernelOptions)) &&
+    typeof value.epsilon === "number" &&
+    typeof value.bias === "number" &&
+    typeof value.iterations === "number" &&
+    isRecord(value.target) &&
+    typeof value.target.center === "number" &&
+    typeof value.target.scale === "number" &&
+    isNumberArray(value.coefficients) &&
+    Array.isArray(value.supportVectors) &&
+    value.supportVectors.length === value.coefficients.length &&
+    value.supportVectors.every(
+      (vector) => isNumberArray(vector) && vector.length === dimension,
+    );
+  if (!valid) {
+    throw new Error("Model bundle has an invalid regression model.");
+  }
+  return value as unknown as SVRModel;
+}
+
+function validateEncoder(
+  value: unknown,
+  featureColumns: string[],
+): FeatureEncoder {
+  const valid =
+    isRecord(value) &&
+    isStringArray(value.featureNames) &&
+    Array.isArray(value.columns) &&
+    value.columns.length === featureColumns.length &&
+    value.columns.every(
+      (column, index) =>
+        isRecord(column) &&
+        column.column === featureColumns[index] &&
+        ["numeric", "categorical", "boolean"].includes(String(column.type)) &&
+        isStringArray(column.categories) &&
+        (column.encoding === null ||
+          column.encoding === "ONE_HOT" ||
+          column.encoding === "ORDINAL") &&
+        (column.fill === null || typeof column.fill === "string") &&
+        (column.impute === undefined ||
+          ["MEAN", "MEDIAN", "MODE"].includes(String(column.impute))),
+    );
+  if (!valid) {
+    throw new Error("Model bundle has an invalid feature encoder.");
+  }
+  return value as unknown as FeatureEncoder;
+}
+
+function validatePreprocessing(
+  value: unknown,
+  dimension: number,
+): Preprocessor {
+  if (
+    !Array.isArray(value) ||
+    value.length !== dimension ||
+    !value.every(
+      (scaler) =>
+        isRecord(scaler) &&
+        typeof scaler.method === "string" &&
+        scaler.method in SCALING_LABELS &&
+        typeof scaler.center === "number" &&
+        typeof scaler.scale === "number" &&
+        scaler.scale !== 0 &&
+        (scaler.fill === undefined || Number.isFinite(scaler.fill)),
+    )
+  ) {
+    throw new Error("Model bundle has invalid preprocessing parameters.");
+  }
+  return value.map((scaler) => ({
+    method: scaler.method as ScalingMethod,
+    center: scaler.center,
+    scale: scaler.scale,
+    ...(scaler.fill === undefined ? {} : { fill: scaler.fill as number }),
+  }));
+}
+
+function isSolver(value: unknown): value is SolverSettings {
+  return (
+    isRecord(value) &&
+    typeof value.tol === "number" &&
+    typeof value.maxPasses === "number" &&
+    typeof value.maxIterations === "number"
+  );
+}
+
+function validateParameters(value: unknown): ModelParameters {
+  if (
+    !isRecord(value) ||
+    typeof value.kernel !== "string" ||
+    !(value.kernel in KERNEL_MAP) ||
+    typeof value.cost !== "number" ||
+    (value.gamma !== null && typeof value.gamma !== "number") ||
+    typeof value.degree !== "number" ||
+    (value.multiclass !== undefined &&
+      !(typeof value.multiclass === "string" && value.multiclass in MULTICLASS_LABELS)) ||
+    (value.coef0 !== undefined && typeof value.coef0 !== "number") ||
+    (value.solver !== undefined && !isSolver(value.solver))
+  ) {
+    throw new Error("Model bundle has invalid hyper-parameters.");
+  }
+  if (value.kernel === "PRECOMPUTED") {
+    throw new Error(PRECOMPUTED_ERROR);
+  }
+  return {
+    kernel: value.kernel as KernelKey,
+    cost: value.cost,
+    gamma: value.gamma,
+    degree: value.degree,
+    // Bundles written before one-vs-one support were always one-vs-rest.
+    multiclass: (value.multiclass as MulticlassStrategy | undefined) ?? "OVR",
+    ...(value.coef0 === undefined ? {} : { coef0: value.coef0 }),
+    ...(value.solver === undefined ? {} : { solver: value.solver }),
+  };
+}
+
+/**
+ * Parses and validates an exported bundle. When `availableColumns` is given
+ * (a dataset is loaded), every feature the model was trained on must exist
+ * in it by name.
+ */
+export function parseModelBundle(
+  text: string,
+  availableColumns?: string[],
+): ModelBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Model file is not valid JSON.");
+  }
+
+  if (!isRecord(data) || data.format !== MODEL_BUNDLE_FORMAT) {
+    throw new Error("File is not an SVM playground model bundle.");
+  }
+  if (typeof data.version !== "number" || !SUPPORTED_VERSIONS.includes(data.version)) {
+    throw new Error(
+      `Unsupported model bundle version ${String(data.version)} (supported: ${SUPPORTED_VERSIONS.join(", ")}).`,
+    );
+  }
+  if (!isStringArray(data.featureColumns) || !data.featureColumns.length) {
+    throw new Error("Model bundle does not list its feature columns.");
+  }
+  if (typeof data.labelColumn !== "string") {
+    throw new Error("Model bundle does not name its label column.");
+  }
+  const task: LearningTask =
+    data.version >= 4 && data.task === "REGRESSION" ? "REGRESSION" : "CLASSIFICATION";
+  if (
+    !Array.isArray(data.models) ||
+    (task === "CLASSIFICATION" && !data.models.length)
+  ) {
+    throw new Error("Model bundle does not contain any models.");
+  }
+
+  const featureColumns = data.featureColumns;
+  const encoder =
+    data.version < 3
+      ? numericEncoder(featureColumns)
+      : validateEncoder(data.encoder, featureColumns);
+  const dimension = encoder.featureNames.length;
+  if (availableColumns?.length) {
+    const missing = featureColumns.filter(
+      (column) => !availableColumns.includes(column),
+    );
+    if (missing.length) {
+      throw new Error(
+        `Loaded dataset is missing feature columns required by the model: ${missing.join(", ")}.`,
+      );
+    }
+  }
+
+  return {
+    format: MODEL_BUNDLE_FORMAT,
+    version: data.version,
+    createdAt: typeof data.createdAt === "string" ? data.createdAt : "",
+    parameters: validateParameters(data.parameters),
+    featureColumns,
+    labelColumn: data.labelColumn,
+    task,
+    evaluation: normalizeEvaluation(data.evaluation, task),
+    encoder,
+    preprocessing:
+      data.version === 1
+        ? identityPreprocessor(dimension)
+        : validatePreprocessing(data.preprocessing, dimension),
+    models: data.models.map((model, index) =>
+      validateSerializedModel(model, index, dimension),
+    ),
+    ...(task === "REGRESSION"
+      ? { regressor: validateRegressor(data.regressor, dimension) }
+      : {}),
+  };
+}
+
+export function restorePipeline(bundle: ModelBundle) {
+  return deserializePipeline({
+    parameters: bundle.parameters,
+    preprocessor: bundle.preprocessing,
+    models: bundle.models,
+    ...(bundle.regressor ? { regressor: bundle.regressor } : {}),
+  });
+}
@@ -0,0 +1,97 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseModelBundle, type ModelBundle } from "@/lib/model-bundle";
+
+export interface RegisteredModel {
+  id: string;
+  registeredAt: string;
+  bundle: ModelBundle;
+}
+
+export interface RegisteredModelSummary {
+  id: string;
+  registeredAt: string;
+  labelColumn: string;
+  featureColumns: string[];
+  task: ModelBundle["task"];
+}
+
+/** Server-side store; override with SVM_MODEL_DIR in deployments. */
+const MODEL_DIRECTORY =
+  process.env.SVM_MODEL_DIR ?? path.join(process.cwd(), ".models");
+
+// Ids become file names, so anything but a UUID is rejected outright.
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+function modelPath(id: string) {
+  return path.join(MODEL_DIRECTORY, `${id}.json`);
+}
+
+function summarize({ id, registeredAt, bundle }: RegisteredModel): RegisteredModelSummary {
+  return {
+    id,
+    registeredAt,
+    labelColumn: bundle.labelColumn,
+    featureColumns: bundle.featureColumns,
+    task: bundle.task,
+  };
+}
+
+/** Stores a bundle already validated with `parseModelBundle`. */
+export async function registerModel(bundle: ModelBundle) {
+  const model: RegisteredModel = {
+    id: randomUUID(),
+    registeredAt: new Date().toISOString(),
+    bundle,
+  };
+  await mkdir(MODEL_DIRECTORY, { recursive: true });
+  await writeFile(modelPath(model.id), JSON.stringify(model));
+  return summarize(model);
+}
+
+/** Returns null for unknown ids. */
+export async function loadModel(id: string): Promise<RegisteredModel | null> {
+  if (!ID_PATTERN.test(id)) return null;
+  let text: string;
+  try {
+    text = await readFile(modelPath(id), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+  const stored = JSON.parse(text) as RegisteredModel;
+  // Re-parse so bundles stored by older versions are upgraded on load.
+  return { ...stored, bundle: parseModelBundle(JSON.stringify(stored.bundle)) };
+}
+
+export async function listModels() {
+  let files: string[];
+  try {
+    files = await readdir(MODEL_DIRECTORY);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  const models = await Promise.all(
+    files
+      .filter((file) => ID_PATTERN.test(path.basename(file, ".json")))
+      .map((file) => loadModel(path.basename(file, ".json"))),
+  );
+  return models
+    .filter((model): model is RegisteredModel => model !== null)
+    .map(summarize)
+    .sort((a, b) => b.registeredAt.localeCompare(a.registeredAt));
+}
+
+/** Returns false when there was nothing to delete. */
+export async function deleteModel(id: string) {
+  if (!ID_PATTERN.test(id)) return false;
+  try {
+    await rm(modelPath(id));
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+    throw error;
+  }
+}
@@ -0,0 +1,153 @@
+export type ScalingMethod = "NONE" | "STANDARD" | "MINMAX" | "ROBUST";
+export type ImputationStrategy = "MEAN" | "MEDIAN" | "MODE";
+
+/**
+ * How missing (NaN) cells of one encoded column are filled. The columns
+ * encoded from one source share a `group`, so MODE fills a one-hot block
+ * with a single category.
+ */
+export interface FeatureImputation {
+  strategy: ImputationStrategy;
+  group: number;
+}
+
+/** Per-column affine transform: `(value - center) / scale`. */
+export interface FittedScaler {
+  method: ScalingMethod;
+  center: number;
+  scale: number;
+  /** Substituted for missing (NaN) values before scaling. */
+  fill?: number;
+}
+
+/** Scalers aligned with the model's feature column order. */
+export type Preprocessor = FittedScaler[];
+
+export const SCALING_LABELS: Record<ScalingMethod, string> = {
+  NONE: "None (raw values)",
+  STANDARD: "Standardize (z-score)",
+  MINMAX: "Min-max [0, 1]",
+  ROBUST: "Robust (median / IQR)",
+};
+
+function quantile(sorted: number[], q: number) {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function fitScaler(values: number[], method: ScalingMethod): FittedScaler {
+  if (method === "NONE" || !values.length) {
+    return { method, center: 0, scale: 1 };
+  }
+
+  let center = 0;
+  let spread = 0;
+  if (method === "STANDARD") {
+    center = values.reduce((sum, value) => sum + value, 0) / values.length;
+    spread = Math.sqrt(
+      values.reduce((sum, value) => sum + (value - center) ** 2, 0) /
+        values.length,
+    );
+  } else if (method === "MINMAX") {
+    center = values.reduce((low, value) => Math.min(low, value), Infinity);
+    spread =
+      values.reduce((high, value) => Math.max(high, value), -Infinity) - center;
+  } else {
+    const sorted = [...values].sort((a, b) => a - b);
+    center = quantile(sorted, 0.5);
+    spread = quantile(sorted, 0.75) - quantile(sorted, 0.25);
+  }
+
+  // Constant columns keep their offset but are not divided by zero.
+  return { method, center, scale: spread > 0 ? spread : 1 };
+}
+
+function mostFrequent(values: number[]) {
+  const counts = new Map<number, number>();
+  let best = values[0];
+  for (const value of values) {
+    const count = (counts.get(value) ?? 0) + 1;
+    counts.set(value, count);
+    if (count > (counts.get(best) ?? 0)) best = value;
+  }
+  return best;
+}
+
+/**
+ * Fill values for the imputed columns, from their present values. A one-hot
+ * block's mode is its most frequent category, so exactly one column gets 1.
+ * Columns with no present value fall back to 0.
+ */
+function fitFills(features: number[][], imputation: (FeatureImputation | null)[]) {
+  const present = (column: number) =>
+    features.map((vector) => vector[column]).filter((value) => !Number.isNaN(value));
+  return imputation.map((rule, column) => {
+    if (!rule) return undefined;
+    const block = imputation.flatMap((other, index) =>
+      other?.group === rule.group ? [index] : [],
+    );
+    if (rule.strategy === "MODE" && block.length > 1) {
+      const totals = block.map((index) =>
+        present(index).reduce((sum, value) => sum + value, 0),
+      );
+      const winner = block[totals.indexOf(Math.max(...totals))];
+      return winner === column ? 1 : 0;
+    }
+    const values = present(column);
+    if (!values.length) return 0;
+    if (rule.strategy === "MODE") return mostFrequent(values);
+    if (rule.strategy === "MEAN") {
+      return values.reduce((sum, value) => sum + value, 0) / values.length;
+    }
+    return quantile([...values].sort((a, b) => a - b), 0.5);
+  });
+}
+
+/**
+ * Fits the imputation fills and then the scalers, both on `features` only,
+ * so held-out rows never inform either. Scalers see the filled values.
+ */
+export function fitPreprocessor(
+  features: number[][],
+  methods: ScalingMethod[],
+  imputation: (FeatureImputation | null)[] = [],
+): Preprocessor {
+  const fills = fitFills(features, imputation);
+  return methods.map((method, column) => {
+    const fill = fills[column];
+    const scaler = fitScaler(
+      features.map((vector) =>
+        fill !== undefined && Number.isNaN(vector[column]) ? fill : vector[column],
+      ),
+      method,
+    );
+    return fill === undefined ? scaler : { ...scaler, fill };
+  });
+}
+
+export function transformVector(preprocessor: Preprocessor, vector: number[]) {
+  return vector.map((value, column) => {
+    const scaler = preprocessor[column];
+    if (!scaler) return value;
+    const filled =
+      scaler.fill !== undefined && Number.isNaN(value) ? scaler.fill : value;
+    return (filled - scaler.center) / scaler.scale;
+  });
+}
+
+export function transformFeatures(
+  preprocessor: Preprocessor,
+  features: number[][],
+) {
+  return features.map((vector) => transformVector(preprocessor, vector));
+}
+
+export function identityPreprocessor(dimension: number): Preprocessor {
+  return Array.from({ length: dimension }, () => ({
+    method: "NONE" as const,
+    center: 0,
+    scale: 1,
+  }));
+}
@@ -0,0 +1,199 @@
+import { detectColumnType, isMissing, type ColumnType } from "@/lib/encoding";
+
+export type ColumnFlag = "constant" | "id-like";
+
+export interface HistogramBin {
+  /** Category name, or the `lower–upper` range of a numeric bin. */
+  label: string;
+  count: number;
+}
+
+export interface ColumnProfile {
+  column: string;
+  type: ColumnType;
+  missing: number;
+  distinct: number;
+  /** Numeric summaries; null for categorical and boolean columns. */
+  min: number | null;
+  max: number | null;
+  mean: number | null;
+  std: number | null;
+  histogram: HistogramBin[];
+  flags: ColumnFlag[];
+}
+
+export interface CorrelationMatrix {
+  columns: string[];
+  /** Pearson r over rows where both columns are present; null if undefined. */
+  values: (number | null)[][];
+}
+
+const HISTOGRAM_BINS = 10;
+const TOP_CATEGORIES = 8;
+/** Share of distinct values above which a column looks like a row identifier. */
+const ID_RATIO = 0.95;
+const MIN_ROWS_FOR_ID = 20;
+
+const rangeFormatter = new Intl.NumberFormat("en-US", {
+  maximumSignificantDigits: 3,
+});
+
+function numericHistogram(values: number[], min: number, max: number) {
+  if (min === max) {
+    return [{ label: rangeFormatter.format(min), count: values.length }];
+  }
+  const width = (max - min) / HISTOGRAM_BINS;
+  const counts = new Array<number>(HISTOGRAM_BINS).fill(0);
+  for (const value of values) {
+    counts[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width))] += 1;
+  }
+  return counts.map((count, index) => ({
+    label: `${rangeFormatter.format(min + index * width)}–${rangeFormatter.format(
+      min + (index + 1) * width,
+    )}`,
+    count,
+  }));
+}
+
+/** Most frequent categories first; the tail is folded into "other". */
+function categoryHistogram(values: string[]) {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  const sorted = Array.from(counts, ([label, count]) => ({ label, count })).sort(
+    (a, b) => b.count - a.count,
+  );
+  if (sorted.length <= TOP_CATEGORIES) return sorted;
+  const other = sorted
+    .slice(TOP_CATEGORIES - 1)
+    .reduce((sum, bin) => sum + bin.count, 0);
+  return [
+    ...sorted.slice(0, TOP_CATEGORIES - 1),
+    { label: `${sorted.length - TOP_CATEGORIES + 1} others`, count: other },
+  ];
+}
+
+export function profileColumn(
+  column: string,
+  values: string[],
+  declaredType?: ColumnType,
+): ColumnProfile {
+  const present = values
+    .filter((value) => !isMissing(value))
+    .map((value) => value.trim());
+  const type = declaredType ?? detectColumnType(values);
+  const distinct = new Set(present).size;
+
+  const flags: ColumnFlag[] = [];
+  if (distinct <= 1) flags.push("constant");
+
+  if (type !== "numeric" || !present.length) {
+    if (
+      type === "categorical" &&
+      present.length >= MIN_ROWS_FOR_ID &&
+      distinct >= present.length * ID_RATIO
+    ) {
+      flags.push("id-like");
+    }
+    return {
+      column,
+      type,
+      missing: values.length - present.length,
+      distinct,
+      min: null,
+      max: null,
+      mean: null,
+      std: null,
+      histogram: categoryHistogram(present),
+      flags,
+    };
+  }
+
+  const numbers = present.map(Number);
+  // Reduce rather than spread: large files exceed the argument limit.
+  const min = numbers.reduce((low, value) => Math.min(low, value), Infinity);
+  const max = numbers.reduce((high, value) => Math.max(high, value), -Infinity);
+  const mean = numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+  const std = Math.sqrt(
+    numbers.reduce((sum, value) => sum + (value - mean) ** 2, 0) / numbers.length,
+  );
+  // Continuous measurements are naturally all distinct, so only unique
+  // integers (row numbers, record ids) are flagged.
+  if (
+    numbers.length >= MIN_ROWS_FOR_ID &&
+    distinct >= numbers.length * ID_RATIO &&
+    numbers.every(Number.isInteger)
+  ) {
+    flags.push("id-like");
+  }
+
+  return {
+    column,
+    type,
+    missing: values.length - present.length,
+    distinct,
+    min,
+    max,
+    mean,
+    std,
+    histogram: numericHistogram(numbers, min, max),
+    flags,
+  };
+}
+
+export function profileDataset(
+  rows: Record<string, string>[],
+  columns: string[],
+  declaredTypes: Record<string, ColumnType> = {},
+) {
+  return columns.map((column) =>
+    profileColumn(
+      column,
+      rows.map((row) => row[column]),
+      declaredTypes[column],
+    ),
+  );
+}
+
+/** Pairwise Pearson correlation between numeric columns. */
+export function correlationMatrix(
+  rows: Record<string, string>[],
+  columns: string[],
+): CorrelationMatrix {
+  const series = columns.map((column) =>
+    rows.map((row) => (isMissing(row[column]) ? NaN : Number(row[column]))),
+  );
+  const values = series.map((x, i) =>
+    series.map((y, j) => {
+      if (i === j) return 1;
+      let count = 0;
+      let sumX = 0;
+      let sumY = 0;
+      for (let index = 0; index < x.length; index += 1) {
+        if (Number.isFinite(x[index]) && Number.isFinite(y[index])) {
+          count += 1;
+          sumX += x[index];
+          sumY += y[index];
+        }
+      }
+      if (count < 2) return null;
+      const meanX = sumX / count;
+      const meanY = sumY / count;
+      let covariance = 0;
+      let varianceX = 0;
+      let varianceY = 0;
+      for (let index = 0; index < x.length; index += 1) {
+        if (Number.isFinite(x[index]) && Number.isFinite(y[index])) {
+          const dx = x[index] - meanX;
+          const dy = y[index] - meanY;
+          covariance += dx * dy;
+          varianceX += dx * dx;
+          varianceY += dy * dy;
+        }
+      }
+      return varianceX > 0 && varianceY > 0
+        ? covariance / Math.sqrt(varianceX * varianceY)
+        : null;
+    }),
+  );
+  return { columns, values };
+}
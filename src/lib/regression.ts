@@ -0,0 +1,476 @@
+import {
+  createSeededRandom,
+  pick,
+  stratifiedKFold,
+  stratifiedSplit,
+  withProgress,
+  type EvaluationMode,
+  type EvaluationSettings,
+  type TrainingProgress,
+} from "@/lib/evaluation";
+import {
+  permutationDrops,
+  summarizeImportance,
+  type ImportanceOptions,
+  type PermutationImportance,
+} from "@/lib/importance";
+import { ChiSquaredKernel, PrecomputedKernel } from "@/lib/kernels";
+import {
+  fitPreprocessor,
+  transformFeatures,
+  transformVector,
+} from "@/lib/preprocessing";
+import {
+  modelParameters,
+  resolveKernelOptions,
+  type KernelKey,
+  type TrainedPipeline,
+  type TrainingConfig,
+} from "@/lib/svm";
+
+export type LearningTask = "CLASSIFICATION" | "REGRESSION";
+export type TaskSelection = "AUTO" | LearningTask;
+
+export const TASK_LABELS: Record<TaskSelection, string> = {
+  AUTO: "Detect from label column",
+  CLASSIFICATION: "Classification",
+  REGRESSION: "Regression (epsilon-SVR)",
+};
+
+/**
+ * A fitted epsilon-SVR. Plain data throughout, so it survives structured
+ * cloning and JSON export without a serialization step.
+ */
+export interface SVRModel {
+  kernel: KernelKey;
+  kernelOptions: Record<string, number> | null;
+  epsilon: number;
+  supportVectors: number[][];
+  /** Dual coefficients `alpha - alpha*`, aligned with `supportVectors`. */
+  coefficients: number[];
+  bias: number;
+  /** Targets are standardized before fitting; predictions are mapped back. */
+  target: { center: number; scale: number };
+  iterations: number;
+}
+
+export interface RegressionConfig extends TrainingConfig {
+  /** Half-width of the insensitive tube, in standardized target units. */
+  epsilon: number;
+}
+
+export interface RegressionMetrics {
+  mae: number;
+  rmse: number;
+  r2: number;
+}
+
+export interface RegressionFold extends RegressionMetrics {
+  fold: number;
+  trainSize: number;
+  testSize: number;
+  actual: number[];
+  predicted: number[];
+  /** R² drop per shuffled feature and repeat, when requested. */
+  importance?: Record<string, number[]>;
+}
+
+export interface RegressionEvaluation extends RegressionMetrics {
+  mode: EvaluationMode;
+  folds: RegressionFold[];
+  /** Evaluation-set targets pooled across folds, aligned with `predicted`. */
+  actual: number[];
+  predicted: number[];
+  importance?: PermutationImportance[] | null;
+}
+
+/** Numeric label columns with fewer distinct values are treated as classes. */
+const MIN_REGRESSION_VALUES = 10;
+/**
+ * Coordinate-descent stopping criteria. The SMO solver settings do not
+ * apply to SVR, which is why the UI only offers them for classification.
+ */
+const MAX_EPOCHS = 500;
+const TOLERANCE = 1e-3;
+const STRATA = 5;
+
+export function isRegressionEvaluation(
+  evaluation: object,
+): evaluation is RegressionEvaluation {
+  return "r2" in evaluation;
+}
+
+export function detectTask(labels: string[]): LearningTask {
+  const values = labels.map(Number);
+  const numeric =
+    labels.length > 0 &&
+    labels.every((label) => label.trim() !== "") &&
+    values.every(Number.isFinite);
+  return numeric && new Set(values).size > MIN_REGRESSION_VALUES
+    ? "REGRESSION"
+    : "CLASSIFICATION";
+}
+
+export function parseTargets(labels: string[], labelColumn: string) {
+  return labels.map((label) => {
+    const value = Number(label);
+    if (label.trim() === "" || !Number.isFinite(value)) {
+      throw new Error(
+        `Label column "${labelColumn}" must be numeric for regression (found "${label}").`,
+      );
+    }
+    return value;
+  });
+}
+
+function dot(x: number[], y: number[]) {
+  let sum = 0;
+  for (let index = 0; index < x.length; index += 1) sum += x[index] * y[index];
+  return sum;
+}
+
+/** Mirrors ml-kernel's definitions so both model families agree. */
+function kernelFunction(
+  kernel: KernelKey,
+  options: Record<string, number> | null,
+): (x: number[], y: number[]) => number {
+  if (kernel === "RBF") {
+    const divisor = 2 * (options?.sigma ?? 1) ** 2;
+    return (x, y) => {
+      let distance = 0;
+      for (let index = 0; index < x.length; index += 1) {
+        distance += (x[index] - y[index]) ** 2;
+      }
+      return Math.exp(-distance / divisor);
+    };
+  }
+  if (kernel === "POLY") {
+    const { degree = 1, constant = 1, scale = 1 } = options ?? {};
+    return (x, y) => (scale * dot(x, y) + constant) ** degree;
+  }
+  if (kernel === "SIGMOID") {
+    const { alpha = 0.01, constant = -Math.E } = options ?? {};
+    return (x, y) => Math.tanh(alpha * dot(x, y) + constant);
+  }
+  if (kernel === "LAPLACIAN") {
+    const sigma = options?.sigma ?? 1;
+    return (x, y) => {
+      let distance = 0;
+      for (let index = 0; index < x.length; index += 1) {
+        distance += (x[index] - y[index]) ** 2;
+      }
+      return Math.exp(-Math.sqrt(distance) / sigma);
+    };
+  }
+  if (kernel === "CHI_SQUARED") {
+    const chiSquared = new ChiSquaredKernel(options ?? {});
+    return (x, y) => chiSquared.compute(x, y);
+  }
+  if (kernel === "PRECOMPUTED") {
+    const precomputed = new PrecomputedKernel();
+    return (x, y) => precomputed.compute(x, y);
+  }
+  return dot;
+}
+
+/**
+ * Fits an epsilon-SVR by coordinate descent on the dual. Adding 1 to the
+ * kernel absorbs the bias, which removes the equality constraint and lets
+ * every coefficient be solved in closed form by soft-thresholding.
+ */
+export function trainSVR(
+  features: number[][],
+  targets: number[],
+  config: RegressionConfig,
+): SVRModel {
+  const count = features.length;
+  const dimension = features[0]?.length ?? 0;
+  if (dimension === 0) {
+    throw new Error("Select at least one feature column.");
+  }
+  if (count < 2) {
+    throw new Error("Regression needs at least two rows.");
+  }
+
+  const center = targets.reduce((sum, value) => sum + value, 0) / count;
+  const spread = Math.sqrt(
+    targets.reduce((sum, value) => sum + (value - center) ** 2, 0) / count,
+  );
+  const scale = spread > 0 ? spread : 1;
+  const y = targets.map((value) => (value - center) / scale);
+
+  const kernelOptions = resolveKernelOptions(config, dimension) ?? null;
+  const compute = kernelFunction(config.kernel, kernelOptions);
+  const gram = new Float64Array(count * count);
+  for (let i = 0; i < count; i += 1) {
+    for (let j = i; j < count; j += 1) {
+      const value = compute(features[i], features[j]) + 1;
+      gram[i * count + j] = value;
+      gram[j * count + i] = value;
+    }
+  }
+
+  const beta = new Float64Array(count);
+  const fitted = new Float64Array(count);
+  const order = features.map((_, index) => index);
+  let iterations = 0;
+
+  for (; iterations < MAX_EPOCHS; iterations += 1) {
+    for (let index = order.length - 1; index > 0; index -= 1) {
+      const swap = Math.floor(config.random() * (index + 1));
+      [order[index], order[swap]] = [order[swap], order[index]];
+    }
+
+    let largestStep = 0;
+    for (const i of order) {
+      const diagonal = gram[i * count + i];
+      const residual = y[i] - (fitted[i] - diagonal * beta[i]);
+      const shrunk = Math.sign(residual) * Math.max(Math.abs(residual) - config.epsilon, 0);
+      const next = Math.min(config.cost, Math.max(-config.cost, shrunk / diagonal));
+      const delta = next - beta[i];
+      if (delta === 0) continue;
+      beta[i] = next;
+      for (let j = 0; j < count; j += 1) fitted[j] += delta * gram[i * count + j];
+      largestStep = Math.max(largestStep, Math.abs(delta));
+    }
+    if (largestStep < TOLERANCE) break;
+  }
+
+  const support = order
+    .filter((index) => Math.abs(beta[index]) > 1e-10)
+    .sort((a, b) => a - b);
+  return {
+    kernel: config.kernel,
+    kernelOptions,
+    epsilon: config.epsilon,
+    supportVectors: support.map((index) => features[index]),
+    coefficients: support.map((index) => beta[index]),
+    bias: support.reduce((sum, index) => sum + beta[index], 0),
+    target: { center, scale },
+    iterations,
+  };
+}
+
+/** Coordinate descent only runs out of epochs when it has not converged. */
+export function svrConverged(model: SVRModel) {
+  return model.iterations < MAX_EPOCHS;
+}
+
+export function predictSVR(model: SVRModel, vector: number[]) {
+  const compute = kernelFunction(model.kernel, model.kernelOptions);
+  const standardized = model.supportVectors.reduce(
+    (sum, supportVector, index) =>
+      sum + model.coefficients[index] * compute(supportVector, vector),
+    model.bias,
+  );
+  return standardized * model.target.scale + model.target.center;
+}
+
+export function trainRegressionPipeline(
+  features: number[][],
+  targets: number[],
+  config: RegressionConfig,
+): TrainedPipeline {
+  config.onModelStart?.({ model: 1, models: 1 });
+  const preprocessor = fitPreprocessor(features, config.scaling, config.imputation);
+  return {
+    parameters: modelParameters(config),
+    preprocessor,
+    models: [],
+    regressor: trainSVR(
+      transformFeatures(preprocessor, features),
+      targets,
+      config,
+    ),
+  };
+}
+
+export function predictValue(pipeline: TrainedPipeline, vector: number[]) {
+  if (!pipeline.regressor) {
+    throw new Error("This model is a classifier, not a regressor.");
+  }
+  return predictSVR(
+    pipeline.regressor,
+    transformVector(pipeline.preprocessor, vector),
+  );
+}
+
+export function regressionMetrics(
+  actual: number[],
+  predicted: number[],
+): RegressionMetrics {
+  const count = actual.length;
+  if (!count) return { mae: 0, rmse: 0, r2: 0 };
+  const mean = actual.reduce((sum, value) => sum + value, 0) / count;
+  let absolute = 0;
+  let squared = 0;
+  let total = 0;
+  actual.forEach((value, index) => {
+    const error = value - predicted[index];
+    absolute += Math.abs(error);
+    squared += error ** 2;
+    total += (value - mean) ** 2;
+  });
+  return {
+    mae: absolute / count,
+    rmse: Math.sqrt(squared / count),
+    r2: total > 0 ? 1 - squared / total : 0,
+  };
+}
+
+/** Quantile bins, so the stratified splitters keep every target range covered. */
+function targetStrata(targets: number[]) {
+  const ranks = targets
+    .map((value, index) => ({ value, index }))
+    .sort((a, b) => a.value - b.value);
+  const strata = new Array<string>(targets.length);
+  ranks.forEach(({ index }, rank) => {
+    strata[index] = String(Math.floor((rank * STRATA) / targets.length));
+  });
+  return strata;
+}
+
+function scoreRegressionFold(
+  fold: number,
+  trainSize: number,
+  pipeline: TrainedPipeline,
+  features: number[][],
+  targets: number[],
+  importance?: ImportanceOptions,
+): RegressionFold {
+  const predicted = features.map((vector) => predictValue(pipeline, vector));
+  return {
+    fold,
+    trainSize,
+    testSize: features.length,
+    ...regressionMetrics(targets, predicted),
+    actual: targets,
+    predicted,
+    ...(importance
+      ? {
+          importance: permutationDrops(
+            features,
+            (rows, indices) =>
+              regressionMetrics(
+                indices.map((index) => targets[index]),
+                rows.map((vector) => predictValue(pipeline, vector)),
+              ).r2,
+            importance,
+            createSeededRandom(importance.seed + fold),
+          ),
+        }
+      : {}),
+  };
+}
+
+function summarizeRegression(
+  mode: EvaluationMode,
+  folds: RegressionFold[],
+): RegressionEvaluation {
+  const actual = folds.flatMap((fold) => fold.actual);
+  const predicted = folds.flatMap((fold) => fold.predicted);
+  return {
+    mode,
+    ...regressionMetrics(actual, predicted),
+    folds,
+    actual,
+    predicted,
+    ...(folds.some((fold) => fold.importance)
+      ? { importance: summarizeImportance(folds.map((fold) => fold.importance)) }
+      : {}),
+  };
+}
+
+/**
+ * Regression counterpart of `trainAndEvaluate`: the same evaluation modes,
+ * with splits stratified on target quantiles.
+ */
+export function trainAndEvaluateRegression(
+  features: number[][],
+  targets: number[],
+  config: RegressionConfig,
+  settings: EvaluationSettings,
+  onProgress?: (progress: TrainingProgress) => void,
+  importance?: ImportanceOptions,
+) {
+  const progressConfig = (fold: number | null, folds: number | null) => ({
+    ...withProgress(config, fold, folds, onProgress),
+    epsilon: config.epsilon,
+  });
+
+  if (settings.mode === "HOLDOUT") {
+    const { train, test } = stratifiedSplit(
+      targetStrata(targets),
+      settings.testRatio,
+      config.random,
+    );
+    const pipeline = trainRegressionPipeline(
+      pick(features, train),
+      pick(targets, train),
+      progressConfig(null, null),
+    );
+    return {
+      pipeline,
+      evaluation: summarizeRegression("HOLDOUT", [
+        scoreRegressionFold(
+          1,
+          train.length,
+          pipeline,
+          pick(features, test),
+          pick(targets, test),
+          importance,
+        ),
+      ]),
+    };
+  }
+
+  if (settings.mode === "KFOLD") {
+    const assignments = stratifiedKFold(
+      targetStrata(targets),
+      settings.folds,
+      config.random,
+    );
+    const folds = assignments.map((test, foldIndex) => {
+      const train = assignments.filter((_, index) => index !== foldIndex).flat();
+      return scoreRegressionFold(
+        foldIndex + 1,
+        train.length,
+        trainRegressionPipeline(
+          pick(features, train),
+          pick(targets, train),
+          progressConfig(foldIndex + 1, settings.folds),
+        ),
+        pick(features, test),
+        pick(targets, test),
+        importance,
+      );
+    });
+    return {
+      pipeline: trainRegressionPipeline(
+        features,
+        targets,
+        progressConfig(null, settings.folds),
+      ),
+      evaluation: summarizeRegression("KFOLD", folds),
+    };
+  }
+
+  const pipeline = trainRegressionPipeline(
+    features,
+    targets,
+    progressConfig(null, null),
+  );
+  return {
+    pipeline,
+    evaluation: summarizeRegression("TRAINING", [
+      scoreRegressionFold(
+        1,
+        features.length,
+        pipeline,
+        features,
+        targets,
+        importance,
+      ),
+    ]),
+  };
+}
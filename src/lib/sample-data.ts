@@ -0,0 +1,164 @@
+import { createSeededRandom } from "@/lib/evaluation";
+
+/** A nine-row slice of the Iris dataset, three rows per species. */
+export const IRIS_SAMPLE = `sepal_length,sepal_width,petal_length,petal_width,species
+5.1,3.5,1.4,0.2,setosa
+4.9,3.0,1.4,0.2,setosa
+5.8,4.0,1.2,0.2,setosa
+7.0,3.2,4.7,1.4,versicolor
+6.4,3.2,4.5,1.5,versicolor
+6.9,3.1,4.9,1.5,versicolor
+6.3,3.3,6.0,2.5,virginica
+5.8,2.7,5.1,1.9,virginica
+7.1,3.0,5.9,2.1,virginica`;
+
+export interface SampleDataset {
+  id: string;
+  name: string;
+  description: string;
+  task: "classification" | "regression";
+  csv: string;
+}
+
+/** Quinlan's weather data: every feature is categorical or boolean. */
+const PLAY_TENNIS = `outlook,temperature,humidity,windy,play
+sunny,hot,high,false,no
+sunny,hot,high,true,no
+overcast,hot,high,false,yes
+rainy,mild,high,false,yes
+rainy,cool,normal,false,yes
+rainy,cool,normal,true,no
+overcast,cool,normal,true,yes
+sunny,mild,high,false,no
+sunny,cool,normal,false,yes
+rainy,mild,normal,false,yes
+sunny,mild,normal,true,yes
+overcast,mild,high,true,yes
+overcast,hot,normal,false,yes
+rainy,mild,high,true,no`;
+
+/** The first of Anscombe's four x/y sets. */
+const ANSCOMBE_I = `x,y
+10,8.04
+8,6.95
+13,7.58
+9,8.81
+11,8.33
+14,9.96
+6,7.24
+4,4.26
+12,10.84
+7,4.82
+5,5.68`;
+
+function toCsv(header: string[], rows: (number | string)[][]) {
+  return [
+    header.join(","),
+    ...rows.map((row) =>
+      row
+        .map((value) => (typeof value === "number" ? value.toFixed(3) : value))
+        .join(","),
+    ),
+  ].join("\n");
+}
+
+/** Synthetic 2-D shapes, seeded so the gallery is identical on every load. */
+function generated(
+  count: number,
+  seed: number,
+  point: (random: () => number, index: number) => [number, number, string],
+) {
+  const random = createSeededRandom(seed);
+  return toCsv(
+    ["x", "y", "class"],
+    Array.from({ length: count }, (_, index) => point(random, index)),
+  );
+}
+
+const noise = (random: () => number, scale: number) => (random() * 2 - 1) * scale;
+
+export const SAMPLE_DATASETS: SampleDataset[] = [
+  {
+    id: "iris",
+    name: "Iris",
+    description: "Three species from four flower measurements.",
+    task: "classification",
+    csv: IRIS_SAMPLE,
+  },
+  {
+    id: "play-tennis",
+    name: "Play Tennis",
+    description: "Fourteen days of weather; all features categorical.",
+    task: "classification",
+    csv: PLAY_TENNIS,
+  },
+  {
+    id: "xor",
+    name: "XOR",
+    description: "Four clusters no straight line can separate.",
+    task: "classification",
+    csv: generated(80, 11, (random, index) => {
+      const x = index % 2 ? 1 : -1;
+      const y = index % 4 < 2 ? 1 : -1;
+      return [
+        x * 0.5 + noise(random, 0.35),
+        y * 0.5 + noise(random, 0.35),
+        x * y > 0 ? "same" : "different",
+      ];
+    }),
+  },
+  {
+    id: "moons",
+    name: "Two Moons",
+    description: "Interleaving half circles; a classic RBF showcase.",
+    task: "classification",
+    csv: generated(100, 12, (random, index) => {
+      const angle = Math.PI * random();
+      return index % 2
+        ? [Math.cos(angle) + noise(random, 0.15), Math.sin(angle) + noise(random, 0.15), "upper"]
+        : [
+            1 - Math.cos(angle) + noise(random, 0.15),
+            0.5 - Math.sin(angle) + noise(random, 0.15),
+            "lower",
+          ];
+    }),
+  },
+  {
+    id: "circles",
+    name: "Concentric Circles",
+    description: "An inner disc ringed by a second class.",
+    task: "classification",
+    csv: generated(100, 13, (random, index) => {
+      const angle = 2 * Math.PI * random();
+      const radius = index % 2 ? 1 : 0.4;
+      return [
+        radius * Math.cos(angle) + noise(random, 0.1),
+        radius * Math.sin(angle) + noise(random, 0.1),
+        index % 2 ? "outer" : "inner",
+      ];
+    }),
+  },
+  {
+    id: "anscombe",
+    name: "Anscombe I",
+    description: "Eleven points with a roughly linear trend.",
+    task: "regression",
+    csv: ANSCOMBE_I,
+  },
+  {
+    id: "sine",
+    name: "Noisy Sine",
+    description: "A smooth non-linear curve for kernel regression.",
+    task: "regression",
+    csv: (() => {
+      const random = createSeededRandom(14);
+      return toCsv(
+        ["x", "y"],
+        Array.from({ length: 60 }, (_, index) => {
+          const x = (index / 59) * 2 * Math.PI;
+          return [x, Math.sin(x) + noise(random, 0.2)];
+        }),
+      );
+    })(),
+  },
+];
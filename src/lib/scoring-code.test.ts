@@ -0,0 +1,193 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import { pathToFileURL } from "node:url";
+import { createSeededRandom } from "@/lib/evaluation";
+import { numericEncoder } from "@/lib/encoding";
+import { precomputedFeatures } from "@/lib/kernels";
+import { createModelBundle } from "@/lib/model-bundle";
+import { trainRegressionPipeline } from "@/lib/regression";
+import {
+  generateScoringModule,
+  pickTestVectors,
+  type ScoringLanguage,
+} from "@/lib/scoring-code";
+import { trainPipeline, type ModelParameters, type TrainedPipeline } from "@/lib/svm";
+
+interface GeneratedModule {
+  FEATURE_NAMES: string[];
+  TEST_VECTORS: unknown[];
+  predict(input: Record<string, number>): unknown;
+  verify(): unknown[];
+}
+
+const directory = mkdtemp(join(tmpdir(), "scoring-code-"));
+after(async () => rm(await directory, { recursive: true, force: true }));
+
+async function load(source: string, language: ScoringLanguage, name: string) {
+  const file = join(await directory, `${name}.${language === "typescript" ? "ts" : "mjs"}`);
+  await writeFile(file, source);
+  return (await import(pathToFileURL(file).href)) as GeneratedModule;
+}
+
+/** Three classes in rings around the origin, with a noise column. */
+function rings(count: number) {
+  const random = createSeededRandom(8);
+  const features: number[][] = [];
+  const labels: string[] = [];
+  for (let index = 0; index < count; index += 1) {
+    const radius = (index % 3) + random() * 0.6;
+    const angle = random() * 2 * Math.PI;
+    features.push([radius * Math.cos(angle) * 10, radius * Math.sin(angle), random()]);
+    labels.push(["inner", "middle", "outer"][index % 3]);
+  }
+  return { features, labels };
+}
+
+const names = ["x", "y", "noise"];
+const { features, labels } = rings(60);
+
+function exported(pipeline: TrainedPipeline, language: ScoringLanguage) {
+  return generateScoringModule({
+    pipeline,
+    encoder: numericEncoder(names),
+    featureColumns: names,
+    labelColumn: "ring",
+    evaluation: null,
+    samples: pickTestVectors(features),
+    language,
+  });
+}
+
+describe("scoring code export", () => {
+  const cases: [ModelParameters, ScoringLanguage][] = [
+    [{ kernel: "RBF", cost: 5, gamma: null, degree: 3, multiclass: "OVO" }, "typescript"],
+    [{ kernel: "POLY", cost: 1, gamma: 0.5, degree: 2, multiclass: "OVR", coef0: 1 }, "javascript"],
+    [{ kernel: "LINEAR", cost: 1, gamma: null, degree: 3, multiclass: "OVR" }, "typescript"],
+    [{ kernel: "SIGMOID", cost: 1, gamma: 0.1, degree: 3, multiclass: "OVO", coef0: 0 }, "javascript"],
+    [{ kernel: "CHI_SQUARED", cost: 1, gamma: null, degree: 3, multiclass: "OVR" }, "typescript"],
+  ];
+
+  for (const [parameters, language] of cases) {
+    it(`reproduces ${parameters.kernel} ${parameters.multiclass} predictions in ${language}`, async () => {
+      const pipeline = trainPipeline(features, labels, {
+        ...parameters,
+        scaling: ["STANDARD", "MINMAX", "NONE"],
+        random: createSeededRandom(2),
+      });
+      const generated = await load(
+        exported(pipeline, language),
+        language,
+        `${parameters.kernel}-${language}`,
+      );
+      assert.deepEqual(generated.FEATURE_NAMES, names);
+      assert.equal(generated.TEST_VECTORS.length, 20);
+      assert.deepEqual(generated.verify(), []);
+      assert.ok(["inner", "middle", "outer"].includes(generated.predict({ x: 0, y: 0, noise: 0 }) as string));
+    });
+  }
+
+  it("reproduces regression predictions exactly", async () => {
+    const parameters: ModelParameters = {
+      kernel: "LAPLACIAN",
+      cost: 2,
+      gamma: null,
+      degree: 3,
+      multiclass: "OVR",
+    };
+    const pipeline = trainRegressionPipeline(
+      features,
+      features.map(([x, y]) => x * 0.1 + y * y),
+      {
+        ...parameters,
+        epsilon: 0.1,
+        scaling: ["STANDARD", "STANDARD", "NONE"],
+        random: createSeededRandom(3),
+      },
+    );
+    const generated = await load(exported(pipeline, "typescript"), "typescript", "svr");
+    assert.deepEqual(generated.verify(), []);
+    assert.equal(typeof generated.predict({ x: 1, y: 1, noise: 0 }), "number");
+  });
+
+  it("fills missing inputs with the pipeline's training fills", async () => {
+    const parameters: ModelParameters = {
+      kernel: "RBF",
+      cost: 1,
+      gamma: null,
+      degree: 3,
+      multiclass: "OVR",
+    };
+    const gappy = features.map((row, index) => (index % 4 ? row : [NaN, row[1], row[2]]));
+    const pipeline = trainPipeline(gappy, labels, {
+      ...parameters,
+      scaling: ["STANDARD", "STANDARD", "NONE"],
+      imputation: [{ strategy: "MEDIAN", group: 0 }, null, null],
+      random: createSeededRandom(2),
+    });
+    const source = generateScoringModule({
+      pipeline,
+      encoder: numericEncoder(names),
+      featureColumns: names,
+      labelColumn: "ring",
+      evaluation: null,
+      samples: pickTestVectors(gappy),
+      language: "javascript",
+    });
+    const generated = await load(source, "javascript", "imputed");
+    assert.deepEqual(generated.verify(), []);
+  });
+
+  it("describes the trained kernel and cost, as the model bundle does", async () => {
+    const pipeline = trainPipeline(features, labels, {
+      kernel: "RBF",
+      cost: 5,
+      gamma: 0.5,
+      degree: 3,
+      multiclass: "OVR",
+      scaling: ["STANDARD", "STANDARD", "NONE"],
+      imbalance: { weighting: "MANUAL", manualWeights: { inner: 3 }, resampling: "NONE" },
+      random: createSeededRandom(2),
+    });
+    const source = exported(pipeline, "typescript");
+    // The models' C is scaled by the class weight; the cost the user set is not.
+    assert.match(source, /Radial Basis \(RBF\) kernel \(C = 5\)/);
+    const bundle = createModelBundle({
+      pipeline,
+      encoder: numericEncoder(names),
+      featureColumns: names,
+      labelColumn: "ring",
+      evaluation: null,
+    });
+    assert.equal(bundle.parameters.kernel, "RBF");
+    assert.equal(bundle.parameters.cost, 5);
+    const generated = await load(source, "typescript", "trained-parameters");
+    assert.deepEqual(generated.verify(), []);
+  });
+
+  it("refuses precomputed-kernel models", () => {
+    const gram = features.map((x) =>
+      features.map((y) => x.reduce((sum, value, index) => sum + value * y[index], 0)),
+    );
+    const pipeline = trainPipeline(
+      precomputedFeatures(gram, features.map((_, index) => index)),
+      labels,
+      {
+        kernel: "PRECOMPUTED",
+        cost: 1,
+        gamma: null,
+        degree: 3,
+        multiclass: "OVR",
+        scaling: Array.from({ length: features.length + 1 }, () => "NONE" as const),
+        random: createSeededRandom(2),
+      },
+    );
+    assert.throws(
+      () =>
+        exported(pipeline, "typescript"),
+      /cannot be exported/,
+    );
+  });
+});
@@ -0,0 +1,341 @@
+import { KERNELS } from "@/lib/kernels";
+import type { ModelBundleInput } from "@/lib/model-bundle";
+import { predictValue } from "@/lib/regression";
+import {
+  modelClasses,
+  modelKey,
+  scorePipeline,
+  serializePipeline,
+  type KernelKey,
+  type SerializedModel,
+  type SerializedPipeline,
+} from "@/lib/svm";
+
+export type ScoringLanguage = "typescript" | "javascript";
+
+export interface ScoringModuleInput extends ModelBundleInput {
+  /** Raw encoded feature vectors to embed as test vectors. */
+  samples: number[][];
+  language: ScoringLanguage;
+}
+
+/** Test vectors embedded in the generated module. */
+export const SCORING_TEST_VECTORS = 20;
+
+/** Evenly spaced rows, so the test vectors cover the whole dataset. */
+export function pickTestVectors(features: number[][], count = SCORING_TEST_VECTORS) {
+  if (features.length <= count) return features;
+  return Array.from(
+    { length: count },
+    (_, index) => features[Math.floor((index * features.length) / count)],
+  );
+}
+
+/** Exact literal: JSON keeps the shortest round-tripping form of a double. */
+const literal = (value: unknown) => JSON.stringify(value);
+
+/**
+ * Kernel source for `kernel(a, b)`. Each body repeats the arithmetic of
+ * ml-kernel (classifiers) and `kernelFunction` (regressors) operation for
+ * operation, so generated scores match the app's bit for bit.
+ */
+function kernelSource(
+  kernel: KernelKey,
+  options: Record<string, number> | null,
+  typed: (annotation: string) => string,
+) {
+  const signature = `function kernel(a${typed(": number[]")}, b${typed(": number[]")})${typed(": number")}`;
+  const loop = "for (let i = 0; i < a.length; i += 1)";
+
+  if (kernel === "RBF" || kernel === "LAPLACIAN") {
+    const sigma = options?.sigma ?? 1;
+    return [
+      `${signature} {`,
+      "  let distance = 0;",
+      `  ${loop} distance += (a[i] - b[i]) * (a[i] - b[i]);`,
+      kernel === "RBF"
+        ? `  return Math.exp(-distance / ${literal(2 * sigma * sigma)});`
+        : `  return Math.exp(-Math.sqrt(distance) / ${literal(sigma)});`,
+      "}",
+    ].join("\n");
+  }
+  if (kernel === "CHI_SQUARED") {
+    return [
+      `${signature} {`,
+      "  let distance = 0;",
+      `  ${loop} {`,
+      "    const sum = a[i] + b[i];",
+      "    if (sum !== 0) distance += (a[i] - b[i]) ** 2 / sum;",
+      "  }",
+      `  return Math.exp(-${literal(options?.gamma ?? 1)} * distance);`,
+      "}",
+    ].join("\n");
+  }
+
+  const dot = [`${signature} {`, "  let sum = 0;", `  ${loop} sum += a[i] * b[i];`];
+  if (kernel === "POLY") {
+    const { degree = 1, constant = 1, scale = 1 } = options ?? {};
+    return [
+      ...dot,
+      `  return Math.pow(${literal(scale)} * sum + ${literal(constant)}, ${literal(degree)});`,
+      "}",
+    ].join("\n");
+  }
+  if (kernel === "SIGMOID") {
+    const { alpha = 0.01, constant = -Math.E } = options ?? {};
+    return [
+      ...dot,
+      `  return Math.tanh(${literal(alpha)} * sum + ${literal(constant)});`,
+      "}",
+    ].join("\n");
+  }
+  return [...dot, "  return sum;", "}"].join("\n");
+}
+
+/** One line per source column telling callers how to fill its features. */
+function encodingNotes(input: ScoringModuleInput) {
+  return input.encoder.columns.map((column) => {
+    const missing = column.impute ? "; null when missing" : "";
+    if (column.type === "numeric") return ` *   ${column.column}: the raw number${missing}`;
+    if (column.type === "boolean") {
+      return ` *   ${column.column}: 1 for true, 0 for false${missing}`;
+    }
+    if (column.encoding === "ONE_HOT") {
+      return ` *   ${column.column}: one-hot, 1 for "${column.column}=<category>" and 0 for the others${missing}`;
+    }
+    return ` *   ${column.column}: category index in ${literal(column.categories)}${missing}`;
+  });
+}
+
+function classifierSource(
+  models: SerializedModel[],
+  typed: (annotation: string) => string,
+) {
+  const classes = modelClasses(models);
+  const entries = models.map((model) => {
+    const svm = model.svm as {
+      b: number;
+      W?: number[];
+      X?: number[][];
+      Y?: number[];
+      alphas?: number[];
+    };
+    const linear = Array.isArray(svm.W);
+    return `  {\n    label: ${literal(model.label)},\n    opponent: ${literal(
+      model.opponent ?? null,
+    )},\n    bias: ${literal(svm.b)},\n    weights: ${literal(
+      linear ? svm.W : null,
+    )},\n    supportVectors: ${literal(linear ? [] : svm.X)},\n    coefficients: ${literal(
+      // ml-svm's alpha times the ±1 label, which it multiplies first too.
+      linear ? [] : (svm.alphas ?? []).map((alpha, index) => alpha * (svm.Y?.[index] ?? 0)),
+    )},\n  }`;
+  });
+  const pairwise = models.some((model) => model.opponent !== undefined);
+
+  return `${typed(`export type Label = ${classes.map(literal).join(" | ")};
+
+interface BinaryModel {
+  label: Label;
+  opponent: Label | null;
+  bias: number;
+  /** Primal weights of a linear model; null when support vectors are used. */
+  weights: number[] | null;
+  supportVectors: number[][];
+  coefficients: number[];
+}
+
+`)}export const CLASSES${typed(": readonly Label[]")} = ${literal(classes)};
+
+/** ${pairwise ? "One-vs-one" : "One-vs-rest"} binary models: ${models.map(modelKey).join(", ")}. */
+const MODELS${typed(": BinaryModel[]")} = [
+${entries.join(",\n")},
+];
+
+function margin(model${typed(": BinaryModel")}, x${typed(": number[]")})${typed(": number")} {
+  let value = model.bias;
+  if (model.weights) {
+    for (let i = 0; i < model.weights.length; i += 1) value += model.weights[i] * x[i];
+  } else {
+    for (let i = 0; i < model.supportVectors.length; i += 1) {
+      value += model.coefficients[i] * kernel(x, model.supportVectors[i]);
+    }
+  }
+  return Number.isFinite(value) ? value : value > 0 ? 1 : -1;
+}
+
+/** Per-class scores: ${
+    pairwise
+      ? "pairwise votes plus summed margins squashed into (-1/3, 1/3)"
+      : "the raw margin of each class's model"
+  }. */
+export function scores(input${typed(": ModelInput")})${typed(": Record<Label, number>")} {
+  const x = scale(input);
+  const margins = MODELS.map((model) => margin(model, x));
+${
+  pairwise
+    ? `  const votes = CLASSES.map(() => 0);
+  const confidence = CLASSES.map(() => 0);
+  MODELS.forEach((model, index) => {
+    const positive = CLASSES.indexOf(model.label);
+    const negative = CLASSES.indexOf(model.opponent${typed(" as Label")});
+    const value = margins[index];
+    votes[value > 0 ? positive : negative] += 1;
+    confidence[positive] += value;
+    confidence[negative] -= value;
+  });
+  const values = votes.map(
+    (count, index) =>
+      count + confidence[index] / (3 * (Math.abs(confidence[index]) + 1)),
+  );`
+    : "  const values = margins;"
+}
+  return Object.fromEntries(
+    CLASSES.map((label, index) => [label, values[index]]),
+  )${typed(" as Record<Label, number>")};
+}
+
+export function predict(input${typed(": ModelInput")})${typed(": Label")} {
+  const values = scores(input);
+  let best${typed(": Label")} = CLASSES[0];
+  for (const label of CLASSES) {
+    if (values[label] > values[best]) best = label;
+  }
+  return best;
+}`;
+}
+
+/** Kernel options as resolved at training time, e.g. a defaulted gamma. */
+function trainedKernelOptions({
+  models,
+  regressor,
+}: SerializedPipeline): Record<string, number> | null {
+  if (regressor) return regressor.kernelOptions;
+  const options = (models[0]?.svm.options ?? {}) as {
+    kernelOptions?: Record<string, number>;
+  };
+  return options.kernelOptions ?? null;
+}
+
+/**
+ * Generates a dependency-free module that reproduces the pipeline's
+ * predictions: scaling, kernel and model constants are inlined, and a set
+ * of test vectors with the app's outputs lets callers check the port.
+ */
+export function generateScoringModule(input: ScoringModuleInput) {
+  const { encoder, pipeline, samples, labelColumn } = input;
+  const serialized = serializePipeline(pipeline);
+  // The trained pipeline's own parameters, as in the model bundle: the
+  // workspace may have been edited since, and the models' C includes any
+  // class weight.
+  const { kernel, cost } = serialized.parameters;
+  const kernelOptions = trainedKernelOptions(serialized);
+  if (kernel === "PRECOMPUTED") {
+    throw new Error(
+      "Precomputed-kernel models score Gram matrix rows and cannot be exported as code.",
+    );
+  }
+  const typed = (annotation: string) =>
+    input.language === "typescript" ? annotation : "";
+  const { preprocessor, models, regressor } = serialized;
+  const featureNames = encoder.featureNames;
+
+  const toInput = (vector: number[]) =>
+    Object.fromEntries(featureNames.map((name, index) => [name, vector[index]]));
+  const vectors = samples.map((vector) => {
+    if (regressor) return { input: toInput(vector), expected: predictValue(pipeline, vector) };
+    const { label, scores } = scorePipeline(pipeline, vector);
+    const classes = modelClasses(pipeline.models);
+    return {
+      input: toInput(vector),
+      expected: label,
+      scores: Object.fromEntries(classes.map((name, index) => [name, scores[index]])),
+    };
+  });
+
+  const header = `/**
+ * Standalone SVM scoring module, generated ${new Date().toISOString()}.
+ * Predicts "${labelColumn}" with a ${KERNELS[kernel].label} kernel (C = ${cost}).
+ * No dependencies: scaling, kernel and model constants are inlined.
+ *
+ * Inputs are encoded feature values keyed by FEATURE_NAMES:
+${encodingNotes(input).join("\n")}
+ *
+ * Run verify() to check this file against the app's own predictions; it
+ * returns the test vectors that do not match exactly.
+ */`;
+
+  const model = regressor
+    ? `/** Epsilon-SVR dual coefficients; the target was standardized for training. */
+const SUPPORT_VECTORS${typed(": number[][]")} = ${literal(regressor.supportVectors)};
+const COEFFICIENTS${typed(": number[]")} = ${literal(regressor.coefficients)};
+const BIAS = ${literal(regressor.bias)};
+const TARGET = ${literal(regressor.target)};
+
+export function predict(input${typed(": ModelInput")})${typed(": number")} {
+  const x = scale(input);
+  let value = BIAS;
+  for (let i = 0; i < SUPPORT_VECTORS.length; i += 1) {
+    value += COEFFICIENTS[i] * kernel(SUPPORT_VECTORS[i], x);
+  }
+  return value * TARGET.scale + TARGET.center;
+}`
+    : classifierSource(models, typed);
+
+  const verify = regressor
+    ? `export const TEST_VECTORS${typed(": { input: ModelInput; expected: number }[]")} = ${literal(
+        vectors,
+      )};
+
+export function verify() {
+  return TEST_VECTORS.filter(({ input, expected }) => predict(input) !== expected);
+}`
+    : `export const TEST_VECTORS${typed(
+        ": { input: ModelInput; expected: Label; scores: Record<Label, number> }[]",
+      )} = ${literal(vectors)};
+
+export function verify() {
+  return TEST_VECTORS.filter(({ input, expected, scores: want }) => {
+    const got = scores(input);
+    return (
+      predict(input) !== expected ||
+      CLASSES.some((label) => got[label] !== want[label])
+    );
+  });
+}`;
+
+  const imputed = preprocessor.some((scaler) => scaler.fill !== undefined);
+  const scaling = imputed
+    ? `/** Fills for missing (null or NaN) values, fitted on the training rows. */
+const FILLS${typed(": (number | null)[]")} = ${literal(preprocessor.map((scaler) => scaler.fill ?? null))};
+
+function scale(input${typed(": ModelInput")})${typed(": number[]")} {
+  return FEATURE_NAMES.map((name, i) => {
+    const value = input[name] ?? NaN;
+    const fill = FILLS[i];
+    return ((Number.isNaN(value) && fill !== null ? fill : value) - CENTERS[i]) / SCALES[i];
+  });
+}`
+    : `function scale(input${typed(": ModelInput")})${typed(": number[]")} {
+  return FEATURE_NAMES.map((name, i) => (input[name] - CENTERS[i]) / SCALES[i]);
+}`;
+
+  return `${header}
+
+${typed(`export type FeatureName = ${featureNames.map(literal).join(" | ")};
+export type ModelInput = Record<FeatureName, ${imputed ? "number | null" : "number"}>;
+
+`)}export const FEATURE_NAMES${typed(": readonly FeatureName[]")} = ${literal(featureNames)};
+
+/** Fitted scalers: each feature becomes (value - center) / scale. */
+const CENTERS${typed(": number[]")} = ${literal(preprocessor.map((scaler) => scaler.center))};
+const SCALES${typed(": number[]")} = ${literal(preprocessor.map((scaler) => scaler.scale))};
+
+${scaling}
+
+${kernelSource(kernel, kernelOptions, typed)}
+
+${model}
+
+${verify}
+`;
+}
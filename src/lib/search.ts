@@ -0,0 +1,220 @@
+import {
+  createSeededRandom,
+  crossValidate,
+  type TrainingProgress,
+} from "@/lib/evaluation";
+import type { ImbalanceSettings } from "@/lib/imbalance";
+import { KERNELS } from "@/lib/kernels";
+import type { FeatureImputation, ScalingMethod } from "@/lib/preprocessing";
+import type { KernelKey, ModelParameters } from "@/lib/svm";
+
+export type SearchStrategy = "GRID" | "RANDOM";
+
+/** A log10-spaced range: `steps` values from `min` to `max` inclusive. */
+export interface LogRange {
+  min: number;
+  max: number;
+  steps: number;
+}
+
+export interface SearchSpace {
+  strategy: SearchStrategy;
+  kernels: KernelKey[];
+  cost: LogRange;
+  gamma: LogRange;
+  degrees: number[];
+  iterations: number;
+  folds: number;
+  seed: number;
+}
+
+export interface SearchCandidate {
+  kernel: KernelKey;
+  cost: number;
+  gamma: number | null;
+  degree: number | null;
+}
+
+export interface SearchResult extends SearchCandidate {
+  id: number;
+  meanAccuracy: number;
+  stdAccuracy: number;
+  error: string | null;
+}
+
+/** Settings every candidate shares with the model the winner is applied to. */
+export type FixedParameters = Pick<ModelParameters, "multiclass" | "coef0" | "solver">;
+
+export interface HeatmapCell {
+  cost: number;
+  gamma: number;
+  score: number | null;
+}
+
+export function logSpace({ min, max, steps }: LogRange) {
+  if (min <= 0 || max <= 0) {
+    throw new Error("Log-scale ranges must be strictly positive.");
+  }
+  const count = Math.max(1, Math.floor(steps));
+  if (count === 1) return [min];
+  const start = Math.log10(min);
+  const step = (Math.log10(max) - start) / (count - 1);
+  return Array.from({ length: count }, (_, index) =>
+    Number((10 ** (start + step * index)).toPrecision(4)),
+  );
+}
+
+function sampleLog({ min, max }: LogRange, random: () => number) {
+  const start = Math.log10(min);
+  const end = Math.log10(max);
+  return Number((10 ** (start + (end - start) * random())).toPrecision(4));
+}
+
+/**
+ * Expands a search space into concrete candidates. Gamma only varies for the
+ * distance-based kernels and degree only for the polynomial kernel, so other
+ * kernels do not multiply the number of fits.
+ */
+export function generateCandidates(space: SearchSpace) {
+  if (!space.kernels.length) {
+    throw new Error("Select at least one kernel to search.");
+  }
+
+  const candidates: SearchCandidate[] = [];
+
+  if (space.strategy === "RANDOM") {
+    const random = createSeededRandom(space.seed);
+    for (let index = 0; index < space.iterations; index += 1) {
+      const kernel =
+        space.kernels[Math.floor(random() * space.kernels.length)];
+      candidates.push({
+        kernel,
+        cost: sampleLog(space.cost, random),
+        gamma: KERNELS[kernel].searchGamma ? sampleLog(space.gamma, random) : null,
+        degree:
+          kernel === "POLY"
+            ? space.degrees[Math.floor(random() * space.degrees.length)] ?? 3
+            : null,
+      });
+    }
+    return candidates;
+  }
+
+  const costs = logSpace(space.cost);
+  const gammas = logSpace(space.gamma);
+  for (const kernel of space.kernels) {
+    for (const cost of costs) {
+      if (KERNELS[kernel].searchGamma) {
+        for (const gamma of gammas) {
+          candidates.push({ kernel, cost, gamma, degree: null });
+        }
+      } else if (kernel === "POLY") {
+        for (const degree of space.degrees.length ? space.degrees : [3]) {
+          candidates.push({ kernel, cost, gamma: null, degree });
+        }
+      } else {
+        candidates.push({ kernel, cost, gamma: null, degree: null });
+      }
+    }
+  }
+  return candidates;
+}
+
+export function evaluateCandidate(
+  id: number,
+  candidate: SearchCandidate,
+  features: number[][],
+  labels: string[],
+  space: SearchSpace,
+  scaling: ScalingMethod[],
+  imputation: (FeatureImputation | null)[],
+  fixed: FixedParameters,
+  imbalance: ImbalanceSettings,
+  onProgress?: (progress: TrainingProgress) => void,
+): SearchResult {
+  try {
+    // Every candidate sees the same folds so their scores are comparable.
+    const evaluation = crossValidate(
+      features,
+      labels,
+      {
+        kernel: candidate.kernel,
+        cost: candidate.cost,
+        gamma: candidate.gamma,
+        degree: candidate.degree ?? 3,
+        ...fixed,
+        scaling,
+        imputation,
+        imbalance,
+        random: createSeededRandom(space.seed),
+      },
+      space.folds,
+      onProgress,
+    );
+    return {
+      ...candidate,
+      id,
+      meanAccuracy: evaluation.meanAccuracy,
+      stdAccuracy: evaluation.stdAccuracy,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      ...candidate,
+      id,
+      meanAccuracy: NaN,
+      stdAccuracy: NaN,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export function findBestResult(results: SearchResult[]) {
+  return results.reduce<SearchResult | null>((best, result) => {
+    if (result.error) return best;
+    if (
+      !best ||
+      result.meanAccuracy > best.meanAccuracy ||
+      (result.meanAccuracy === best.meanAccuracy &&
+        result.stdAccuracy < best.stdAccuracy)
+    ) {
+      return result;
+    }
+    return best;
+  }, null);
+}
+
+/**
+ * Bins RBF results onto the C×gamma grid of the search space, keeping the
+ * best score per cell. Random-search samples land in their nearest cell.
+ */
+export function buildHeatmap(results: SearchResult[], space: SearchSpace) {
+  const costs = logSpace(space.cost);
+  const gammas = logSpace(space.gamma);
+  const nearest = (values: number[], value: number) =>
+    values.reduce(
+      (bestIndex, candidate, index) =>
+        Math.abs(Math.log10(candidate) - Math.log10(value)) <
+        Math.abs(Math.log10(values[bestIndex]) - Math.log10(value))
+          ? index
+          : bestIndex,
+      0,
+    );
+
+  const cells: HeatmapCell[][] = gammas.map((gamma) =>
+    costs.map((cost) => ({ cost, gamma, score: null })),
+  );
+
+  for (const result of results) {
+    if (result.kernel !== "RBF" || result.gamma === null || result.error) {
+      continue;
+    }
+    const cell =
+      cells[nearest(gammas, result.gamma)][nearest(costs, result.cost)];
+    if (cell.score === null || result.meanAccuracy > cell.score) {
+      cell.score = result.meanAccuracy;
+    }
+  }
+
+  return { costs, gammas, cells };
+}
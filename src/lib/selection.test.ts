@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createSeededRandom } from "@/lib/evaluation";
+import { DEFAULT_IMBALANCE } from "@/lib/imbalance";
+import { featureGroups } from "@/lib/importance";
+import {
+  bestEliminationStep,
+  recursiveFeatureElimination,
+  univariateScores,
+} from "@/lib/selection";
+
+/** The label depends on the first two columns; the last two are noise. */
+function informativeAndNoise(count: number, seed: number) {
+  const random = createSeededRandom(seed);
+  const features: number[][] = [];
+  const labels: string[] = [];
+  for (let index = 0; index < count; index += 1) {
+    const row = Array.from({ length: 4 }, () => random() * 2 - 1);
+    features.push(row);
+    labels.push(row[0] + 0.5 * row[1] > 0 ? "positive" : "negative");
+  }
+  return { features, labels };
+}
+
+const groups = featureGroups(["strong", "weak", "noise a", "noise b"]);
+
+describe("feature selection", () => {
+  const { features, labels } = informativeAndNoise(120, 7);
+
+  it("eliminates the noise columns first", () => {
+    const { steps, ranking } = recursiveFeatureElimination(features, labels, groups, {
+      cost: 10,
+      multiclass: "OVR",
+      scaling: ["NONE", "NONE", "NONE", "NONE"],
+      imbalance: DEFAULT_IMBALANCE,
+      folds: 3,
+      step: 1,
+      seed: 2,
+    });
+    assert.deepEqual(
+      steps.map((step) => step.features.length),
+      [4, 3, 2, 1],
+    );
+    assert.deepEqual(ranking.slice(0, 2), ["strong", "weak"]);
+    assert.ok(bestEliminationStep(steps)!.meanAccuracy > 0.9);
+  });
+
+  it("scores informative columns above noise", () => {
+    const [strong, , noiseA, noiseB] = univariateScores(features, labels, groups);
+    for (const noise of [noiseA, noiseB]) {
+      assert.ok(strong.fScore > noise.fScore);
+      assert.ok(strong.mutualInformation > noise.mutualInformation);
+    }
+  });
+
+  it("prefers fewer features when accuracy ties", () => {
+    const best = bestEliminationStep([
+      { features: ["a", "b"], meanAccuracy: 0.9, stdAccuracy: 0 },
+      { features: ["a"], meanAccuracy: 0.9, stdAccuracy: 0.1 },
+    ]);
+    assert.deepEqual(best?.features, ["a"]);
+  });
+});
@@ -0,0 +1,252 @@
+import { createSeededRandom, crossValidate } from "@/lib/evaluation";
+import type { ImbalanceSettings } from "@/lib/imbalance";
+import { linearWeights, type FeatureGroup } from "@/lib/importance";
+import type { FeatureImputation, ScalingMethod } from "@/lib/preprocessing";
+import { trainPipeline, type MulticlassStrategy } from "@/lib/svm";
+
+export type SelectionMethod = "RFE" | "ANOVA" | "MUTUAL_INFORMATION";
+
+export const SELECTION_LABELS: Record<SelectionMethod, string> = {
+  RFE: "Recursive elimination (linear SVM)",
+  ANOVA: "ANOVA F-score",
+  MUTUAL_INFORMATION: "Mutual information",
+};
+
+export interface SelectionOptions {
+  cost: number;
+  multiclass: MulticlassStrategy;
+  /** One method per encoded column. */
+  scaling: ScalingMethod[];
+  /** Per encoded column; none when absent. */
+  imputation?: (FeatureImputation | null)[];
+  imbalance: ImbalanceSettings;
+  folds: number;
+  /** Features removed per elimination round. */
+  step: number;
+  seed: number;
+}
+
+export interface EliminationStep {
+  /** Source features still in the model, in input order. */
+  features: string[];
+  meanAccuracy: number;
+  stdAccuracy: number;
+}
+
+export interface UnivariateScore {
+  feature: string;
+  fScore: number;
+  /** In nats; numeric columns are binned first. */
+  mutualInformation: number;
+}
+
+export interface SelectionResult {
+  /** From all candidate features down to one. */
+  steps: EliminationStep[];
+  /** Source features by elimination rank, the last one removed first. */
+  ranking: string[];
+  univariate: UnivariateScore[];
+}
+
+export interface SelectionProgress {
+  step: number;
+  steps: number;
+}
+
+/** Numeric columns with more distinct values are binned by quantile. */
+const MUTUAL_INFORMATION_BINS = 10;
+
+/** The highest-scoring round; ties go to the one with fewer features. */
+export function bestEliminationStep(steps: EliminationStep[]) {
+  return steps.reduce<EliminationStep | null>((best, step) => {
+    if (!best) return step;
+    if (step.meanAccuracy > best.meanAccuracy + 1e-9) return step;
+    if (
+      Math.abs(step.meanAccuracy - best.meanAccuracy) <= 1e-9 &&
+      step.features.length < best.features.length
+    ) {
+      return step;
+    }
+    return best;
+  }, null);
+}
+
+/** One-way ANOVA F statistic of a single column across the label classes. */
+function fStatistic(values: number[], labels: string[]) {
+  const classes = new Map<string, number[]>();
+  values.forEach((value, index) => {
+    const members = classes.get(labels[index]);
+    if (members) members.push(value);
+    else classes.set(labels[index], [value]);
+  });
+  const count = values.length;
+  const groups = classes.size;
+  if (groups < 2 || count <= groups) return 0;
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / count;
+  let between = 0;
+  let within = 0;
+  for (const members of classes.values()) {
+    const classMean = members.reduce((sum, value) => sum + value, 0) / members.length;
+    between += members.length * (classMean - mean) ** 2;
+    within += members.reduce((sum, value) => sum + (value - classMean) ** 2, 0);
+  }
+  if (within === 0) return between > 0 ? Infinity : 0;
+  return between / (groups - 1) / (within / (count - groups));
+}
+
+/**
+ * Discrete codes for a feature group: the active category of a one-hot
+ * block, or quantile bins of a single numeric column. Ties always share a
+ * bin, so binary columns keep exactly two codes.
+ */
+function discretize(features: number[][], columns: number[]) {
+  if (columns.length > 1) {
+    return features.map((row) => {
+      let best = 0;
+      columns.forEach((column, index) => {
+        if (row[column] > row[columns[best]]) best = index;
+      });
+      return best;
+    });
+  }
+  const values = features.map((row) => row[columns[0]]);
+  const distinct = Array.from(new Set(values)).sort((a, b) => a - b);
+  if (distinct.length <= MUTUAL_INFORMATION_BINS) {
+    return values.map((value) => distinct.indexOf(value));
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const cuts = Array.from(
+    new Set(
+      Array.from({ length: MUTUAL_INFORMATION_BINS - 1 }, (_, index) =>
+        sorted[Math.floor(((index + 1) * sorted.length) / MUTUAL_INFORMATION_BINS)],
+      ),
+    ),
+  );
+  return values.map((value) => cuts.filter((cut) => value >= cut).length);
+}
+
+function mutualInformation(codes: number[], labels: string[]) {
+  const count = codes.length;
+  const joint = new Map<string, number>();
+  const left = new Map<number, number>();
+  const right = new Map<string, number>();
+  codes.forEach((code, index) => {
+    const key = `${code}\u0000${labels[index]}`;
+    joint.set(key, (joint.get(key) ?? 0) + 1);
+    left.set(code, (left.get(code) ?? 0) + 1);
+    right.set(labels[index], (right.get(labels[index]) ?? 0) + 1);
+  });
+  let information = 0;
+  for (const [key, together] of joint) {
+    const [code, label] = key.split("\u0000");
+    const expected = ((left.get(Number(code)) ?? 0) * (right.get(label) ?? 0)) / count;
+    information += (together / count) * Math.log(together / expected);
+  }
+  return Math.max(0, information);
+}
+
+/**
+ * ANOVA F and mutual information of every feature group with the labels,
+ * over the rows where the group is present. A one-hot group's F-score is
+ * its best column's.
+ */
+export function univariateScores(
+  features: number[][],
+  labels: string[],
+  groups: FeatureGroup[],
+): UnivariateScore[] {
+  return groups.map(({ feature, columns }) => {
+    const rows = features.flatMap((row, index) =>
+      columns.some((column) => Number.isNaN(row[column])) ? [] : [index],
+    );
+    const present = rows.map((index) => features[index]);
+    const presentLabels = rows.map((index) => labels[index]);
+    return {
+      feature,
+      fScore: Math.max(
+        ...columns.map((column) =>
+          fStatistic(
+            present.map((row) => row[column]),
+            presentLabels,
+          ),
+        ),
+      ),
+      mutualInformation: mutualInformation(discretize(present, columns), presentLabels),
+    };
+  });
+}
+
+/**
+ * Recursive feature elimination with cross-validation: score the current
+ * feature set with a linear SVM, refit it on every row, drop the groups with
+ * the smallest squared weights (summed over the binary models) and repeat
+ * down to one feature. Every round sees the same folds.
+ */
+export function recursiveFeatureElimination(
+  features: number[][],
+  labels: string[],
+  groups: FeatureGroup[],
+  options: SelectionOptions,
+  onProgress?: (progress: SelectionProgress) => void,
+) {
+  if (!groups.length) {
+    throw new Error("There are no candidate features to select from.");
+  }
+  const step = Math.max(1, Math.floor(options.step));
+  const rounds = Math.ceil((groups.length - 1) / step) + 1;
+  const steps: EliminationStep[] = [];
+  const eliminated: string[] = [];
+  let active = groups;
+
+  for (let round = 1; ; round += 1) {
+    onProgress?.({ step: round, steps: rounds });
+    const columns = active.flatMap((group) => group.columns).sort((a, b) => a - b);
+    const subset = features.map((row) => columns.map((column) => row[column]));
+    const config = {
+      kernel: "LINEAR" as const,
+      cost: options.cost,
+      gamma: null,
+      degree: 3,
+      multiclass: options.multiclass,
+      scaling: columns.map((column) => options.scaling[column]),
+      imputation: columns.map((column) => options.imputation?.[column] ?? null),
+      imbalance: options.imbalance,
+      random: createSeededRandom(options.seed),
+    };
+    const evaluation = crossValidate(subset, labels, config, options.folds);
+    steps.push({
+      features: active.map((group) => group.feature),
+      meanAccuracy: evaluation.meanAccuracy,
+      stdAccuracy: evaluation.stdAccuracy,
+    });
+    if (active.length === 1) break;
+
+    const weights = linearWeights(trainPipeline(subset, labels, config)) ?? [];
+    const position = new Map(columns.map((column, index) => [column, index]));
+    const ranked = active
+      .map((group) => ({
+        group,
+        weight: weights.reduce(
+          (sum, model) =>
+            sum +
+            group.columns.reduce(
+              (total, column) => total + model.weights[position.get(column) ?? 0] ** 2,
+              0,
+            ),
+          0,
+        ),
+      }))
+      .sort((a, b) => a.weight - b.weight);
+    const removed = ranked
+      .slice(0, Math.min(step, active.length - 1))
+      .map(({ group }) => group);
+    eliminated.push(...removed.map((group) => group.feature));
+    active = active.filter((group) => !removed.includes(group));
+  }
+
+  return {
+    steps,
+    ranking: [...active.map((group) => group.feature), ...eliminated.reverse()],
+  };
+}
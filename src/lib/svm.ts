@@ -0,0 +1,566 @@
+import SVM, { type KernelType } from "ml-svm";
+import type { PlattParameters } from "@/lib/calibration";
+import {
+  ChiSquaredKernel,
+  createCustomKernel,
+  PrecomputedKernel,
+  type CustomKernel,
+} from "@/lib/kernels";
+import {
+  classWeights,
+  resampleIndices,
+  weightCopies,
+  type ImbalanceSettings,
+} from "@/lib/imbalance";
+import {
+  fitPreprocessor,
+  transformFeatures,
+  transformVector,
+  type FeatureImputation,
+  type Preprocessor,
+  type ScalingMethod,
+} from "@/lib/preprocessing";
+import type { SVRModel } from "@/lib/regression";
+
+export type KernelKey =
+  | "LINEAR"
+  | "POLY"
+  | "RBF"
+  | "SIGMOID"
+  | "LAPLACIAN"
+  | "CHI_SQUARED"
+  | "PRECOMPUTED";
+export type SVMKernel =
+  | "linear"
+  | "polynomial"
+  | "rbf"
+  | "sigmoid"
+  | "laplacian"
+  | "chi-squared"
+  | "precomputed";
+export type MulticlassStrategy = "OVR" | "OVO";
+
+/**
+ * A binary SVM scoring `label` as +1. One-vs-rest models score every other
+ * class as -1; one-vs-one models set `opponent` and only ever saw those two
+ * classes.
+ */
+export interface TrainedModel {
+  label: string;
+  opponent?: string;
+  svm: InstanceType<typeof SVM>;
+  /** Set once the model is calibrated on out-of-sample margins. */
+  platt?: PlattParameters;
+  /** Absent on models saved before training stats were recorded. */
+  stats?: TrainingStats;
+}
+
+export interface TrainingStats {
+  /** Rows with a non-zero alpha, counting weighted copies separately. */
+  supportVectors: number;
+  iterations: number;
+  /** False when SMO stopped at `maxIterations` instead of settling. */
+  converged: boolean;
+  /**
+   * The looser tolerance the kept model was refitted with, stopping after
+   * a single pass, once the configured settings hit `maxIterations`.
+   */
+  tol?: number;
+}
+
+/** ml-svm's SMO stopping criteria. */
+export interface SolverSettings {
+  /** Numerical tolerance on the KKT conditions. */
+  tol: number;
+  /** Passes over the data without an alpha change before stopping. */
+  maxPasses: number;
+  maxIterations: number;
+}
+
+export const DEFAULT_SOLVER: SolverSettings = {
+  tol: 1e-4,
+  maxPasses: 10,
+  maxIterations: 10000,
+};
+
+/**
+ * `gamma`, `degree` and `coef0` follow the usual SVM conventions and only
+ * apply to some kernels; see `KERNELS` for which. Models saved before
+ * `coef0` and `solver` existed use their defaults.
+ */
+export interface ModelParameters {
+  kernel: KernelKey;
+  cost: number;
+  gamma: number | null;
+  degree: number;
+  multiclass: MulticlassStrategy;
+  /** Constant term of the polynomial and sigmoid kernels; defaults to 1. */
+  coef0?: number;
+  solver?: SolverSettings;
+}
+
+export interface ModelProgress {
+  model: number;
+  models: number;
+}
+
+export interface TrainingConfig extends ModelParameters {
+  /** One scaling method per feature column. */
+  scaling: ScalingMethod[];
+  /** Per feature column, for the NaN cells of imputed columns; none when absent. */
+  imputation?: (FeatureImputation | null)[];
+  random: () => number;
+  /** Class weights and training-set resampling; off when absent. */
+  imbalance?: ImbalanceSettings;
+  onModelStart?: (progress: ModelProgress) => void;
+}
+
+/** Plain-data form of a `TrainedModel`, safe to post between threads. */
+export interface SerializedModel {
+  label: string;
+  opponent?: string;
+  svm: Record<string, unknown>;
+  platt?: PlattParameters;
+  stats?: TrainingStats;
+}
+
+/**
+ * Fitted scalers plus the binary SVMs trained on the scaled features.
+ * Regression pipelines carry a `regressor` and no classification models.
+ */
+export interface TrainedPipeline {
+  /** The hyper-parameters the models were trained with. */
+  parameters: ModelParameters;
+  preprocessor: Preprocessor;
+  models: TrainedModel[];
+  regressor?: SVRModel;
+}
+
+export interface SerializedPipeline {
+  parameters: ModelParameters;
+  preprocessor: Preprocessor;
+  models: SerializedModel[];
+  regressor?: SVRModel;
+}
+
+export const MULTICLASS_LABELS: Record<MulticlassStrategy, string> = {
+  OVR: "One-vs-rest",
+  OVO: "One-vs-one (pairwise voting)",
+};
+
+export const KERNEL_MAP: Record<KernelKey, SVMKernel> = {
+  LINEAR: "linear",
+  POLY: "polynomial",
+  RBF: "rbf",
+  SIGMOID: "sigmoid",
+  LAPLACIAN: "laplacian",
+  CHI_SQUARED: "chi-squared",
+  PRECOMPUTED: "precomputed",
+};
+
+/**
+ * Translates gamma, degree and coef0 into ml-kernel's option names. A blank
+ * gamma means 1 / dimension for the distance kernels and the library
+ * defaults for the dot-product ones.
+ */
+export function resolveKernelOptions(
+  parameters: Pick<ModelParameters, "kernel" | "gamma" | "degree" | "coef0">,
+  dimension: number,
+): Record<string, number> | undefined {
+  const { kernel, gamma, degree, coef0 = 1 } = parameters;
+  const widthGamma = gamma ?? 1 / Math.max(1, dimension);
+
+  if (kernel === "RBF") {
+    return { sigma: Math.sqrt(1 / (2 * widthGamma)) };
+  }
+
+  if (kernel === "LAPLACIAN") {
+    return { sigma: 1 / widthGamma };
+  }
+
+  if (kernel === "POLY") {
+    return { degree, constant: coef0, scale: gamma ?? 1 };
+  }
+
+  if (kernel === "SIGMOID") {
+    return { alpha: gamma ?? 0.01, constant: coef0 };
+  }
+
+  if (kernel === "CHI_SQUARED") {
+    return { gamma: gamma ?? 1 };
+  }
+
+  return undefined;
+}
+
+/** The `kernel` option for ml-svm: a built-in name or a custom kernel. */
+function svmKernel(kernel: KernelKey, options?: Record<string, number>) {
+  if (kernel === "CHI_SQUARED") return new ChiSquaredKernel(options);
+  if (kernel === "PRECOMPUTED") return new PrecomputedKernel();
+  return KERNEL_MAP[kernel] as KernelType;
+}
+
+function validateTrainingData(features: number[][], labels: string[]) {
+  const uniqueLabels = Array.from(new Set(labels));
+  if (uniqueLabels.length < 2) {
+    throw new Error("At least two unique labels are required.");
+  }
+
+  const dimension = features[0]?.length ?? 0;
+  if (dimension === 0) {
+    throw new Error("Select at least one feature column.");
+  }
+  return { uniqueLabels, dimension };
+}
+
+/**
+ * Tolerances tried when SMO hits `maxIterations`: ten and a hundred times
+ * the configured one, then one that accepts every alpha as it is, so SMO
+ * stops after a pass and a model is kept even if it never settled.
+ */
+const fallbackTolerances = (tol: number) => [tol * 10, tol * 100, Number.MAX_VALUE];
+
+/**
+ * ml-svm has a single C, so per-row costs are emulated by repeating rows.
+ * Copies are appended after the original rows, keeping support-vector
+ * indices below `features.length` aligned with the input.
+ */
+function trainBinary(
+  features: number[][],
+  binaryLabels: number[],
+  config: TrainingConfig,
+  dimension: number,
+  rowWeights?: number[],
+) {
+  const { scale, copies } = rowWeights
+    ? weightCopies(rowWeights)
+    : { scale: 1, copies: [] };
+  const extra = copies.flatMap((count, row) =>
+    Array.from({ length: count - 1 }, () => row),
+  );
+
+  const kernelOptions = resolveKernelOptions(config, dimension);
+  const solver = config.solver ?? DEFAULT_SOLVER;
+  const trainingFeatures = [...features, ...extra.map((row) => features[row])];
+  const trainingLabels = [...binaryLabels, ...extra.map((row) => binaryLabels[row])];
+
+  const fit = (settings: SolverSettings) => {
+    const svm = new SVM({
+      C: config.cost * scale,
+      ...settings,
+      kernel: svmKernel(config.kernel, kernelOptions),
+      // Scaling is handled by the preprocessor; ml-svm's built-in min-max
+      // whitening would otherwise undo any other scaler.
+      whitening: false,
+      random: config.random,
+      ...(kernelOptions ? { kernelOptions } : {}),
+    });
+    try {
+      svm.train(trainingFeatures, trainingLabels);
+      return svm;
+    } catch (error) {
+      if (error instanceof Error && error.message === "max iterations reached") return null;
+      throw error;
+    }
+  };
+
+  const svm = fit(solver);
+  if (svm) {
+    const stats: TrainingStats = {
+      supportVectors: svm.supportVectors().length,
+      iterations: svm.iterations ?? solver.maxIterations,
+      converged: true,
+    };
+    return { svm, stats };
+  }
+
+  // ml-svm discards its alphas when SMO reaches `maxIterations`, so the model
+  // is refitted under the same limit with a looser tolerance, stopping at the
+  // first pass without an update. That pass always fits within the limit.
+  const maxPasses = Math.min(1, solver.maxIterations - 1);
+  for (const tol of fallbackTolerances(solver.tol)) {
+    const fallback = fit({ ...solver, tol, maxPasses });
+    if (!fallback) continue;
+    const stats: TrainingStats = {
+      supportVectors: fallback.supportVectors().length,
+      iterations: solver.maxIterations,
+      converged: false,
+      tol,
+    };
+    return { svm: fallback, stats };
+  }
+  throw new Error("SMO stopped at max iterations with every fallback tolerance.");
+}
+
+export function trainOneVsRest(
+  features: number[][],
+  labels: string[],
+  config: TrainingConfig,
+) {
+  const { uniqueLabels, dimension } = validateTrainingData(features, labels);
+  const weights = classWeights(labels, config.imbalance);
+  const rowWeights = weights ? labels.map((label) => weights[label]) : undefined;
+
+  const trainedModels: TrainedModel[] = [];
+  for (const [index, targetLabel] of uniqueLabels.entries()) {
+    config.onModelStart?.({ model: index + 1, models: uniqueLabels.length });
+    const binaryLabels = labels.map((value) =>
+      value === targetLabel ? 1 : -1,
+    );
+    trainedModels.push({
+      label: targetLabel,
+      ...trainBinary(features, binaryLabels, config, dimension, rowWeights),
+    });
+  }
+  return trainedModels;
+}
+
+/** Trains one SVM per pair of classes, each on that pair's rows only. */
+export function trainOneVsOne(
+  features: number[][],
+  labels: string[],
+  config: TrainingConfig,
+) {
+  const { uniqueLabels, dimension } = validateTrainingData(features, labels);
+  const weights = classWeights(labels, config.imbalance);
+  const pairs = uniqueLabels.flatMap((label, index) =>
+    uniqueLabels.slice(index + 1).map((opponent) => [label, opponent]),
+  );
+
+  const trainedModels: TrainedModel[] = [];
+  for (const [index, [label, opponent]] of pairs.entries()) {
+    config.onModelStart?.({ model: index + 1, models: pairs.length });
+    const rows = labels
+      .map((value, row) => (value === label || value === opponent ? row : -1))
+      .filter((row) => row >= 0);
+    trainedModels.push({
+      label,
+      opponent,
+      ...trainBinary(
+        rows.map((row) => features[row]),
+        rows.map((row) => (labels[row] === label ? 1 : -1)),
+        config,
+        dimension,
+        weights ? rows.map((row) => weights[labels[row]]) : undefined,
+      ),
+    });
+  }
+  return trainedModels;
+}
+
+export function trainMulticlass(
+  features: number[][],
+  labels: string[],
+  config: TrainingConfig,
+) {
+  return config.multiclass === "OVO"
+    ? trainOneVsOne(features, labels, config)
+    : trainOneVsRest(features, labels, config);
+}
+
+/** Stable identifier of a binary model, e.g. `setosa` or `setosa vs virginica`. */
+export function modelKey(model: Pick<TrainedModel, "label" | "opponent">) {
+  return model.opponent === undefined
+    ? model.label
+    : `${model.label} vs ${model.opponent}`;
+}
+
+/** Every class the models can predict, in first-seen order. */
+export function modelClasses(models: Pick<TrainedModel, "label" | "opponent">[]) {
+  return Array.from(
+    new Set(
+      models.flatMap((model) =>
+        model.opponent === undefined ? [model.label] : [model.label, model.opponent],
+      ),
+    ),
+  );
+}
+
+/** Models whose SMO solver stopped at the iteration limit. */
+export function unconvergedModels(models: TrainedModel[]) {
+  return models.filter((model) => model.stats?.converged === false);
+}
+
+/** Raw decision value of each binary model, in `models` order. */
+export function modelMargins(models: TrainedModel[], vector: number[]) {
+  return models.map((model) => {
+    const margin = model.svm.marginOne(vector);
+    return Number.isFinite(margin) ? margin : model.svm.predictOne(vector);
+  });
+}
+
+/**
+ * Per-class scores aligned with `modelClasses(models)`. One-vs-rest uses the
+ * raw margins; one-vs-one counts pairwise votes and adds the summed margins
+ * squashed into (-1/3, 1/3), so confidence breaks ties without overturning
+ * a vote.
+ */
+export function classScores(models: TrainedModel[], margins: number[]) {
+  const classes = modelClasses(models);
+  if (models.every((model) => model.opponent === undefined)) return margins;
+
+  const votes = classes.map(() => 0);
+  const confidence = classes.map(() => 0);
+  models.forEach((model, index) => {
+    const positive = classes.indexOf(model.label);
+    const negative = classes.indexOf(model.opponent ?? "");
+    const margin = margins[index];
+    votes[margin > 0 ? positive : negative] += 1;
+    confidence[positive] += margin;
+    confidence[negative] -= margin;
+  });
+  return votes.map(
+    (count, index) =>
+      count + confidence[index] / (3 * (Math.abs(confidence[index]) + 1)),
+  );
+}
+
+export function predictLabel(models: TrainedModel[], vector: number[]) {
+  const classes = modelClasses(models);
+  const scores = classScores(models, modelMargins(models, vector));
+  let bestLabel = "";
+  let bestScore = -Infinity;
+  for (const [index, label] of classes.entries()) {
+    if (scores[index] > bestScore) {
+      bestScore = scores[index];
+      bestLabel = label;
+    }
+  }
+  return bestLabel;
+}
+
+export function serializeModel(model: TrainedModel): SerializedModel {
+  const { options, ...state } = model.svm.toJSON() as {
+    options: Record<string, unknown>;
+  };
+  // The seeded generator is a function and cannot be cloned or stringified.
+  const serializableOptions = { ...options };
+  delete serializableOptions.random;
+  // Custom kernels are stored by name and rebuilt in `deserializeModel`.
+  if (typeof options.kernel === "object" && options.kernel !== null) {
+    serializableOptions.kernel = (options.kernel as CustomKernel).name;
+  }
+  return {
+    label: model.label,
+    ...(model.opponent === undefined ? {} : { opponent: model.opponent }),
+    svm: { ...state, options: serializableOptions },
+    ...(model.platt ? { platt: model.platt } : {}),
+    ...(model.stats ? { stats: model.stats } : {}),
+  };
+}
+
+export function deserializeModel(model: SerializedModel): TrainedModel {
+  const options = model.svm.options as {
+    kernel: string;
+    kernelOptions?: Record<string, number>;
+  };
+  const kernel = createCustomKernel(options.kernel, options.kernelOptions);
+  return {
+    label: model.label,
+    ...(model.opponent === undefined ? {} : { opponent: model.opponent }),
+    svm: SVM.load(
+      kernel ? { ...model.svm, options: { ...options, kernel } } : model.svm,
+    ),
+    ...(model.platt ? { platt: model.platt } : {}),
+    ...(model.stats ? { stats: model.stats } : {}),
+  };
+}
+
+/** The hyper-parameters of a training config, without its callbacks and data settings. */
+export function modelParameters({
+  kernel,
+  cost,
+  gamma,
+  degree,
+  multiclass,
+  coef0,
+  solver,
+}: ModelParameters): ModelParameters {
+  return {
+    kernel,
+    cost,
+    gamma,
+    degree,
+    multiclass,
+    ...(coef0 === undefined ? {} : { coef0 }),
+    ...(solver ? { solver } : {}),
+  };
+}
+
+/**
+ * Fits the imputation fills and scalers on `features` only, then trains on
+ * the scaled values. Resampling happens after scaling so duplicated rows
+ * cannot skew the scalers.
+ */
+export function trainPipeline(
+  features: number[][],
+  labels: string[],
+  config: TrainingConfig,
+): TrainedPipeline {
+  const preprocessor = fitPreprocessor(features, config.scaling, config.imputation);
+  const scaled = transformFeatures(preprocessor, features);
+  const resampling = config.imbalance?.resampling ?? "NONE";
+  const rows =
+    resampling === "NONE"
+      ? null
+      : resampleIndices(labels, resampling, config.random);
+  return {
+    parameters: modelParameters(config),
+    preprocessor,
+    models: trainMulticlass(
+      rows ? rows.map((row) => scaled[row]) : scaled,
+      rows ? rows.map((row) => labels[row]) : labels,
+      config,
+    ),
+  };
+}
+
+export function predictPipeline(pipeline: TrainedPipeline, vector: number[]) {
+  return predictLabel(
+    pipeline.models,
+    transformVector(pipeline.preprocessor, vector),
+  );
+}
+
+/**
+ * Scores one raw feature vector: `scores` align with `modelClasses`,
+ * `margins` with the pipeline's models.
+ */
+export function scorePipeline(pipeline: TrainedPipeline, vector: number[]) {
+  const scaled = transformVector(pipeline.preprocessor, vector);
+  const margins = modelMargins(pipeline.models, scaled);
+  return {
+    label: predictLabel(pipeline.models, scaled),
+    scores: classScores(pipeline.models, margins),
+    margins,
+  };
+}
+
+/** Raw model margins keyed by `modelKey`. */
+export function marginsByModel(models: TrainedModel[], margins: number[]) {
+  return Object.fromEntries(
+    models.map((model, index) => [modelKey(model), margins[index]]),
+  );
+}
+
+export function serializePipeline(
+  pipeline: TrainedPipeline,
+): SerializedPipeline {
+  return {
+    parameters: pipeline.parameters,
+    preprocessor: pipeline.preprocessor,
+    models: pipeline.models.map(serializeModel),
+    ...(pipeline.regressor ? { regressor: pipeline.regressor } : {}),
+  };
+}
+
+export function deserializePipeline(
+  pipeline: SerializedPipeline,
+): TrainedPipeline {
+  return {
+    parameters: pipeline.parameters,
+    preprocessor: pipeline.preprocessor,
+    models: pipeline.models.map(deserializeModel),
+    ...(pipeline.regressor ? { regressor: pipeline.regressor } : {}),
+  };
+}
@@ -0,0 +1,215 @@
+import type { ColumnType, EncodingOptions } from "@/lib/encoding";
+import type { EvaluationSettings } from "@/lib/evaluation";
+import type { ExperimentRun } from "@/lib/experiments";
+import type { ImbalanceSettings } from "@/lib/imbalance";
+import type { ModelBundle } from "@/lib/model-bundle";
+import type { ScalingMethod } from "@/lib/preprocessing";
+import type { TaskSelection } from "@/lib/regression";
+import type { ModelParameters } from "@/lib/svm";
+
+export interface WorkspaceSettings {
+  parameters: ModelParameters;
+  task: TaskSelection;
+  epsilon: number;
+  scaling: ScalingMethod;
+  columnScaling: Record<string, ScalingMethod>;
+  encoding: EncodingOptions;
+  imbalance: ImbalanceSettings;
+  evaluation: EvaluationSettings;
+}
+
+/** Everything needed to reopen a session exactly where it was left. */
+export interface WorkspaceSnapshot {
+  rows: Record<string, string>[];
+  columns: string[];
+  /** Column types declared by the imported file; absent for older workspaces. */
+  declaredTypes?: Record<string, ColumnType>;
+  labelColumn: string;
+  featureColumns: string[];
+  settings: WorkspaceSettings;
+  /** The trained model with its metrics, in export-bundle form. */
+  model: ModelBundle | null;
+  /** Absent in workspaces saved before run history was recorded. */
+  experiments?: ExperimentRun[];
+}
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  rows: number;
+  hasModel: boolean;
+}
+
+const DATABASE_NAME = "svm-playground";
+const DATABASE_VERSION = 1;
+/** Summaries and snapshots live apart so listing never loads datasets. */
+const SUMMARY_STORE = "workspaces";
+const SNAPSHOT_STORE = "snapshots";
+const LAST_WORKSPACE_KEY = "svm-playground:last-workspace";
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function requestResult<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () =>
+      reject(request.error ?? new Error("Workspace storage request failed."));
+  });
+}
+
+function openDatabase() {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(
+      new Error("Workspaces need IndexedDB, which this browser does not provide."),
+    );
+  }
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SUMMARY_STORE, { keyPath: "id" });
+      request.result.createObjectStore(SNAPSHOT_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error ?? new Error("Could not open workspace storage."));
+    };
+  });
+  return databasePromise;
+}
+
+/** Runs `work` in one transaction and resolves once it has committed. */
+async function transact<T>(
+  mode: IDBTransactionMode,
+  work: (summaries: IDBObjectStore, snapshots: IDBObjectStore) => Promise<T>,
+) {
+  const database = await openDatabase();
+  const transaction = database.transaction([SUMMARY_STORE, SNAPSHOT_STORE], mode);
+  const committed = new Promise<void>((resolve, reject) => {
+    const fail = () =>
+      reject(transaction.error ?? new Error("Workspace storage transaction failed."));
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = fail;
+    transaction.onerror = fail;
+  });
+  const [result] = await Promise.all([
+    work(
+      transaction.objectStore(SUMMARY_STORE),
+      transaction.objectStore(SNAPSHOT_STORE),
+    ),
+    committed,
+  ]);
+  return result;
+}
+
+function summarize(
+  id: string,
+  name: string,
+  createdAt: string,
+  snapshot: WorkspaceSnapshot,
+): WorkspaceSummary {
+  return {
+    id,
+    name,
+    createdAt,
+    updatedAt: new Date().toISOString(),
+    rows: snapshot.rows.length,
+    hasModel: snapshot.model !== null,
+  };
+}
+
+export async function listWorkspaces() {
+  const summaries = await transact("readonly", (store) =>
+    requestResult(store.getAll() as IDBRequest<WorkspaceSummary[]>),
+  );
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function loadWorkspace(id: string) {
+  const [summary, snapshot] = await transact("readonly", (summaries, snapshots) =>
+    Promise.all([
+      requestResult(summaries.get(id) as IDBRequest<WorkspaceSummary | undefined>),
+      requestResult(snapshots.get(id) as IDBRequest<WorkspaceSnapshot | undefined>),
+    ]),
+  );
+  if (!summary || !snapshot) {
+    throw new Error("Workspace no longer exists.");
+  }
+  return { summary, snapshot };
+}
+
+function writeWorkspace(summary: WorkspaceSummary, snapshot: WorkspaceSnapshot) {
+  return transact("readwrite", async (summaries, snapshots) => {
+    await Promise.all([
+      requestResult(summaries.put(summary)),
+      requestResult(snapshots.put(snapshot, summary.id)),
+    ]);
+    return summary;
+  });
+}
+
+export function createWorkspace(name: string, snapshot: WorkspaceSnapshot) {
+  return writeWorkspace(
+    summarize(crypto.randomUUID(), name, new Date().toISOString(), snapshot),
+    snapshot,
+  );
+}
+
+export async function saveWorkspace(id: string, snapshot: WorkspaceSnapshot) {
+  const current = await transact("readonly", (summaries) =>
+    requestResult(summaries.get(id) as IDBRequest<WorkspaceSummary | undefined>),
+  );
+  if (!current) throw new Error("Workspace no longer exists.");
+  return writeWorkspace(
+    summarize(id, current.name, current.createdAt, snapshot),
+    snapshot,
+  );
+}
+
+export function renameWorkspace(id: string, name: string) {
+  return transact("readwrite", async (summaries) => {
+    const summary = await requestResult(
+      summaries.get(id) as IDBRequest<WorkspaceSummary | undefined>,
+    );
+    if (!summary) throw new Error("Workspace no longer exists.");
+    const renamed = { ...summary, name, updatedAt: new Date().toISOString() };
+    await requestResult(summaries.put(renamed));
+    return renamed;
+  });
+}
+
+export async function duplicateWorkspace(id: string, name: string) {
+  const { snapshot } = await loadWorkspace(id);
+  return createWorkspace(name, snapshot);
+}
+
+export function deleteWorkspace(id: string) {
+  return transact("readwrite", async (summaries, snapshots) => {
+    await Promise.all([
+      requestResult(summaries.delete(id)),
+      requestResult(snapshots.delete(id)),
+    ]);
+  });
+}
+
+export function getLastWorkspaceId() {
+  try {
+    return window.localStorage.getItem(LAST_WORKSPACE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setLastWorkspaceId(id: string | null) {
+  try {
+    if (id) {
+      window.localStorage.setItem(LAST_WORKSPACE_KEY, id);
+    } else {
+      window.localStorage.removeItem(LAST_WORKSPACE_KEY);
+    }
+  } catch {
+    // Private browsing can block storage; restoring is best-effort.
+  }
+}
@@ -1,25 +1,44 @@
 declare module "ml-svm" {
-  export type KernelType = "linear" | "polynomial" | "rbf" | "sigmoid";
+  export type KernelType =
+    | "linear"
+    | "polynomial"
+    | "rbf"
+    | "sigmoid"
+    | "laplacian";
 
+  /** Any object with `compute` can stand in for a built-in kernel. */
+  export interface KernelFunction {
+    compute(x: number[], y: number[]): number;
+  }
+
+  /** `(scale * <x, y> + constant) ^ degree` */
   export interface PolynomialKernelOptions {
     degree?: number;
     constant?: number;
-    multiplier?: number;
+    scale?: number;
   }
 
+  /** `exp(-||x - y||^2 / (2 * sigma^2))` */
   export interface RbfKernelOptions {
     sigma?: number;
   }
 
+  /** `tanh(alpha * <x, y> + constant)` */
   export interface SigmoidKernelOptions {
+    alpha?: number;
     constant?: number;
-    multiplier?: number;
+  }
+
+  /** `exp(-||x - y|| / sigma)` */
+  export interface LaplacianKernelOptions {
+    sigma?: number;
   }
 
   export type KernelOptions =
     | PolynomialKernelOptions
     | RbfKernelOptions
     | SigmoidKernelOptions
+    | LaplacianKernelOptions
     | Record<string, unknown>;
 
   export interface SVMOptions {
@@ -27,18 +46,24 @@ declare module "ml-svm" {
     tol?: number;
     maxPasses?: number;
     maxIterations?: number;
-    kernel?: KernelType;
+    kernel?: KernelType | KernelFunction;
     kernelOptions?: KernelOptions;
+    whitening?: boolean;
+    random?: () => number;
   }
 
   export default class SVM {
     constructor(options?: SVMOptions);
+    /** SMO iterations used by the last successful `train` call. */
+    iterations?: number;
     train(features: number[][], labels: number[]): void;
     predict(features: number[][]): number[];
     predictOne(feature: number[]): number;
     margin(features: number[][]): number[];
     marginOne(feature: number[]): number;
-    supportVectors(): { X: number[][]; y: number[] };
+    /** Indices of the support vectors in the training data. */
+    supportVectors(): number[];
     toJSON(): Record<string, unknown>;
+    static load(model: Record<string, unknown>): SVM;
   }
 }
@@ -0,0 +1,63 @@
+import type {
+  JobProgress,
+  WorkerRequest,
+  WorkerResponse,
+  WorkerResults,
+} from "@/workers/protocol";
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super("Job cancelled.");
+    this.name = "JobCancelledError";
+  }
+}
+
+export interface WorkerJob<T> {
+  result: Promise<T>;
+  cancel: () => void;
+}
+
+/**
+ * Runs one request on a fresh worker. Cancelling terminates the worker
+ * outright, so a half-finished SMO run can never leak into page state.
+ */
+export function startWorkerJob<R extends WorkerRequest>(
+  request: R,
+  onProgress?: (progress: JobProgress) => void,
+): WorkerJob<WorkerResults[R["type"]]> {
+  const worker = new Worker(new URL("./svm.worker.ts", import.meta.url));
+  let rejectJob: (reason: Error) => void = () => {};
+
+  const result = new Promise<WorkerResults[R["type"]]>((resolve, reject) => {
+    rejectJob = reject;
+
+    worker.addEventListener("message", (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === "result") {
+        resolve(message.result as WorkerResults[R["type"]]);
+      } else {
+        reject(new Error(message.message));
+      }
+    });
+
+    worker.addEventListener("error", (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "Worker crashed."));
+    });
+
+    worker.postMessage(request);
+  });
+
+  return {
+    result,
+    cancel: () => {
+      worker.terminate();
+      rejectJob(new JobCancelledError());
+    },
+  };
+}
@@ -0,0 +1,155 @@
+import type { BatchResult } from "@/lib/batch";
+import type { DecisionBoundary } from "@/lib/boundary";
+import type {
+  CurveProgress,
+  CurveResult,
+  CurveSettings,
+} from "@/lib/diagnostics";
+import type { FeatureEncoder } from "@/lib/encoding";
+import type { FeatureGroup, ImportanceOptions } from "@/lib/importance";
+import type { ImbalanceSettings } from "@/lib/imbalance";
+import type {
+  EvaluationResult,
+  EvaluationSettings,
+  TrainingProgress,
+} from "@/lib/evaluation";
+import type { RegressionEvaluation } from "@/lib/regression";
+import type {
+  FixedParameters,
+  SearchResult,
+  SearchSpace,
+} from "@/lib/search";
+import type {
+  SelectionOptions,
+  SelectionProgress,
+  SelectionResult,
+} from "@/lib/selection";
+import type { FeatureImputation, ScalingMethod } from "@/lib/preprocessing";
+import type { ModelParameters, SerializedPipeline } from "@/lib/svm";
+
+/**
+ * Messages exchanged with `svm.worker.ts`. Each worker runs exactly one job,
+ * so requests carry no id: cancelling a job means terminating its worker.
+ */
+export type WorkerRequest =
+  | {
+      type: "train";
+      features: number[][];
+      labels: string[];
+      parameters: ModelParameters;
+      scaling: ScalingMethod[];
+      imputation: (FeatureImputation | null)[];
+      imbalance: ImbalanceSettings;
+      settings: EvaluationSettings;
+      importance?: ImportanceOptions;
+    }
+  | {
+      type: "regress";
+      features: number[][];
+      targets: number[];
+      parameters: ModelParameters;
+      epsilon: number;
+      scaling: ScalingMethod[];
+      imputation: (FeatureImputation | null)[];
+      settings: EvaluationSettings;
+      importance?: ImportanceOptions;
+    }
+  | {
+      type: "search";
+      features: number[][];
+      labels: string[];
+      space: SearchSpace;
+      scaling: ScalingMethod[];
+      imputation: (FeatureImputation | null)[];
+      fixed: FixedParameters;
+      imbalance: ImbalanceSettings;
+    }
+  | {
+      type: "select";
+      features: number[][];
+      labels: string[];
+      /** Candidate source columns and their encoded columns. */
+      groups: FeatureGroup[];
+      options: SelectionOptions;
+    }
+  | {
+      type: "curve";
+      features: number[][];
+      labels: string[];
+      parameters: ModelParameters;
+      scaling: ScalingMethod[];
+      imputation: (FeatureImputation | null)[];
+      imbalance: ImbalanceSettings;
+      settings: CurveSettings;
+    }
+  | {
+      type: "predict";
+      pipeline: SerializedPipeline;
+      encoder: FeatureEncoder;
+      rows: Record<string, string>[];
+      /** Model feature column → header in `rows`. */
+      mapping: Record<string, string>;
+    }
+  | {
+      type: "boundary";
+      /** Two feature values per row. */
+      points: number[][];
+      labels: string[];
+      parameters: ModelParameters;
+      scaling: ScalingMethod[];
+      imbalance: ImbalanceSettings;
+      seed: number;
+      resolution: number;
+    };
+
+export interface WorkerResults {
+  train: { pipeline: SerializedPipeline; evaluation: EvaluationResult };
+  regress: { pipeline: SerializedPipeline; evaluation: RegressionEvaluation };
+  search: { results: SearchResult[] };
+  select: SelectionResult;
+  curve: CurveResult;
+  predict: BatchResult;
+  boundary: DecisionBoundary;
+}
+
+export interface JobProgress
+  extends Partial<TrainingProgress>,
+    Partial<SelectionProgress>,
+    Partial<CurveProgress> {
+  candidate?: number;
+  candidates?: number;
+  row?: number;
+  rows?: number;
+  /** Search results are streamed as each candidate finishes. */
+  result?: SearchResult;
+}
+
+export type WorkerResponse =
+  | { type: "progress"; progress: JobProgress }
+  | { type: "result"; result: WorkerResults[keyof WorkerResults] }
+  | { type: "error"; message: string };
+
+export function describeProgress(progress: JobProgress) {
+  const parts: string[] = [];
+  if (progress.candidate && progress.candidates) {
+    parts.push(`candidate ${progress.candidate} of ${progress.candidates}`);
+  }
+  if (progress.point && progress.points) {
+    parts.push(`curve point ${progress.point} of ${progress.points}`);
+  }
+  if (progress.step && progress.steps) {
+    parts.push(`elimination round ${progress.step} of ${progress.steps}`);
+  }
+  if (progress.fold && progress.folds) {
+    parts.push(`fold ${progress.fold} of ${progress.folds}`);
+  } else if (progress.folds && progress.fold === null) {
+    parts.push("final fit");
+  }
+  if (progress.row && progress.rows) {
+    parts.push(`row ${progress.row} of ${progress.rows}`);
+  }
+  if (progress.model && progress.models) {
+    parts.push(`model ${progress.model} of ${progress.models}`);
+  }
+  return parts.join(" · ");
+}
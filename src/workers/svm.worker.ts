@@ -0,0 +1,153 @@
+import { scoreBatch } from "@/lib/batch";
+import { trainDecisionBoundary } from "@/lib/boundary";
+import { learningCurve, validationCurve } from "@/lib/diagnostics";
+import { createSeededRandom, trainAndEvaluate } from "@/lib/evaluation";
+import { trainAndEvaluateRegression } from "@/lib/regression";
+import { evaluateCandidate, generateCandidates } from "@/lib/search";
+import {
+  recursiveFeatureElimination,
+  univariateScores,
+} from "@/lib/selection";
+import { deserializePipeline, serializePipeline } from "@/lib/svm";
+import type {
+  JobProgress,
+  WorkerRequest,
+  WorkerResponse,
+  WorkerResults,
+} from "@/workers/protocol";
+
+function post(message: WorkerResponse) {
+  (self as unknown as Worker).postMessage(message);
+}
+
+function reportProgress(progress: JobProgress) {
+  post({ type: "progress", progress });
+}
+
+function runJob(request: WorkerRequest): WorkerResults[WorkerRequest["type"]] {
+  if (request.type === "train") {
+    const { pipeline, evaluation } = trainAndEvaluate(
+      request.features,
+      request.labels,
+      {
+        ...request.parameters,
+        scaling: request.scaling,
+        imputation: request.imputation,
+        imbalance: request.imbalance,
+        random: createSeededRandom(request.settings.seed),
+      },
+      request.settings,
+      reportProgress,
+      request.importance,
+    );
+    return { pipeline: serializePipeline(pipeline), evaluation };
+  }
+
+  if (request.type === "regress") {
+    const { pipeline, evaluation } = trainAndEvaluateRegression(
+      request.features,
+      request.targets,
+      {
+        ...request.parameters,
+        epsilon: request.epsilon,
+        scaling: request.scaling,
+        imputation: request.imputation,
+        random: createSeededRandom(request.settings.seed),
+      },
+      request.settings,
+      reportProgress,
+      request.importance,
+    );
+    return { pipeline: serializePipeline(pipeline), evaluation };
+  }
+
+  if (request.type === "search") {
+    const candidates = generateCandidates(request.space);
+    const results = candidates.map((candidate, index) => {
+      const position = { candidate: index + 1, candidates: candidates.length };
+      const result = evaluateCandidate(
+        index,
+        candidate,
+        request.features,
+        request.labels,
+        request.space,
+        request.scaling,
+        request.imputation,
+        request.fixed,
+        request.imbalance,
+        (progress) => reportProgress({ ...position, ...progress }),
+      );
+      reportProgress({ ...position, result });
+      return result;
+    });
+    return { results };
+  }
+
+  if (request.type === "select") {
+    const univariate = univariateScores(
+      request.features,
+      request.labels,
+      request.groups,
+    );
+    return {
+      ...recursiveFeatureElimination(
+        request.features,
+        request.labels,
+        request.groups,
+        request.options,
+        reportProgress,
+      ),
+      univariate,
+    };
+  }
+
+  if (request.type === "curve") {
+    const curve =
+      request.settings.kind === "LEARNING" ? learningCurve : validationCurve;
+    return curve(
+      request.features,
+      request.labels,
+      {
+        ...request.parameters,
+        scaling: request.scaling,
+        imputation: request.imputation,
+        imbalance: request.imbalance,
+      },
+      request.settings,
+      reportProgress,
+    );
+  }
+
+  if (request.type === "boundary") {
+    return trainDecisionBoundary(
+      request.points,
+      request.labels,
+      {
+        ...request.parameters,
+        scaling: request.scaling,
+        imbalance: request.imbalance,
+        random: createSeededRandom(request.seed),
+      },
+      request.resolution,
+    );
+  }
+
+  return scoreBatch(
+    deserializePipeline(request.pipeline),
+    request.encoder,
+    request.rows,
+    request.mapping,
+    (row, rows) => reportProgress({ row, rows }),
+  );
+}
+
+self.addEventListener("message", (event: MessageEvent<WorkerRequest>) => {
+  try {
+    post({ type: "result", result: runJob(event.data) });
+  } catch (error) {
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : "Worker job failed.",
+    });
+  }
+});